@@ -1,48 +1,153 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { FileUploader } from './components/FileUploader';
 import { PreviewTable } from './components/PreviewTable';
 import { RiskAnalyzer } from './components/RiskAnalyzer'; 
-import { processCSV, downloadTXT, downloadZip } from './utils/processor';
-import { ProcessedFileResult, ProcessedRow } from './types';
-import { FileText, Download, RefreshCcw, AlertTriangle, ArrowDown, Eye, CheckCircle, XCircle, Trash2 } from 'lucide-react';
+import { StrategyConfigPanel } from './components/StrategyConfigPanel';
+import { NormalizationPanel } from './components/NormalizationPanel';
+import { DedupPanel } from './components/DedupPanel';
+import { DuplicateClustersModal } from './components/DuplicateClustersModal';
+import { ValidationPanel } from './components/ValidationPanel';
+import { QuarantineModal } from './components/QuarantineModal';
+import { OutputSplitPanel } from './components/OutputSplitPanel';
+import { ExportFormatSelect } from './components/ExportFormatSelect';
+import { SessionBar } from './components/SessionBar';
+import { RecentSessionsPanel } from './components/RecentSessionsPanel';
+import { EncodingSelect } from './components/EncodingSelect';
+import { useColumnMappingWizard } from './components/ColumnMappingWizard';
+import { useSheetPicker } from './components/SheetPicker';
+import { processCSV, downloadProcessedFile, downloadZip, downloadSkippedRows, processedOutputName, isAbortError } from './utils/processor';
+import { DEFAULT_STRATEGY_CONFIG } from './utils/strategyPresets';
+import { parseWithColumnMapping } from './utils/columnMapping';
+import { parseWithSheetSelection } from './utils/workbook';
+import { saveBatch, renameBatch } from './utils/batches';
+import { loadSplitOptions, saveSplitOptions } from './utils/outputSplit';
+import { loadDedupOptions, saveDedupOptions, loadExportHistory, countExportHistory, addToExportHistory, clearExportHistory } from './utils/dedup';
+import { loadNormalization, saveNormalization } from './utils/normalization';
+import { loadValidationRules, saveValidationRules } from './utils/validation';
+import { SessionHandle, AnalyzerSessionState, SessionSnapshot, downloadSession, readSession } from './utils/session';
+import { newSessionId, isEmptySession, autosaveSession, loadRecentSession } from './utils/recentSessions';
+import { ProcessedFileResult, ProcessedRow, StrategyConfig, TextEncodingName, FileProgress, DedupOptions, OutputSplitOptions, ExportFormat } from './types';
+import { FileText, Download, RefreshCcw, AlertTriangle, ArrowDown, Eye, CheckCircle, XCircle, Trash2, Loader2, Layers, FileSearch, ShieldAlert } from 'lucide-react';
+
+// Autosave waits for a pause in changes, so e.g. a run of verdicts is written once
+const AUTOSAVE_DELAY_MS = 3000;
 
 export default function App() {
   const [processedFiles, setProcessedFiles] = useState<ProcessedFileResult[]>([]);
   const [loading, setLoading] = useState(false);
   const [previewFileId, setPreviewFileId] = useState<string | null>(null);
+  const [strategyConfig, setStrategyConfig] = useState<StrategyConfig>(DEFAULT_STRATEGY_CONFIG);
+  const [dedupOptions, setDedupOptions] = useState<DedupOptions>(() => loadDedupOptions());
+  const [clusterFileId, setClusterFileId] = useState<string | null>(null);
+  const [quarantineFileId, setQuarantineFileId] = useState<string | null>(null);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('txt');
+  const [splitOptions, setSplitOptions] = useState<OutputSplitOptions>(() => loadSplitOptions());
+  const [historySize, setHistorySize] = useState(0);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const [downloading, setDownloading] = useState(false);
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+  const { requestMapping, wizard: mappingWizard } = useColumnMappingWizard();
+  const { requestSheet, picker: sheetPicker } = useSheetPicker();
+  const [progress, setProgress] = useState<FileProgress[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
+  const analyzerSession = useRef<SessionHandle<AnalyzerSessionState> | null>(null);
+  // Bumped when a session restores settings, so self-managed panels re-read them
+  const [settingsVersion, setSettingsVersion] = useState(0);
+  // Id the current work is autosaved under; a resumed session keeps its own
+  const [sessionId, setSessionId] = useState(newSessionId);
+  const [sessionsVersion, setSessionsVersion] = useState(0);
+  const [autosaveError, setAutosaveError] = useState<string | null>(null);
+  const autosaveTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // The export history lives in IndexedDB, so its size is only known once loaded
+  useEffect(() => {
+    countExportHistory().then(setHistorySize);
+  }, []);
 
   // Helper to generate IDs
   const generateId = () => Math.random().toString(36).substring(2, 9);
 
+  const updateProgress = (id: string, loaded: number, total: number) => {
+    setProgress(prev => prev.map(p => (p.id === id ? { ...p, loaded, total } : p)));
+  };
+
+  // Returns null when processing was cancelled
+  const processFile = async (
+    id: string,
+    file: File,
+    config: StrategyConfig,
+    otherFiles: ProcessedFileResult[], // Rest of the batch, for cross-file deduplication
+    encodingOverride?: TextEncodingName
+  ): Promise<ProcessedFileResult | null> => {
+    let batchContent: Map<string, string> | undefined;
+    if (dedupOptions.crossFile) {
+      batchContent = new Map();
+      for (const other of otherFiles) {
+        for (const row of other.data) if (!batchContent.has(row.content)) batchContent.set(row.content, other.originalName);
+      }
+    }
+    const exportHistory = dedupOptions.againstHistory ? await loadExportHistory() : undefined;
+
+    try {
+      const result = await parseWithSheetSelection(file, (sheet) => parseWithColumnMapping(
+        (columnMapping) => processCSV(file, config, {
+          encoding: encodingOverride,
+          columnMapping,
+          sheet,
+          dedup: dedupOptions,
+          batchContent,
+          exportHistory,
+          onProgress: (loaded, total) => updateProgress(id, loaded, total),
+          signal: abortRef.current?.signal
+        }),
+        requestMapping
+      ), requestSheet);
+      const processed: ProcessedFileResult = {
+        id,
+        originalName: file.name,
+        data: result.data,
+        stats: result.stats,
+        config,
+        file,
+        clusters: result.clusters,
+        skipped: result.skipped,
+        quarantine: result.quarantine
+      };
+      // Remembered so the scored results can be linked back in the analyzer
+      if (processed.data.length > 0) saveBatch(processed, result.nids, exportFormat, splitOptions);
+      return processed;
+    } catch (err: any) {
+      if (isAbortError(err)) return null;
+      console.error(`Error processing ${file.name}:`, err);
+      return {
+        id,
+        originalName: file.name,
+        data: [],
+        stats: { totalRows: 0, validRows: 0, skippedRows: 0, exactDuplicates: 0, nearDuplicates: 0, crossFileDuplicates: 0, historyDuplicates: 0, quarantinedRows: 0 },
+        config,
+        file,
+        error: err.message || "Unknown processing error"
+      };
+    }
+  };
+
   const handleFilesSelect = async (files: File[]) => {
     setLoading(true);
+    abortRef.current = new AbortController();
     
     const newResults: ProcessedFileResult[] = [];
+    const queue = files.map(file => ({ id: generateId(), name: file.name, loaded: 0, total: file.size }));
+    setProgress(queue);
 
-    // Process files sequentially or in parallel
-    for (const file of files) {
-      const id = generateId();
-      try {
-        const result = await processCSV(file);
-        newResults.push({
-          id,
-          originalName: file.name,
-          data: result.data,
-          stats: result.stats
-        });
-      } catch (err: any) {
-        console.error(`Error processing ${file.name}:`, err);
-        newResults.push({
-          id,
-          originalName: file.name,
-          data: [],
-          stats: { totalRows: 0, validRows: 0, skippedRows: 0 },
-          error: err.message || "Unknown processing error"
-        });
-      }
+    // Process files sequentially; each file is parsed in its own worker
+    for (let i = 0; i < files.length; i++) {
+      const result = await processFile(queue[i].id, files[i], strategyConfig, [...processedFiles, ...newResults]);
+      if (!result) break;
+      newResults.push(result);
     }
 
     setProcessedFiles(prev => [...prev, ...newResults]);
+    setProgress([]);
     setLoading(false);
     
     // Auto-preview first successful file if no preview exists
@@ -52,15 +157,81 @@ export default function App() {
     }
   };
 
+  const handleEncodingOverride = async (target: ProcessedFileResult, encoding: TextEncodingName | undefined) => {
+    if (!target.file) return;
+    setLoading(true);
+    abortRef.current = new AbortController();
+    setProgress([{ id: target.id, name: target.originalName, loaded: 0, total: target.file.size }]);
+    const otherFiles = processedFiles.filter(f => f.id !== target.id);
+    const result = await processFile(target.id, target.file, target.config, otherFiles, encoding);
+    if (result) setProcessedFiles(prev => prev.map(f => (f.id === target.id ? result : f)));
+    setProgress([]);
+    setLoading(false);
+  };
+
+  const updateDedupOptions = (options: DedupOptions) => {
+    setDedupOptions(options);
+    saveDedupOptions(options);
+  };
+
+  const cancelProcessing = () => {
+    abortRef.current?.abort();
+  };
+
+  // Only called once a download has been saved, so a failed export is not remembered as sent
+  const recordExport = async (files: ProcessedFileResult[]) => {
+    await Promise.all(files.map(f => renameBatch(f.id, processedOutputName(f, exportFormat, splitOptions))));
+    try {
+      setHistorySize(await addToExportHistory(files.flatMap(f => f.data.map(row => row.content))));
+      setHistoryError(null);
+    } catch (err: any) {
+      console.error('Failed to save export history:', err);
+      setHistoryError(`The export history could not be saved (${err?.message || 'storage error'}), so these rows will not be recognised as exported before.`);
+    }
+  };
+
+  // Output is written asynchronously (XLSX, ZIP), so failures only surface here. Processed files
+  // passed as `exported` are recorded in the export history once the download succeeded.
+  const runDownload = async (download: () => Promise<void>, exported: ProcessedFileResult[] = []) => {
+    setDownloading(true);
+    setDownloadError(null);
+    try {
+      await download();
+    } catch (err: any) {
+      console.error('Download failed:', err);
+      setDownloadError(`Download failed: ${err?.message || 'Unknown error'}`);
+      return;
+    } finally {
+      setDownloading(false);
+    }
+    if (exported.length > 0) await recordExport(exported);
+  };
+
   const handleDownloadSingle = (file: ProcessedFileResult) => {
     if (file.data.length === 0) return;
-    downloadTXT(file.data, file.originalName);
+    return runDownload(() => downloadProcessedFile(file, exportFormat, splitOptions), [file]);
   };
 
   const handleDownloadAll = () => {
     const validFiles = processedFiles.filter(f => !f.error && f.data.length > 0);
     if (validFiles.length === 0) return;
-    downloadZip(validFiles);
+    return runDownload(() => downloadZip(validFiles, exportFormat, splitOptions), validFiles);
+  };
+
+  const updateSplitOptions = (options: OutputSplitOptions) => {
+    setSplitOptions(options);
+    saveSplitOptions(options);
+  };
+
+  const handleClearHistory = async () => {
+    try {
+      await clearExportHistory();
+      setHistorySize(0);
+      setHistoryError(null);
+    } catch (err: any) {
+      console.error('Failed to clear export history:', err);
+      setHistoryError(`The export history could not be cleared (${err?.message || 'storage error'}).`);
+    }
   };
 
   const removeFile = (id: string) => {
@@ -73,12 +244,108 @@ export default function App() {
     setPreviewFileId(null);
   };
 
-  const previewData = processedFiles.find(f => f.id === previewFileId)?.data || [];
+  const captureSession = (): SessionSnapshot => ({
+    savedAt: Date.now(),
+    settings: { normalization: loadNormalization(), validation: loadValidationRules() },
+    batch: { files: processedFiles, previewFileId, strategyConfig, dedupOptions, splitOptions, exportFormat },
+    analyzer: analyzerSession.current!.capture(),
+  });
+
+  const restoreSession = (snapshot: SessionSnapshot) => {
+    abortRef.current?.abort();
+    saveNormalization(snapshot.settings.normalization);
+    saveValidationRules(snapshot.settings.validation);
+    setSettingsVersion(v => v + 1);
+
+    const { batch } = snapshot;
+    setProcessedFiles(batch.files);
+    setPreviewFileId(batch.previewFileId);
+    setStrategyConfig(batch.strategyConfig);
+    updateDedupOptions(batch.dedupOptions);
+    updateSplitOptions(batch.splitOptions);
+    setExportFormat(batch.exportFormat);
+    setClusterFileId(null);
+    setQuarantineFileId(null);
+
+    analyzerSession.current?.restore(snapshot.analyzer);
+  };
+
+  // Read by the autosave timer, which may fire after several renders
+  const latestSession = useRef({ id: sessionId, capture: captureSession });
+  latestSession.current = { id: sessionId, capture: captureSession };
+
+  const flushAutosave = async () => {
+    if (autosaveTimer.current) clearTimeout(autosaveTimer.current);
+    autosaveTimer.current = null;
+    if (!analyzerSession.current) return;
+    const { id, capture } = latestSession.current;
+    const snapshot = capture();
+    if (isEmptySession(snapshot)) return;
+    try {
+      await autosaveSession(id, snapshot);
+      setAutosaveError(null);
+    } catch (err: any) {
+      console.error('Failed to autosave session:', err);
+      setAutosaveError(`The current work could not be saved in this browser: ${err?.message || 'storage error'}. Delete older sessions or save the session to a file.`);
+    }
+    setSessionsVersion(v => v + 1);
+  };
+
+  const scheduleAutosave = () => {
+    if (autosaveTimer.current) clearTimeout(autosaveTimer.current);
+    autosaveTimer.current = setTimeout(flushAutosave, AUTOSAVE_DELAY_MS);
+  };
+
+  useEffect(() => {
+    scheduleAutosave();
+  }, [processedFiles, previewFileId, strategyConfig, dedupOptions, splitOptions, exportFormat]);
+
+  // Don't wait for the timer when the tab is hidden (it may be about to close)
+  useEffect(() => {
+    const handleVisibility = () => {
+      if (document.visibilityState === 'hidden' && autosaveTimer.current) flushAutosave();
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => document.removeEventListener('visibilitychange', handleVisibility);
+  }, []);
+
+  // The current work is autosaved first, so switching sessions never loses it
+  const handleOpenSession = async (file: File) => {
+    const snapshot = await readSession(file);
+    await flushAutosave();
+    setSessionId(newSessionId());
+    restoreSession(snapshot);
+  };
+
+  // Saved before loading, so the resumed session is the one autosave compares against next
+  const handleResumeSession = async (id: string) => {
+    await flushAutosave();
+    const snapshot = await loadRecentSession(id);
+    setSessionId(id);
+    restoreSession(snapshot);
+  };
+
+  const previewFile = processedFiles.find(f => f.id === previewFileId);
+  const clusterFile = processedFiles.find(f => f.id === clusterFileId);
+  const quarantineFile = processedFiles.find(f => f.id === quarantineFileId);
+  const previewData = previewFile?.data || [];
 
   return (
     <div className="min-h-screen bg-slate-50 p-6 md:p-12 font-sans">
       <div className="max-w-5xl mx-auto space-y-12">
         
+        {/* Save / restore everything below */}
+        <div className="space-y-3">
+          <SessionBar onSave={() => downloadSession(captureSession())} onOpen={handleOpenSession} disabled={loading} />
+          <RecentSessionsPanel
+            currentId={sessionId}
+            refreshKey={sessionsVersion}
+            autosaveError={autosaveError}
+            onResume={handleResumeSession}
+            disabled={loading}
+          />
+        </div>
+
         {/* Module 1: Batch Processor */}
         <section>
           {/* Header */}
@@ -90,18 +357,40 @@ export default function App() {
               Batch CSV/TXT to Strategy TXT
             </h1>
             <p className="text-slate-500 max-w-lg mx-auto">
-              Upload multiple GBK-encoded CSV or TXT files. We'll format them and you can download the results individually or as a ZIP.
+              Upload multiple CSV, TXT or Excel (.xlsx) files (GBK, UTF-8 and other encodings are detected automatically). We'll format them and you can download the results individually or as a ZIP.
             </p>
           </header>
 
           <main className="space-y-6">
+            {/* Strategy Config */}
+            <StrategyConfigPanel config={strategyConfig} onChange={setStrategyConfig} disabled={loading} />
+
+            {/* Content normalization (shared with the Risk Analyzer) */}
+            <NormalizationPanel key={`normalization-${settingsVersion}`} disabled={loading} />
+
+            {/* Rows the scoring service would reject */}
+            <ValidationPanel key={`validation-${settingsVersion}`} disabled={loading} />
+
+            {/* Duplicate removal */}
+            <DedupPanel
+              options={dedupOptions}
+              onChange={updateDedupOptions}
+              historySize={historySize}
+              historyError={historyError}
+              onClearHistory={handleClearHistory}
+              disabled={loading}
+            />
+
+            {/* Upload limits of the scoring platform */}
+            <OutputSplitPanel options={splitOptions} onChange={updateSplitOptions} />
+
             {/* Upload Section */}
             <div className="bg-white rounded-3xl shadow-sm border border-slate-200 p-2">
-               <FileUploader onFileSelect={handleFilesSelect} isLoading={loading} />
+               <FileUploader onFileSelect={handleFilesSelect} isLoading={loading} progress={progress} onCancel={cancelProcessing} />
             </div>
 
             {/* File List & Results */}
-            {processedFiles.length > 0 && (
+            {(processedFiles.length > 0 || progress.length > 0) && (
               <div className="animate-in fade-in slide-in-from-bottom-4 duration-500 space-y-6">
                 
                 {/* Global Actions */}
@@ -110,21 +399,31 @@ export default function App() {
                       <span className="font-bold text-slate-700">{processedFiles.length}</span>
                       <span className="text-slate-500 text-sm">Files processed</span>
                    </div>
-                   <div className="flex gap-2">
+                   <div className="flex flex-wrap items-center gap-2">
+                      <button
+                        onClick={() => runDownload(() => downloadSkippedRows(processedFiles))}
+                        disabled={downloading || !processedFiles.some(f => f.skipped && f.skipped.length > 0)}
+                        className="flex items-center gap-2 px-4 py-2 rounded-lg border border-slate-200 text-slate-600 hover:bg-slate-50 text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        title="CSV of every skipped row with the reason"
+                      >
+                        <FileSearch className="w-4 h-4" /> Skipped Rows Audit
+                      </button>
                       <button 
                         onClick={reset}
                         className="flex items-center gap-2 px-4 py-2 rounded-lg border border-slate-200 text-slate-600 hover:bg-slate-50 text-sm font-medium transition-colors"
                       >
                         <RefreshCcw className="w-4 h-4" /> Clear All
                       </button>
+                      <ExportFormatSelect value={exportFormat} onChange={setExportFormat} />
                       <button 
                         onClick={handleDownloadAll}
-                        disabled={!processedFiles.some(f => !f.error)}
+                        disabled={downloading || !processedFiles.some(f => !f.error)}
                         className="flex items-center gap-2 px-5 py-2 rounded-lg bg-slate-900 text-white hover:bg-slate-800 shadow-lg shadow-slate-200 text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                       >
-                        <Download className="w-4 h-4" /> Download All (ZIP)
+                        {downloading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />} Download All (ZIP)
                       </button>
                    </div>
+                   {downloadError && <p className="w-full text-xs text-red-600 bg-red-50 p-2 rounded-lg">{downloadError}</p>}
                 </div>
 
                 {/* File List */}
@@ -135,12 +434,32 @@ export default function App() {
                                 <tr>
                                     <th className="px-6 py-3 font-medium">Status</th>
                                     <th className="px-6 py-3 font-medium">Filename</th>
+                                    <th className="px-6 py-3 font-medium">Encoding</th>
                                     <th className="px-6 py-3 font-medium">Rows (Valid/Total)</th>
                                     <th className="px-6 py-3 font-medium text-right">Actions</th>
                                 </tr>
                             </thead>
                             <tbody className="divide-y divide-slate-100">
-                                {processedFiles.map(file => (
+                                {progress.map(p => (
+                                    <tr key={`pending-${p.id}`} className="bg-slate-50/50">
+                                        <td className="px-6 py-4 whitespace-nowrap">
+                                            <div className="flex items-center text-blue-600 gap-2">
+                                                <Loader2 className="w-5 h-5 animate-spin" />
+                                                <span className="text-xs font-bold">Processing</span>
+                                            </div>
+                                        </td>
+                                        <td className="px-6 py-4 font-medium text-slate-700">{p.name}</td>
+                                        <td className="px-6 py-4" colSpan={2}>
+                                            <div className="h-1.5 bg-slate-200 rounded-full overflow-hidden">
+                                                <div className="h-full bg-blue-500 transition-all" style={{ width: `${p.total > 0 ? (p.loaded / p.total) * 100 : 0}%` }} />
+                                            </div>
+                                        </td>
+                                        <td className="px-6 py-4 text-right text-xs font-mono text-slate-500">
+                                            {p.total > 0 ? Math.round((p.loaded / p.total) * 100) : 0}%
+                                        </td>
+                                    </tr>
+                                ))}
+                                {processedFiles.filter(file => !progress.some(p => p.id === file.id)).map(file => (
                                     <tr key={file.id} className={`transition-colors ${previewFileId === file.id ? 'bg-blue-50/50' : 'hover:bg-slate-50'}`}>
                                         <td className="px-6 py-4 whitespace-nowrap">
                                             {file.error ? (
@@ -159,12 +478,37 @@ export default function App() {
                                             {file.originalName}
                                             {file.error && <div className="text-xs text-red-500 mt-1">{file.error}</div>}
                                         </td>
+                                        <td className="px-6 py-4 whitespace-nowrap">
+                                            <EncodingSelect
+                                                detection={file.stats.encoding}
+                                                onOverride={(encoding) => handleEncodingOverride(file, encoding)}
+                                                disabled={loading || !file.file}
+                                            />
+                                        </td>
                                         <td className="px-6 py-4 text-slate-600 font-mono text-xs">
                                             {!file.error && (
                                                 <span>
                                                     <span className="text-green-600 font-bold">{file.stats.validRows}</span> 
                                                     <span className="text-slate-400"> / </span>
                                                     {file.stats.totalRows}
+                                                    {file.stats.skippedRows > 0 && (
+                                                        <div className="text-slate-400 mt-1">
+                                                            dup: {file.stats.exactDuplicates} exact
+                                                            {file.clusters && <>, {file.stats.nearDuplicates} near</>}
+                                                            {file.stats.crossFileDuplicates > 0 && <>, {file.stats.crossFileDuplicates} other files</>}
+                                                            {file.stats.historyDuplicates > 0 && <>, {file.stats.historyDuplicates} history</>}
+                                                        </div>
+                                                    )}
+                                                    {file.stats.quarantinedRows > 0 && (
+                                                        <button
+                                                            onClick={() => setQuarantineFileId(file.id)}
+                                                            className="flex items-center gap-1 mt-1 text-amber-600 hover:text-amber-700 hover:underline"
+                                                            title="Show quarantined rows"
+                                                        >
+                                                            <ShieldAlert className="w-3 h-3" />
+                                                            {file.stats.quarantinedRows} quarantined
+                                                        </button>
+                                                    )}
                                                 </span>
                                             )}
                                         </td>
@@ -181,11 +525,22 @@ export default function App() {
                                                     </button>
                                                     <button 
                                                         onClick={() => handleDownloadSingle(file)}
-                                                        className="p-2 text-slate-400 hover:text-slate-900 hover:bg-slate-100 rounded-lg transition-colors"
+                                                        disabled={downloading}
+                                                        className="p-2 text-slate-400 hover:text-slate-900 hover:bg-slate-100 rounded-lg transition-colors disabled:opacity-50"
                                                         title="Download"
                                                     >
                                                         <Download className="w-4 h-4" />
                                                     </button>
+                                                    {file.clusters && (
+                                                        <button
+                                                            onClick={() => setClusterFileId(file.id)}
+                                                            disabled={file.clusters.length === 0}
+                                                            className="p-2 text-slate-400 hover:text-blue-600 hover:bg-slate-100 rounded-lg transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+                                                            title="Near-duplicate clusters"
+                                                        >
+                                                            <Layers className="w-4 h-4" />
+                                                        </button>
+                                                    )}
                                                     </>
                                                 )}
                                                 <button 
@@ -210,10 +565,10 @@ export default function App() {
                        <div className="flex items-center gap-2 mb-2 px-2">
                           <Eye className="w-4 h-4 text-slate-400" />
                           <span className="text-sm font-semibold text-slate-600">
-                              Previewing: {processedFiles.find(f => f.id === previewFileId)?.originalName}
+                              Previewing: {previewFile?.originalName}
                           </span>
                        </div>
-                       <PreviewTable data={previewData} />
+                       <PreviewTable data={previewData} config={previewFile?.config} />
                    </div>
                 )}
 
@@ -232,9 +587,22 @@ export default function App() {
         </div>
 
         {/* Module 2: Risk Analyzer */}
-        <RiskAnalyzer />
+        <RiskAnalyzer sessionRef={analyzerSession} onSessionChange={scheduleAutosave} />
 
       </div>
+
+      {mappingWizard}
+      {sheetPicker}
+
+      {clusterFile?.clusters && (
+        <DuplicateClustersModal
+          fileName={clusterFile.originalName}
+          clusters={clusterFile.clusters}
+          onClose={() => setClusterFileId(null)}
+        />
+      )}
+
+      {quarantineFile && <QuarantineModal file={quarantineFile} onClose={() => setQuarantineFileId(null)} />}
     </div>
   );
 }
\ No newline at end of file
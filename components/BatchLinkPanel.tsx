@@ -0,0 +1,91 @@
+import React from 'react';
+import { BatchRecord, BatchComparison, downloadContentList } from '../utils/batches';
+import { Link2, Download } from 'lucide-react';
+
+interface BatchLinkPanelProps {
+  fileNames: string[]; // Loaded scored files
+  batches: BatchRecord[];
+  links: Record<string, string | null>; // Scored file -> batch id
+  comparisons: Map<string, BatchComparison>;
+  onLinkChange: (fileName: string, batchId: string | null) => void;
+}
+
+const baseName = (name: string) => name.replace(/\.[^.]+$/, '');
+
+export const BatchLinkPanel: React.FC<BatchLinkPanelProps> = ({ fileNames, batches, links, comparisons, onLinkChange }) => {
+  const renderCount = (contents: string[], filename: string, warn: boolean) => (
+    <div className="flex items-center gap-2">
+      <span className={`font-mono text-xs ${warn && contents.length > 0 ? 'text-amber-600 font-bold' : 'text-slate-500'}`}>
+        {contents.length}
+      </span>
+      {contents.length > 0 && (
+        <button
+          onClick={() => downloadContentList(contents, filename)}
+          className="p-1 text-slate-400 hover:text-indigo-600 rounded transition-colors"
+          title="Download list"
+        >
+          <Download className="w-3 h-3" />
+        </button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <label className="text-sm font-semibold text-slate-700 flex items-center gap-2">
+        <Link2 className="w-4 h-4" />
+        Batch Link
+      </label>
+
+      <div className="bg-white border border-slate-200 rounded-lg overflow-hidden">
+        <table className="w-full text-sm text-left">
+          <thead className="text-xs text-slate-500 uppercase bg-slate-50 border-b border-slate-200">
+            <tr>
+              <th className="px-4 py-2 font-medium">Scored File</th>
+              <th className="px-4 py-2 font-medium">Batch</th>
+              <th className="px-4 py-2 font-medium">Sent &amp; Scored</th>
+              <th className="px-4 py-2 font-medium">Sent, Not Scored</th>
+              <th className="px-4 py-2 font-medium">Scored, Not Sent</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {fileNames.map(fileName => {
+              const comparison = comparisons.get(fileName);
+              return (
+                <tr key={fileName} className="hover:bg-slate-50">
+                  <td className="px-4 py-2 text-slate-700 truncate max-w-xs" title={fileName}>{fileName}</td>
+                  <td className="px-4 py-2">
+                    <select
+                      value={links[fileName] || ''}
+                      onChange={(e) => onLinkChange(fileName, e.target.value || null)}
+                      className="w-full max-w-xs px-2 py-1 text-xs border border-slate-200 rounded-md bg-white focus:ring-2 focus:ring-indigo-500 outline-none"
+                    >
+                      <option value="">Not linked</option>
+                      {batches.map(batch => (
+                        <option key={batch.id} value={batch.id}>
+                          {batch.name} ({new Date(batch.createdAt).toLocaleString()})
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  {comparison ? (
+                    <>
+                      <td className="px-4 py-2 font-mono text-xs text-green-700">{comparison.scoredAndSent}</td>
+                      <td className="px-4 py-2">{renderCount(comparison.sentNotScored, `${baseName(fileName)}_sent_not_scored.txt`, true)}</td>
+                      <td className="px-4 py-2">{renderCount(comparison.scoredNotSent, `${baseName(fileName)}_scored_not_sent.txt`, true)}</td>
+                    </>
+                  ) : (
+                    <td colSpan={3} className="px-4 py-2 text-xs text-slate-400">No matching batch found</td>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-slate-400">
+        Batches produced by the Batch Processor are remembered in this browser. Linked batches supply NIDs and show rows lost between sending and scoring.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,161 @@
+import React, { useRef, useState } from 'react';
+import { ColumnMapping, ColumnRole } from '../types';
+import { ColumnMappingRequiredError, COLUMN_ROLE_LABELS, saveColumnMapping } from '../utils/columnMapping';
+import { Columns, X } from 'lucide-react';
+
+interface ColumnMappingWizardProps {
+  request: ColumnMappingRequiredError;
+  onConfirm: (mapping: ColumnMapping) => void;
+  onCancel: () => void;
+}
+
+export const ColumnMappingWizard: React.FC<ColumnMappingWizardProps> = ({ request, onConfirm, onCancel }) => {
+  const [mapping, setMapping] = useState<ColumnMapping>(request.detected);
+  const [remember, setRemember] = useState(true);
+
+  const roles: ColumnRole[] = [...request.requiredRoles, ...request.optionalRoles];
+  const isComplete = request.requiredRoles.every(role => !!mapping[role]);
+
+  const handleConfirm = () => {
+    if (remember) saveColumnMapping(request.fields, mapping);
+    onConfirm(mapping);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="flex justify-between items-center px-6 py-4 border-b border-slate-100">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+              <Columns className="w-5 h-5 text-indigo-600" />
+              Map Columns
+            </h3>
+            <p className="text-xs text-slate-500 mt-1">
+              Some columns in <span className="font-medium text-slate-700">{request.fileName}</span> were not recognized. Assign them below.
+            </p>
+          </div>
+          <button
+            onClick={onCancel}
+            className="p-1 rounded-full hover:bg-slate-100 text-slate-500 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-6">
+          {/* Role assignment */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {roles.map(role => {
+              const isRequired = request.requiredRoles.includes(role);
+              return (
+                <div key={role}>
+                  <label className="block text-xs font-medium text-slate-500 mb-1">
+                    {COLUMN_ROLE_LABELS[role]} {isRequired ? <span className="text-red-500">*</span> : '(optional)'}
+                  </label>
+                  <select
+                    value={mapping[role] || ''}
+                    onChange={(e) => setMapping(prev => ({ ...prev, [role]: e.target.value || undefined }))}
+                    className={`w-full px-3 py-1.5 text-sm border rounded-lg bg-white focus:ring-2 focus:ring-indigo-500 outline-none
+                      ${isRequired && !mapping[role] ? 'border-red-300' : 'border-slate-300'}`}
+                  >
+                    <option value="">— none —</option>
+                    {request.fields.map(field => (
+                      <option key={field} value={field}>{field}</option>
+                    ))}
+                  </select>
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Detected headers with sample values */}
+          <div className="border border-slate-200 rounded-lg overflow-x-auto">
+            <table className="w-full text-sm text-left">
+              <thead className="text-xs text-slate-500 uppercase bg-slate-50 border-b border-slate-200">
+                <tr>
+                  <th className="px-4 py-2 font-medium">Column</th>
+                  <th className="px-4 py-2 font-medium">Role</th>
+                  <th className="px-4 py-2 font-medium">Sample Values</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {request.fields.map(field => {
+                  const role = roles.find(r => mapping[r] === field);
+                  return (
+                    <tr key={field} className={role ? 'bg-indigo-50/50' : ''}>
+                      <td className="px-4 py-2 font-mono text-xs text-slate-700 whitespace-nowrap">{field}</td>
+                      <td className="px-4 py-2 text-xs text-indigo-600 font-medium whitespace-nowrap">
+                        {role ? COLUMN_ROLE_LABELS[role] : ''}
+                      </td>
+                      <td className="px-4 py-2 text-xs text-slate-500 max-w-md truncate">
+                        {request.sampleRows.map(row => row[field]).filter(Boolean).slice(0, 3).join(' | ')}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-100 bg-white flex flex-wrap items-center justify-between gap-3">
+          <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={remember}
+              onChange={(e) => setRemember(e.target.checked)}
+              className="w-4 h-4 text-indigo-600 rounded border-slate-300 focus:ring-indigo-500"
+            />
+            Remember for files with these headers
+          </label>
+          <div className="flex gap-3">
+            <button
+              onClick={onCancel}
+              className="px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-50 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleConfirm}
+              disabled={!isComplete}
+              className="px-4 py-2 text-sm font-medium text-white bg-slate-900 hover:bg-slate-800 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Apply Mapping
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Lets async processing code await the user's answer from the wizard:
+// `requestMapping(error)` opens the wizard and resolves with the chosen mapping (or null on cancel).
+export const useColumnMappingWizard = () => {
+  const [request, setRequest] = useState<ColumnMappingRequiredError | null>(null);
+  const resolverRef = useRef<((mapping: ColumnMapping | null) => void) | null>(null);
+
+  const requestMapping = (error: ColumnMappingRequiredError) => {
+    return new Promise<ColumnMapping | null>(resolve => {
+      resolverRef.current = resolve;
+      setRequest(error);
+    });
+  };
+
+  const settle = (mapping: ColumnMapping | null) => {
+    resolverRef.current?.(mapping);
+    resolverRef.current = null;
+    setRequest(null);
+  };
+
+  const wizard = request ? (
+    <ColumnMappingWizard
+      key={request.fileName + request.fields.join()}
+      request={request}
+      onConfirm={(mapping) => settle(mapping)}
+      onCancel={() => settle(null)}
+    />
+  ) : null;
+
+  return { requestMapping, wizard };
+};
@@ -0,0 +1,283 @@
+import React, { useMemo, useState } from 'react';
+import { RiskAnalysisRow, ColumnMapping, ExportFormat } from '../types';
+import { processRiskCSV, downloadRunComparison } from '../utils/processor';
+import { parseWithColumnMapping, ColumnMappingRequiredError } from '../utils/columnMapping';
+import { parseWithSheetSelection, SheetSelectionRequiredError, INPUT_ACCEPT } from '../utils/workbook';
+import { ThresholdSet } from '../utils/thresholds';
+import { NidMapping, NidMatchOptions, matchNids, formatNids } from '../utils/nidMatching';
+import { compareRuns, ComparisonJoin, ChangeKind, CHANGE_LABELS } from '../utils/runComparison';
+import { GitCompareArrows, Upload, X, Download } from 'lucide-react';
+
+interface ComparisonPanelProps {
+  data: RiskAnalysisRow[]; // The current run
+  thresholds: ThresholdSet;
+  nidMapping: NidMapping | null; // Also applied to the baseline so the runs can be joined by NID
+  matchOptions: NidMatchOptions;
+  exportFormat: ExportFormat;
+  requestMapping: (error: ColumnMappingRequiredError) => Promise<ColumnMapping | null>;
+  requestSheet: (error: SheetSelectionRequiredError) => Promise<string | null>;
+}
+
+const MAX_LISTED_ROWS = 200;
+
+const CHANGE_STYLES: Record<ChangeKind, string> = {
+  newly_flagged: 'text-red-600',
+  unflagged: 'text-green-700',
+  type_changed: 'text-amber-600',
+  score_changed: 'text-slate-600',
+  unchanged: 'text-slate-400',
+};
+
+const formatDelta = (delta: number) => `${delta > 0 ? '+' : ''}${delta.toFixed(4)}`;
+
+export const ComparisonPanel: React.FC<ComparisonPanelProps> = ({
+  data, thresholds, nidMapping, matchOptions, exportFormat, requestMapping, requestSheet
+}) => {
+  const [baselineRows, setBaselineRows] = useState<RiskAnalysisRow[]>([]);
+  const [baselineFiles, setBaselineFiles] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [loadProgress, setLoadProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [join, setJoin] = useState<ComparisonJoin>('content');
+  const [changeFilter, setChangeFilter] = useState<ChangeKind | 'changed'>('changed');
+
+  // Sequential, so at most one column mapping wizard is open at a time
+  const handleBaselineSelect = async (files: File[]) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const rows: RiskAnalysisRow[] = [];
+      for (const file of files) {
+        setLoadProgress(0);
+        const result = await parseWithSheetSelection(file, (sheet) => parseWithColumnMapping(
+          (columnMapping) => processRiskCSV(file, {
+            columnMapping,
+            sheet,
+            onProgress: (loaded, total) => setLoadProgress(total > 0 ? loaded / total : 0)
+          }),
+          requestMapping
+        ), requestSheet);
+        for (const row of result.data) rows.push({ ...row, id: rows.length });
+      }
+      if (rows.length === 0) {
+        setError("No valid rows found in the baseline files. Please check the column names.");
+        return;
+      }
+      setBaselineRows(rows);
+      setBaselineFiles(files.map(f => f.name));
+    } catch (err: any) {
+      console.error(err);
+      setError(`Baseline File Error: ${err.message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const clearBaseline = () => {
+    setBaselineRows([]);
+    setBaselineFiles([]);
+    setError(null);
+  };
+
+  const canJoinByNid = !!nidMapping;
+  const effectiveJoin: ComparisonJoin = canJoinByNid ? join : 'content';
+
+  const baseline = useMemo(
+    () => (nidMapping ? matchNids(baselineRows, nidMapping, matchOptions) : baselineRows),
+    [baselineRows, nidMapping, matchOptions]
+  );
+  const comparison = useMemo(
+    () => compareRuns(baseline, data, effectiveJoin, thresholds),
+    [baseline, data, effectiveJoin, thresholds]
+  );
+
+  const listed = useMemo(() => {
+    const rows = comparison.rows.filter(row => (changeFilter === 'changed' ? row.change !== 'unchanged' : row.change === changeFilter));
+    return rows.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+  }, [comparison, changeFilter]);
+
+  const renderMetric = (label: string, value: string | number, className = 'text-slate-800') => (
+    <div className="bg-white border border-slate-200 rounded-lg px-4 py-3">
+      <div className="text-xs text-slate-500">{label}</div>
+      <div className={`text-xl font-bold ${className}`}>{value}</div>
+    </div>
+  );
+
+  const renderFlagShift = (before: number, after: number) => (
+    <span className="font-mono text-xs">
+      {before} → {after}
+      {after !== before && (
+        <span className={after > before ? 'text-red-600' : 'text-green-700'}> ({after > before ? '+' : ''}{after - before})</span>
+      )}
+    </span>
+  );
+
+  const filterOptions: (ChangeKind | 'changed')[] = ['changed', 'newly_flagged', 'unflagged', 'type_changed', 'score_changed', 'unchanged'];
+  const changedCount = comparison.rows.length - comparison.counts.unchanged;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <label className="text-sm font-semibold text-slate-700 flex items-center gap-2">
+          <GitCompareArrows className="w-4 h-4" />
+          Run Comparison
+        </label>
+        {baselineFiles.length > 0 ? (
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-slate-500 truncate max-w-xs" title={baselineFiles.join('\n')}>
+              Baseline: {baselineFiles.join(', ')}
+            </span>
+            <select
+              value={effectiveJoin}
+              onChange={(e) => setJoin(e.target.value as ComparisonJoin)}
+              className="px-2 py-1 text-xs border border-slate-300 rounded-lg bg-white focus:ring-2 focus:ring-indigo-500 outline-none"
+              title="How rows of the two runs are matched"
+            >
+              <option value="content">Join by content</option>
+              <option value="nid" disabled={!canJoinByNid}>Join by NID{canJoinByNid ? '' : ' (needs source CSV)'}</option>
+            </select>
+            <button
+              onClick={() => downloadRunComparison(comparison, exportFormat).catch((err: any) => {
+                console.error('Comparison export failed:', err);
+                setError(`Export failed: ${err?.message || 'Unknown error'}`);
+              })}
+              disabled={comparison.rows.length === 0}
+              className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-slate-600 border border-slate-200 hover:bg-slate-50 rounded-lg transition-colors disabled:opacity-50"
+              title="Export every matched row with both scores"
+            >
+              <Download className="w-3 h-3" /> Export Diff
+            </button>
+            <button onClick={clearBaseline} className="p-1 text-slate-400 hover:text-slate-700 rounded transition-colors" title="Remove baseline">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        ) : (
+          <label className="flex items-center gap-1 text-xs text-indigo-600 hover:text-indigo-800 font-medium cursor-pointer transition-colors">
+            <Upload className="w-3 h-3" />
+            {loading ? `Loading... ${Math.round(loadProgress * 100)}%` : 'Upload Baseline Run'}
+            <input
+              type="file"
+              accept={INPUT_ACCEPT}
+              multiple
+              className="hidden"
+              disabled={loading}
+              onChange={(e) => {
+                if (e.target.files?.length) handleBaselineSelect(Array.from(e.target.files));
+                e.target.value = '';
+              }}
+            />
+          </label>
+        )}
+      </div>
+
+      {error && <p className="text-xs text-red-600 bg-red-50 p-2 rounded-lg">{error}</p>}
+
+      {baselineFiles.length === 0 ? (
+        <p className="text-xs text-slate-400">
+          Upload the scored files of an earlier run (e.g. the previous model version) to see score deltas, risk type changes and rows that became flagged or unflagged at the current thresholds.
+        </p>
+      ) : (
+        <>
+          <p className="text-xs text-slate-500">
+            <span className="font-semibold text-slate-700">{comparison.rows.length}</span> rows matched
+            {comparison.onlyBaseline > 0 && <>, {comparison.onlyBaseline} only in the baseline</>}
+            {comparison.onlyCurrent > 0 && <>, {comparison.onlyCurrent} only in the current run</>}
+          </p>
+
+          {comparison.rows.length > 0 && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {renderMetric('Newly flagged', comparison.counts.newly_flagged, 'text-red-600')}
+                {renderMetric('No longer flagged', comparison.counts.unflagged, 'text-green-700')}
+                {renderMetric('Risk type changed', comparison.counts.type_changed, 'text-amber-600')}
+                {renderMetric('Mean score delta', formatDelta(comparison.meanDelta))}
+              </div>
+
+              <div className="bg-white border border-slate-200 rounded-lg overflow-hidden max-h-72 overflow-y-auto">
+                <table className="w-full text-sm text-left">
+                  <thead className="text-xs text-slate-500 uppercase bg-slate-50 border-b border-slate-200 sticky top-0">
+                    <tr>
+                      <th className="px-3 py-2 font-medium">Risk Type</th>
+                      <th className="px-3 py-2 font-medium" title="Flagged rows, baseline → current">Flagged</th>
+                      <th className="px-3 py-2 font-medium">Newly Flagged</th>
+                      <th className="px-3 py-2 font-medium">No Longer Flagged</th>
+                      <th className="px-3 py-2 font-medium" title="Rows that changed their risk type to / away from this one">Moved In / Out</th>
+                      <th className="px-3 py-2 font-medium" title="Over matched rows with this baseline type">Mean Delta</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {comparison.categories.map(entry => (
+                      <tr key={entry.riskType} className="hover:bg-slate-50">
+                        <td className="px-3 py-2 text-slate-700">{entry.riskType}</td>
+                        <td className="px-3 py-2">{renderFlagShift(entry.baselineFlagged, entry.currentFlagged)}</td>
+                        <td className="px-3 py-2 font-mono text-xs text-red-600">{entry.newlyFlagged || '-'}</td>
+                        <td className="px-3 py-2 font-mono text-xs text-green-700">{entry.unflagged || '-'}</td>
+                        <td className="px-3 py-2 font-mono text-xs text-amber-600">{entry.movedIn} / {entry.movedOut}</td>
+                        <td className="px-3 py-2 font-mono text-xs">{entry.meanDelta === null ? '-' : formatDelta(entry.meanDelta)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                {filterOptions.map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setChangeFilter(option)}
+                    className={`px-2.5 py-1 rounded-full text-xs font-medium border transition-colors
+                      ${changeFilter === option ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-600 border-slate-200 hover:border-slate-300'}`}
+                  >
+                    {option === 'changed' ? 'All changes' : CHANGE_LABELS[option]}
+                    {' '}({option === 'changed' ? changedCount : comparison.counts[option]})
+                  </button>
+                ))}
+              </div>
+
+              {listed.length > 0 && (
+                <div className="bg-white border border-slate-200 rounded-lg overflow-hidden max-h-96 overflow-y-auto">
+                  <table className="w-full text-sm text-left">
+                    <thead className="text-xs text-slate-500 uppercase bg-slate-50 border-b border-slate-200 sticky top-0">
+                      <tr>
+                        <th className="px-3 py-2 font-medium">Change</th>
+                        <th className="px-3 py-2 font-medium">Score</th>
+                        <th className="px-3 py-2 font-medium">Delta</th>
+                        <th className="px-3 py-2 font-medium">Risk Type</th>
+                        <th className="px-3 py-2 font-medium">Content</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                      {listed.slice(0, MAX_LISTED_ROWS).map(row => (
+                        <tr key={`${row.baseline.id}-${row.current.id}`} className="hover:bg-slate-50 align-top">
+                          <td className={`px-3 py-2 text-xs font-medium whitespace-nowrap ${CHANGE_STYLES[row.change]}`}>{CHANGE_LABELS[row.change]}</td>
+                          <td className="px-3 py-2 font-mono text-xs whitespace-nowrap">{row.baseline.riskScore} → {row.current.riskScore}</td>
+                          <td className={`px-3 py-2 font-mono text-xs ${row.delta > 0 ? 'text-red-600' : row.delta < 0 ? 'text-green-700' : 'text-slate-400'}`}>
+                            {formatDelta(row.delta)}
+                          </td>
+                          <td className="px-3 py-2 text-xs whitespace-nowrap">
+                            {row.baseline.riskType === row.current.riskType
+                              ? row.current.riskType
+                              : <>{row.baseline.riskType} → <span className="text-amber-600 font-medium">{row.current.riskType}</span></>}
+                          </td>
+                          <td className="px-3 py-2 text-xs text-slate-700 break-all">
+                            {row.current.content}
+                            {formatNids(row.current) && <span className="block text-slate-400 font-mono">NID: {formatNids(row.current)}</span>}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+              {listed.length > MAX_LISTED_ROWS && (
+                <p className="text-xs text-slate-400">
+                  Showing the {MAX_LISTED_ROWS} largest score changes of {listed.length}; export the diff for all rows.
+                </p>
+              )}
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
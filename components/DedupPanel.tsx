@@ -0,0 +1,72 @@
+import React from 'react';
+import { DedupOptions } from '../types';
+import { MIN_SIMILARITY } from '../utils/nearDuplicates';
+import { CopyMinus, History } from 'lucide-react';
+
+interface DedupPanelProps {
+  options: DedupOptions;
+  onChange: (options: DedupOptions) => void;
+  historySize: number; // Contents in the export history
+  historyError?: string | null;
+  onClearHistory: () => void;
+  disabled?: boolean;
+}
+
+export const DedupPanel: React.FC<DedupPanelProps> = ({ options, onChange, historySize, historyError, onClearHistory, disabled }) => {
+  const renderCheckbox = (key: 'nearDuplicates' | 'crossFile' | 'againstHistory', label: string) => (
+    <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer">
+      <input
+        type="checkbox"
+        checked={options[key]}
+        onChange={(e) => onChange({ ...options, [key]: e.target.checked })}
+        disabled={disabled}
+        className="w-4 h-4 text-blue-600 rounded border-slate-300 focus:ring-blue-500"
+      />
+      {label}
+    </label>
+  );
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 p-4 flex flex-wrap items-center gap-x-6 gap-y-3">
+      <span className="text-sm font-semibold text-slate-700 flex items-center gap-2">
+        <CopyMinus className="w-4 h-4" />
+        Deduplication
+      </span>
+      {renderCheckbox('crossFile', 'Across files in the batch')}
+      {renderCheckbox('againstHistory', 'Against export history')}
+      {renderCheckbox('nearDuplicates', 'Drop near-duplicates')}
+      <label className={`flex items-center gap-3 text-sm text-slate-600 ${options.nearDuplicates ? '' : 'opacity-50'}`}>
+        Similarity ≥
+        <input
+          type="range"
+          min={MIN_SIMILARITY}
+          max="0.99"
+          step="0.01"
+          value={options.similarity}
+          onChange={(e) => onChange({ ...options, similarity: parseFloat(e.target.value) })}
+          disabled={disabled || !options.nearDuplicates}
+          className="w-40 h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+        />
+        <span className="font-mono text-xs w-10">{Math.round(options.similarity * 100)}%</span>
+      </label>
+      <span className="flex items-center gap-2 text-xs text-slate-500 ml-auto">
+        <History className="w-3.5 h-3.5" />
+        {historySize.toLocaleString()} exported rows remembered
+        <button
+          onClick={() => {
+            if (confirm('Forget all previously exported content?')) onClearHistory();
+          }}
+          disabled={disabled || historySize === 0}
+          className="text-slate-500 hover:text-red-600 font-medium underline disabled:opacity-50 disabled:no-underline"
+        >
+          Clear
+        </button>
+      </span>
+      {historyError && <p className="text-xs text-red-600 bg-red-50 p-2 rounded-lg w-full">{historyError}</p>}
+      <p className="text-xs text-slate-400 w-full">
+        Exact duplicates within a file are always removed. Files already in the list count as the batch; downloaded files are added to the export history.
+        Near-duplicates (e.g. the same review with a changed word or emoji) keep only the first row of each cluster.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,72 @@
+import React from 'react';
+import { DuplicateCluster } from '../types';
+import { Layers, X } from 'lucide-react';
+
+interface DuplicateClustersModalProps {
+  fileName: string;
+  clusters: DuplicateCluster[];
+  onClose: () => void;
+}
+
+// Lists the kept representative and the dropped rows of each near-duplicate cluster, so the
+// similarity threshold can be spot-checked
+export const DuplicateClustersModal: React.FC<DuplicateClustersModalProps> = ({ fileName, clusters, onClose }) => {
+  let dropped = 0;
+  for (const cluster of clusters) dropped += cluster.size;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="flex justify-between items-center px-6 py-4 border-b border-slate-100">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+              <Layers className="w-5 h-5 text-blue-600" />
+              Near-Duplicate Clusters
+            </h3>
+            <p className="text-xs text-slate-500 mt-1">
+              <span className="font-medium text-slate-700">{fileName}</span>: {clusters.length} clusters, {dropped} rows dropped
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 rounded-full hover:bg-slate-100 text-slate-500 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto bg-slate-50 space-y-4">
+          {clusters.length === 0 && (
+            <p className="text-sm text-slate-500 text-center py-8">No near-duplicates were found.</p>
+          )}
+          {clusters.map((cluster, i) => (
+            <div key={i} className="bg-white rounded-xl border border-slate-200 overflow-hidden">
+              <div className="flex items-start justify-between gap-4 px-4 py-3 bg-green-50/50 border-b border-slate-100">
+                <div className="text-sm text-slate-800 break-all">
+                  <span className="text-xs font-bold text-green-700 mr-2">KEPT</span>
+                  {cluster.representative}
+                </div>
+                <span className="text-xs font-mono text-slate-500 whitespace-nowrap">{cluster.size} dropped</span>
+              </div>
+              <table className="w-full text-xs text-left">
+                <tbody className="divide-y divide-slate-100">
+                  {cluster.members.map((member, j) => (
+                    <tr key={j}>
+                      <td className="px-4 py-1.5 text-slate-600 break-all">{member.content}</td>
+                      <td className="px-4 py-1.5 text-right font-mono text-slate-400 w-16">{Math.round(member.similarity * 100)}%</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {cluster.size > cluster.members.length && (
+                <p className="px-4 py-1.5 text-xs text-slate-400 border-t border-slate-100">
+                  …and {cluster.size - cluster.members.length} more
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,36 @@
+import React from 'react';
+import { EncodingDetection, TextEncodingName } from '../types';
+import { ENCODING_OPTIONS, formatEncoding } from '../utils/encoding';
+
+interface EncodingSelectProps {
+  detection?: EncodingDetection;
+  onOverride: (encoding: TextEncodingName | undefined) => void;
+  disabled?: boolean;
+}
+
+// Shows the detected encoding and lets the user force a different one for a single file
+export const EncodingSelect: React.FC<EncodingSelectProps> = ({ detection, onOverride, disabled }) => {
+  const isManual = detection?.source === 'manual';
+  const isUncertain = detection?.source === 'detected' && detection.confidence < 0.6;
+
+  // Workbooks store text as Unicode XML, so there is nothing to override
+  if (detection?.source === 'workbook') {
+    return <span className="px-2 py-1 text-xs font-mono border border-slate-200 rounded-md bg-slate-50 text-slate-500">{formatEncoding(detection)}</span>;
+  }
+
+  return (
+    <select
+      value={isManual ? detection!.encoding : 'auto'}
+      onChange={(e) => onOverride(e.target.value === 'auto' ? undefined : e.target.value as TextEncodingName)}
+      disabled={disabled}
+      title={isUncertain ? 'Low detection confidence - check the preview and override if the text looks garbled' : 'Character encoding'}
+      className={`px-2 py-1 text-xs font-mono border rounded-md bg-white outline-none focus:ring-2 focus:ring-blue-500
+        ${isUncertain ? 'border-amber-300 text-amber-700' : 'border-slate-200 text-slate-600'}`}
+    >
+      <option value="auto">{detection && !isManual ? `Auto: ${formatEncoding(detection)}` : 'Auto-detect'}</option>
+      {ENCODING_OPTIONS.map(o => (
+        <option key={o.value} value={o.value}>{o.label}</option>
+      ))}
+    </select>
+  );
+};
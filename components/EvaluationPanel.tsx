@@ -0,0 +1,280 @@
+import React, { useMemo, useState } from 'react';
+import { RiskAnalysisRow, GroundTruthLabel, EncodingDetection, TextEncodingName, ColumnMapping } from '../types';
+import { EncodingSelect } from './EncodingSelect';
+import { processLabels } from '../utils/processor';
+import { parseWithColumnMapping, ColumnMappingRequiredError } from '../utils/columnMapping';
+import { parseWithSheetSelection, SheetSelectionRequiredError, INPUT_ACCEPT } from '../utils/workbook';
+import { ThresholdSet } from '../utils/thresholds';
+import {
+  joinLabels, evaluate, buildCurve, downsampleCurve, rocAuc, suggestThreshold,
+  precisionOf, recallOf, f1Of, Confusion
+} from '../utils/evaluation';
+import { Target, Upload, X } from 'lucide-react';
+
+interface EvaluationPanelProps {
+  data: RiskAnalysisRow[];
+  thresholds: ThresholdSet;
+  onThresholdChange: (threshold: number) => void;
+  requestMapping: (error: ColumnMappingRequiredError) => Promise<ColumnMapping | null>;
+  requestSheet: (error: SheetSelectionRequiredError) => Promise<string | null>;
+}
+
+type CurveMode = 'pr' | 'roc';
+
+const CHART_SIZE = 260;
+const CHART_PAD = 32;
+const CHART_PLOT = CHART_SIZE - CHART_PAD * 2;
+
+const formatRatio = (value: number | null) => (value === null ? '-' : `${(value * 100).toFixed(1)}%`);
+
+export const EvaluationPanel: React.FC<EvaluationPanelProps> = ({ data, thresholds, onThresholdChange, requestMapping, requestSheet }) => {
+  const [labels, setLabels] = useState<GroundTruthLabel[]>([]);
+  const [labelFile, setLabelFile] = useState<{ file: File; encoding: EncodingDetection; unsureRows: number } | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [loadProgress, setLoadProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [curveMode, setCurveMode] = useState<CurveMode>('pr');
+  const [targetPrecision, setTargetPrecision] = useState(0.9);
+
+  const handleLabelFileSelect = async (file: File, encodingOverride?: TextEncodingName) => {
+    setLoading(true);
+    setLoadProgress(0);
+    setError(null);
+    try {
+      const result = await parseWithSheetSelection(file, (sheet) => parseWithColumnMapping(
+        (columnMapping) => processLabels(file, {
+          encoding: encodingOverride,
+          columnMapping,
+          sheet,
+          onProgress: (loaded, total) => setLoadProgress(total > 0 ? loaded / total : 0)
+        }),
+        requestMapping
+      ), requestSheet);
+      if (result.labels.length === 0) {
+        setError("No usable labels found. Verdicts must be e.g. 1/0, yes/no, 违规/不违规.");
+        return;
+      }
+      setLabels(result.labels);
+      setLabelFile({ file, encoding: result.encoding, unsureRows: result.unsureRows });
+    } catch (err: any) {
+      console.error(err);
+      setError(`Label File Error: ${err.message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const clearLabels = () => {
+    setLabels([]);
+    setLabelFile(null);
+    setError(null);
+  };
+
+  const join = useMemo(() => joinLabels(data, labels), [data, labels]);
+  const evaluation = useMemo(() => evaluate(join.rows, thresholds), [join, thresholds]);
+  const curve = useMemo(() => buildCurve(join.rows), [join]);
+  const auc = useMemo(() => rocAuc(curve), [curve]);
+  const suggestion = useMemo(() => suggestThreshold(curve, targetPrecision), [curve, targetPrecision]);
+  const chartCurve = useMemo(() => downsampleCurve(curve), [curve]);
+
+  const renderMetric = (label: string, value: string) => (
+    <div className="bg-white border border-slate-200 rounded-lg px-4 py-3">
+      <div className="text-xs text-slate-500">{label}</div>
+      <div className="text-xl font-bold text-slate-800">{value}</div>
+    </div>
+  );
+
+  const renderConfusionCells = (c: Confusion) => (
+    <>
+      <td className="px-3 py-2 font-mono text-xs text-green-700">{c.tp}</td>
+      <td className="px-3 py-2 font-mono text-xs text-red-600">{c.fp}</td>
+      <td className="px-3 py-2 font-mono text-xs text-amber-600">{c.fn}</td>
+      <td className="px-3 py-2 font-mono text-xs text-slate-500">{c.tn}</td>
+      <td className="px-3 py-2 text-xs">{formatRatio(precisionOf(c))}</td>
+      <td className="px-3 py-2 text-xs">{formatRatio(recallOf(c))}</td>
+      <td className="px-3 py-2 text-xs">{formatRatio(f1Of(c))}</td>
+    </>
+  );
+
+  const renderCurve = () => {
+    const x = (v: number) => CHART_PAD + v * CHART_PLOT;
+    const y = (v: number) => CHART_PAD + (1 - v) * CHART_PLOT;
+    const coords = chartCurve.map(p => (curveMode === 'pr' ? [p.recall, p.precision] : [p.fpr, p.recall]));
+    const path = coords.map(([cx, cy], i) => `${i === 0 ? 'M' : 'L'}${x(cx).toFixed(1)},${y(cy).toFixed(1)}`).join(' ');
+    const marker = suggestion && (curveMode === 'pr' ? [suggestion.recall, suggestion.precision] : [suggestion.fpr, suggestion.recall]);
+
+    return (
+      <svg viewBox={`0 0 ${CHART_SIZE} ${CHART_SIZE}`} className="w-full max-w-xs bg-white border border-slate-200 rounded-lg">
+        <rect x={CHART_PAD} y={CHART_PAD} width={CHART_PLOT} height={CHART_PLOT} fill="none" stroke="#e2e8f0" />
+        {curveMode === 'roc' && (
+          <line x1={x(0)} y1={y(0)} x2={x(1)} y2={y(1)} stroke="#cbd5e1" strokeDasharray="4 3" />
+        )}
+        {curveMode === 'pr' && (
+          <line x1={x(0)} y1={y(targetPrecision)} x2={x(1)} y2={y(targetPrecision)} stroke="#f59e0b" strokeDasharray="4 3" />
+        )}
+        <path d={path} fill="none" stroke="#6366f1" strokeWidth={2} />
+        {marker && <circle cx={x(marker[0])} cy={y(marker[1])} r={4} fill="#dc2626" />}
+        <text x={CHART_SIZE / 2} y={CHART_SIZE - 8} textAnchor="middle" fontSize={10} fill="#64748b">
+          {curveMode === 'pr' ? 'Recall' : 'False positive rate'}
+        </text>
+        <text x={10} y={CHART_SIZE / 2} textAnchor="middle" fontSize={10} fill="#64748b" transform={`rotate(-90 10 ${CHART_SIZE / 2})`}>
+          {curveMode === 'pr' ? 'Precision' : 'Recall'}
+        </text>
+        <text x={CHART_PAD} y={CHART_SIZE - CHART_PAD + 12} textAnchor="middle" fontSize={9} fill="#94a3b8">0</text>
+        <text x={CHART_PAD + CHART_PLOT} y={CHART_SIZE - CHART_PAD + 12} textAnchor="middle" fontSize={9} fill="#94a3b8">1</text>
+        <text x={CHART_PAD - 4} y={CHART_PAD + 3} textAnchor="end" fontSize={9} fill="#94a3b8">1</text>
+      </svg>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <label className="text-sm font-semibold text-slate-700 flex items-center gap-2">
+          <Target className="w-4 h-4" />
+          Ground Truth Evaluation
+        </label>
+        {labelFile ? (
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-slate-500 truncate max-w-xs" title={labelFile.file.name}>{labelFile.file.name}</span>
+            <EncodingSelect
+              detection={labelFile.encoding}
+              onOverride={(encoding) => handleLabelFileSelect(labelFile.file, encoding)}
+              disabled={loading}
+            />
+            <button onClick={clearLabels} className="p-1 text-slate-400 hover:text-slate-700 rounded transition-colors" title="Remove labels">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        ) : (
+          <label className="flex items-center gap-1 text-xs text-indigo-600 hover:text-indigo-800 font-medium cursor-pointer transition-colors">
+            <Upload className="w-3 h-3" />
+            {loading ? `Loading... ${Math.round(loadProgress * 100)}%` : 'Upload Labeled CSV'}
+            <input
+              type="file"
+              accept={INPUT_ACCEPT}
+              className="hidden"
+              disabled={loading}
+              onChange={(e) => {
+                if (e.target.files?.[0]) handleLabelFileSelect(e.target.files[0]);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        )}
+      </div>
+
+      {error && <p className="text-xs text-red-600 bg-red-50 p-2 rounded-lg">{error}</p>}
+
+      {!labelFile ? (
+        <p className="text-xs text-slate-400">
+          Upload a file with a human verdict column (plus content or NID, and optionally the true category) to measure precision and recall at the current thresholds.
+        </p>
+      ) : (
+        <>
+          <p className="text-xs text-slate-500">
+            {labels.length} labels, <span className="font-semibold text-slate-700">{join.rows.length}</span> joined to loaded rows
+            {join.unmatchedLabels > 0 && <>, {join.unmatchedLabels} not found</>}
+            {labelFile.unsureRows > 0 && <>, {labelFile.unsureRows} unsure verdicts skipped</>}
+          </p>
+
+          {join.rows.length > 0 && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {renderMetric('Precision', formatRatio(precisionOf(evaluation.overall)))}
+                {renderMetric('Recall', formatRatio(recallOf(evaluation.overall)))}
+                {renderMetric('F1', formatRatio(f1Of(evaluation.overall)))}
+                {renderMetric('ROC AUC', auc.toFixed(3))}
+              </div>
+
+              <div className="flex flex-col xl:flex-row gap-6">
+                <div className="flex-1 bg-white border border-slate-200 rounded-lg overflow-hidden max-h-72 overflow-y-auto">
+                  <table className="w-full text-sm text-left">
+                    <thead className="text-xs text-slate-500 uppercase bg-slate-50 border-b border-slate-200 sticky top-0">
+                      <tr>
+                        <th className="px-3 py-2 font-medium">Risk Type</th>
+                        <th className="px-3 py-2 font-medium" title="Flagged, labeled violation">TP</th>
+                        <th className="px-3 py-2 font-medium" title="Flagged, labeled clean">FP</th>
+                        <th className="px-3 py-2 font-medium" title="Not flagged, labeled violation">FN</th>
+                        <th className="px-3 py-2 font-medium" title="Not flagged, labeled clean">TN</th>
+                        <th className="px-3 py-2 font-medium">Precision</th>
+                        <th className="px-3 py-2 font-medium">Recall</th>
+                        <th className="px-3 py-2 font-medium">F1</th>
+                        <th className="px-3 py-2 font-medium" title="Share of true positives whose labeled category matches the risk type">Category</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                      {evaluation.byType.map(entry => (
+                        <tr key={entry.riskType} className="hover:bg-slate-50">
+                          <td className="px-3 py-2 text-slate-700">{entry.riskType}</td>
+                          {renderConfusionCells(entry)}
+                          <td className="px-3 py-2 text-xs">
+                            {entry.categoryLabeled > 0 ? formatRatio(entry.categoryCorrect / entry.categoryLabeled) : '-'}
+                          </td>
+                        </tr>
+                      ))}
+                      <tr className="bg-slate-50 font-semibold">
+                        <td className="px-3 py-2 text-slate-700">All</td>
+                        {renderConfusionCells(evaluation.overall)}
+                        <td className="px-3 py-2" />
+                      </tr>
+                    </tbody>
+                  </table>
+                </div>
+
+                <div className="flex-none space-y-3">
+                  <div className="flex gap-1">
+                    {(['pr', 'roc'] as CurveMode[]).map(mode => (
+                      <button
+                        key={mode}
+                        onClick={() => setCurveMode(mode)}
+                        className={`px-2.5 py-1 rounded-full text-xs font-medium border transition-colors
+                          ${curveMode === mode ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-600 border-slate-200 hover:border-slate-300'}`}
+                      >
+                        {mode === 'pr' ? 'Precision / Recall' : 'ROC'}
+                      </button>
+                    ))}
+                  </div>
+                  {renderCurve()}
+                </div>
+              </div>
+
+              {/* Threshold suggestion */}
+              <div className="flex flex-wrap items-center gap-3 text-sm">
+                <span className="text-slate-600">Target precision</span>
+                <input
+                  type="number"
+                  min="0"
+                  max="1"
+                  step="0.01"
+                  value={targetPrecision}
+                  onChange={(e) => setTargetPrecision(Math.min(1, Math.max(0, parseFloat(e.target.value) || 0)))}
+                  className="w-20 px-3 py-1.5 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
+                />
+                {suggestion ? (
+                  <>
+                    <span className="text-slate-600">
+                      → threshold <span className="font-mono font-bold text-indigo-600">{suggestion.threshold}</span>
+                      {' '}(precision {formatRatio(suggestion.precision)}, recall {formatRatio(suggestion.recall)})
+                    </span>
+                    <button
+                      onClick={() => onThresholdChange(suggestion.threshold)}
+                      className="px-3 py-1.5 text-xs font-medium text-white bg-slate-900 hover:bg-slate-800 rounded-lg transition-colors"
+                    >
+                      Use as default threshold
+                    </button>
+                  </>
+                ) : (
+                  <span className="text-xs text-amber-600">No threshold reaches this precision.</span>
+                )}
+              </div>
+              <p className="text-xs text-slate-400">
+                The table uses the current per-type cutoffs; the curve and suggestion sweep a single threshold over all types.
+              </p>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
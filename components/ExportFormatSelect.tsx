@@ -0,0 +1,26 @@
+import React from 'react';
+import { ExportFormat } from '../types';
+import { EXPORTERS, EXPORT_FORMATS } from '../utils/exporters';
+
+interface ExportFormatSelectProps {
+  value: ExportFormat;
+  onChange: (format: ExportFormat) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export const ExportFormatSelect: React.FC<ExportFormatSelectProps> = ({ value, onChange, disabled, className }) => {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as ExportFormat)}
+      disabled={disabled}
+      title="Download format"
+      className={`px-2 py-1.5 text-sm border border-slate-300 rounded-lg bg-white text-slate-700 focus:ring-2 focus:ring-blue-500 outline-none ${className || ''}`}
+    >
+      {EXPORT_FORMATS.map(format => (
+        <option key={format} value={format}>{EXPORTERS[format].label}</option>
+      ))}
+    </select>
+  );
+};
@@ -1,12 +1,16 @@
 import React, { useRef, useState } from 'react';
-import { Upload, FileType, AlertCircle } from 'lucide-react';
+import { Upload, FileType, AlertCircle, X } from 'lucide-react';
+import { FileProgress } from '../types';
+import { isWorkbookFile, isLegacyWorkbookFile, legacyWorkbookMessage, INPUT_ACCEPT } from '../utils/workbook';
 
 interface FileUploaderProps {
   onFileSelect: (files: File[]) => void;
   isLoading: boolean;
+  progress?: FileProgress[]; // Per-file read progress while loading
+  onCancel?: () => void;
 }
 
-export const FileUploader: React.FC<FileUploaderProps> = ({ onFileSelect, isLoading }) => {
+export const FileUploader: React.FC<FileUploaderProps> = ({ onFileSelect, isLoading, progress, onCancel }) => {
   const [isDragging, setIsDragging] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -27,16 +31,18 @@ export const FileUploader: React.FC<FileUploaderProps> = ({ onFileSelect, isLoad
       const validFiles: File[] = [];
       // Cast to File[] to handle potential 'unknown' inference
       const files = Array.from(e.dataTransfer.files) as File[];
+      const legacyFiles = files.filter(file => isLegacyWorkbookFile(file.name));
+      if (legacyFiles.length > 0) alert(legacyFiles.map(file => legacyWorkbookMessage(file.name)).join('\n'));
       files.forEach(file => {
-          if (file.name.endsWith('.csv') || file.name.endsWith('.txt') || file.type === "text/csv" || file.type === "text/plain") {
+          if (file.name.endsWith('.csv') || file.name.endsWith('.txt') || isWorkbookFile(file.name) || file.type === "text/csv" || file.type === "text/plain") {
               validFiles.push(file);
           }
       });
       
       if (validFiles.length > 0) {
         onFileSelect(validFiles);
-      } else {
-        alert("Please upload CSV or TXT files.");
+      } else if (legacyFiles.length === 0) {
+        alert("Please upload CSV, TXT or Excel (.xlsx) files.");
       }
     }
   };
@@ -55,7 +61,8 @@ export const FileUploader: React.FC<FileUploaderProps> = ({ onFileSelect, isLoad
       onDrop={handleDrop}
       className={`
         relative border-2 border-dashed rounded-xl p-10 text-center cursor-pointer transition-all duration-300
-        ${isLoading ? 'opacity-50 cursor-not-allowed' : ''}
+        ${isLoading ? 'cursor-not-allowed' : ''}
+        ${isLoading && !progress?.length ? 'opacity-50' : ''}
         ${isDragging 
           ? 'border-blue-500 bg-blue-50' 
           : 'border-slate-300 hover:border-slate-400 hover:bg-slate-50'
@@ -66,7 +73,7 @@ export const FileUploader: React.FC<FileUploaderProps> = ({ onFileSelect, isLoad
         type="file" 
         ref={fileInputRef} 
         onChange={handleInputChange}
-        accept=".csv,.txt"
+        accept={INPUT_ACCEPT}
         className="hidden" 
         multiple
         disabled={isLoading}
@@ -81,9 +88,36 @@ export const FileUploader: React.FC<FileUploaderProps> = ({ onFileSelect, isLoad
             {isLoading ? 'Processing...' : 'Click or drag files here'}
           </p>
           <p className="text-sm text-slate-500">
-            Supports multiple CSV/TXT files (GBK auto-detect)
+            Supports multiple CSV/TXT files (encoding auto-detect) and Excel workbooks (.xlsx, .xlsm)
           </p>
         </div>
+
+        {isLoading && progress && progress.length > 0 && (
+          <div className="w-full max-w-md space-y-2 text-left cursor-default" onClick={(e) => e.stopPropagation()}>
+            {progress.map(p => {
+              const percent = p.total > 0 ? Math.round((p.loaded / p.total) * 100) : 0;
+              return (
+                <div key={p.id}>
+                  <div className="flex justify-between text-xs text-slate-500 mb-1">
+                    <span className="truncate pr-2">{p.name}</span>
+                    <span className="font-mono">{percent}%</span>
+                  </div>
+                  <div className="h-1.5 bg-slate-200 rounded-full overflow-hidden">
+                    <div className="h-full bg-blue-500 transition-all" style={{ width: `${percent}%` }} />
+                  </div>
+                </div>
+              );
+            })}
+            {onCancel && (
+              <button
+                onClick={onCancel}
+                className="flex items-center gap-1 mx-auto text-xs text-slate-500 hover:text-red-600 font-medium transition-colors"
+              >
+                <X className="w-3 h-3" /> Cancel
+              </button>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
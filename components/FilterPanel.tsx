@@ -0,0 +1,159 @@
+import React from 'react';
+import { FilterModel, NidMatchFilter, DEFAULT_FILTER } from '../utils/filters';
+import { SlidersHorizontal, Link, RotateCcw } from 'lucide-react';
+
+interface FilterPanelProps {
+  filter: FilterModel;
+  onChange: (filter: FilterModel) => void;
+  riskTypeCounts: [string, number][];
+  sourceFiles: string[];
+  hasSourceData: boolean;
+  error: string | null;
+}
+
+const NID_OPTIONS: { value: NidMatchFilter; label: string }[] = [
+  { value: 'any', label: 'Any' },
+  { value: 'matched', label: 'Matched' },
+  { value: 'unmatched', label: 'Unmatched' },
+  { value: 'fuzzy', label: 'Fuzzy' },
+  { value: 'ambiguous', label: 'Ambiguous' },
+];
+
+const toggle = (values: string[], value: string) => {
+  return values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+};
+
+export const FilterPanel: React.FC<FilterPanelProps> = ({ filter, onChange, riskTypeCounts, sourceFiles, hasSourceData, error }) => {
+  const update = (patch: Partial<FilterModel>) => onChange({ ...filter, ...patch });
+
+  const handleCopyLink = () => {
+    navigator.clipboard.writeText(window.location.href);
+    alert("Filter link copied to clipboard!");
+  };
+
+  const chipClass = (active: boolean) => `px-2.5 py-1 rounded-full text-xs font-medium border transition-colors
+    ${active ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-600 border-slate-200 hover:border-slate-300'}`;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <label className="text-sm font-semibold text-slate-700 flex items-center gap-2">
+          <SlidersHorizontal className="w-4 h-4" />
+          Filters
+        </label>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => onChange({ ...DEFAULT_FILTER, thresholds: filter.thresholds })}
+            className="flex items-center gap-1 text-xs text-slate-500 hover:text-slate-800 font-medium transition-colors"
+          >
+            <RotateCcw className="w-3 h-3" /> Reset
+          </button>
+          <button
+            onClick={handleCopyLink}
+            className="flex items-center gap-1 text-xs text-indigo-600 hover:text-indigo-800 font-medium transition-colors"
+          >
+            <Link className="w-3 h-3" /> Copy Link
+          </button>
+        </div>
+      </div>
+
+      {/* Risk types */}
+      <div>
+        <span className="block text-xs font-medium text-slate-500 mb-2">Risk Type</span>
+        <div className="flex flex-wrap gap-2">
+          {riskTypeCounts.map(([type, count]) => (
+            <button
+              key={type}
+              onClick={() => update({ riskTypes: toggle(filter.riskTypes, type) })}
+              className={chipClass(filter.riskTypes.includes(type))}
+            >
+              {type} <span className="opacity-60">({count})</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {/* Score max */}
+        <div>
+          <span className="block text-xs font-medium text-slate-500 mb-1">Max Score</span>
+          <input
+            type="number"
+            value={filter.maxScore ?? ''}
+            placeholder="No limit"
+            step="0.00001"
+            onChange={(e) => update({ maxScore: e.target.value === '' ? null : parseFloat(e.target.value) })}
+            className="w-full px-3 py-1.5 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
+          />
+        </div>
+
+        {/* NID match */}
+        <div>
+          <span className="block text-xs font-medium text-slate-500 mb-1">NID</span>
+          <div className="flex gap-1">
+            {NID_OPTIONS.map(o => (
+              <button
+                key={o.value}
+                onClick={() => update({ nidMatch: o.value })}
+                disabled={!hasSourceData && o.value !== 'any'}
+                className={`${chipClass(filter.nidMatch === o.value)} disabled:opacity-40`}
+              >
+                {o.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Source files */}
+        <div>
+          <span className="block text-xs font-medium text-slate-500 mb-1">Source File</span>
+          <div className="flex flex-wrap gap-1">
+            {sourceFiles.map(name => (
+              <button
+                key={name}
+                onClick={() => update({ sourceFiles: toggle(filter.sourceFiles, name) })}
+                className={chipClass(filter.sourceFiles.includes(name))}
+              >
+                {name}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Content include / exclude */}
+      <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-4 items-end">
+        <div>
+          <span className="block text-xs font-medium text-slate-500 mb-1">Content includes</span>
+          <input
+            type="text"
+            value={filter.include}
+            placeholder={filter.useRegex ? 'Regular expression' : 'Keywords, comma-separated'}
+            onChange={(e) => update({ include: e.target.value })}
+            className="w-full px-3 py-1.5 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
+          />
+        </div>
+        <div>
+          <span className="block text-xs font-medium text-slate-500 mb-1">Content excludes</span>
+          <input
+            type="text"
+            value={filter.exclude}
+            placeholder={filter.useRegex ? 'Regular expression' : 'Keywords, comma-separated'}
+            onChange={(e) => update({ exclude: e.target.value })}
+            className="w-full px-3 py-1.5 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
+          />
+        </div>
+        <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer pb-1.5">
+          <input
+            type="checkbox"
+            checked={filter.useRegex}
+            onChange={(e) => update({ useRegex: e.target.checked })}
+            className="w-4 h-4 text-indigo-600 rounded border-slate-300 focus:ring-indigo-500"
+          />
+          Regex
+        </label>
+      </div>
+      {error && <p className="text-xs text-red-600 bg-red-50 p-2 rounded-lg">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,180 @@
+import React, { useMemo, useState } from 'react';
+import { NormalizationPipeline, EmojiHandling } from '../types';
+import {
+  DEFAULT_NORMALIZATION, loadNormalization, saveNormalization, validateNormalization, compileNormalizer
+} from '../utils/normalization';
+import { Wand2, ChevronDown, ChevronRight, RotateCcw } from 'lucide-react';
+
+interface NormalizationPanelProps {
+  disabled?: boolean;
+}
+
+const DEFAULT_SAMPLES = [
+  '用户评价文本：这个商品质量很好！',
+  'Ｆｕｌｌ－ｗｉｄｔｈ\u3000ｔｅｘｔ and &quot;HTML&quot; &amp; entities',
+  '带零宽\u200b字符\u200d的评论 👍🏻',
+].join('\n');
+
+const EMOJI_OPTIONS: { value: EmojiHandling; label: string }[] = [
+  { value: 'keep', label: 'Keep' },
+  { value: 'remove', label: 'Remove' },
+  { value: 'placeholder', label: 'Replace with [emoji]' },
+];
+
+// Show invisible characters in the preview so their removal can be checked
+const reveal = (text: string) => text.replace(/[\u200b-\u200f\u2060\ufeff]/g, '⟨ZW⟩').replace(/\u3000/g, '⟨\u3000⟩');
+
+// The rules apply to every parser (Batch Processor and Risk Analyzer), so they live in one place
+// and are read by each parse job; only valid rule sets are saved.
+export const NormalizationPanel: React.FC<NormalizationPanelProps> = ({ disabled }) => {
+  const [pipeline, setPipeline] = useState<NormalizationPipeline>(() => loadNormalization());
+  const [expanded, setExpanded] = useState(false);
+  const [samples, setSamples] = useState(DEFAULT_SAMPLES);
+
+  const error = validateNormalization(pipeline);
+
+  const update = (patch: Partial<NormalizationPipeline>) => {
+    const next = { ...pipeline, ...patch };
+    setPipeline(next);
+    if (!validateNormalization(next)) saveNormalization(next);
+  };
+
+  const preview = useMemo(() => {
+    if (error) return [];
+    const normalize = compileNormalizer(pipeline);
+    return samples.split('\n').filter(Boolean).map(sample => ({ before: sample, after: normalize(sample) }));
+  }, [pipeline, samples, error]);
+
+  const renderCheckbox = (key: 'unescapeHtml' | 'nfkc' | 'removeZeroWidth', label: string) => (
+    <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer">
+      <input
+        type="checkbox"
+        checked={pipeline[key]}
+        onChange={(e) => update({ [key]: e.target.checked })}
+        disabled={disabled}
+        className="w-4 h-4 text-blue-600 rounded border-slate-300 focus:ring-blue-500"
+      />
+      {label}
+    </label>
+  );
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 p-4 space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="text-sm font-semibold text-slate-700 flex items-center gap-2"
+        >
+          {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+          <Wand2 className="w-4 h-4" />
+          Text Normalization
+        </button>
+        {expanded && (
+          <button
+            onClick={() => update(DEFAULT_NORMALIZATION)}
+            disabled={disabled}
+            className="flex items-center gap-1 text-xs text-slate-500 hover:text-slate-800 font-medium transition-colors disabled:opacity-50"
+          >
+            <RotateCcw className="w-3 h-3" /> Reset
+          </button>
+        )}
+      </div>
+
+      {expanded && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">Strip prefixes (regex, one per line)</label>
+              <textarea
+                value={pipeline.stripPrefixes.join('\n')}
+                onChange={(e) => update({ stripPrefixes: e.target.value.split('\n') })}
+                disabled={disabled}
+                rows={3}
+                className="w-full px-3 py-1.5 text-sm font-mono border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">Strip suffixes (regex, one per line)</label>
+              <textarea
+                value={pipeline.stripSuffixes.join('\n')}
+                onChange={(e) => update({ stripSuffixes: e.target.value.split('\n') })}
+                disabled={disabled}
+                rows={3}
+                className="w-full px-3 py-1.5 text-sm font-mono border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-x-6 gap-y-3">
+            {renderCheckbox('unescapeHtml', 'Unescape HTML entities')}
+            {renderCheckbox('nfkc', 'Unicode NFKC (full-width → half-width)')}
+            {renderCheckbox('removeZeroWidth', 'Remove zero-width characters')}
+            <label className="flex items-center gap-2 text-sm text-slate-600">
+              Emoji
+              <select
+                value={pipeline.emoji}
+                onChange={(e) => update({ emoji: e.target.value as EmojiHandling })}
+                disabled={disabled}
+                className="px-2 py-1 text-sm border border-slate-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 outline-none"
+              >
+                {EMOJI_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 text-sm text-slate-600">
+              Max length
+              <input
+                type="number"
+                min="1"
+                value={pipeline.maxLength ?? ''}
+                placeholder="None"
+                onChange={(e) => update({ maxLength: e.target.value === '' ? null : Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                disabled={disabled}
+                className="w-24 px-2 py-1 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+            </label>
+          </div>
+
+          {error && <p className="text-xs text-red-600 bg-red-50 p-2 rounded-lg">{error} (changes are not saved until fixed)</p>}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">Sample rows (one per line)</label>
+              <textarea
+                value={samples}
+                onChange={(e) => setSamples(e.target.value)}
+                rows={4}
+                className="w-full px-3 py-1.5 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+            </div>
+            <div>
+              <span className="block text-xs font-medium text-slate-500 mb-1">Preview</span>
+              <div className="border border-slate-200 rounded-lg overflow-hidden">
+                <table className="w-full text-xs text-left">
+                  <thead className="text-slate-500 bg-slate-50 border-b border-slate-200">
+                    <tr>
+                      <th className="px-3 py-1.5 font-medium">Before</th>
+                      <th className="px-3 py-1.5 font-medium">After</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {preview.map((row, i) => (
+                      <tr key={i}>
+                        <td className="px-3 py-1.5 text-slate-500 break-all">{reveal(row.before)}</td>
+                        <td className={`px-3 py-1.5 break-all ${row.after !== row.before ? 'text-blue-700 font-medium' : 'text-slate-700'}`}>
+                          {reveal(row.after) || <span className="text-slate-300">(empty)</span>}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </div>
+          <p className="text-xs text-slate-400">
+            Used by the Batch Processor, the Risk Analyzer and source mapping files so content matches across them. Applies to files loaded after a change.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
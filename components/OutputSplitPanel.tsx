@@ -0,0 +1,50 @@
+import React from 'react';
+import { OutputSplitOptions } from '../types';
+import { Scissors } from 'lucide-react';
+
+interface OutputSplitPanelProps {
+  options: OutputSplitOptions;
+  onChange: (options: OutputSplitOptions) => void;
+}
+
+const BYTES_PER_MB = 1024 * 1024;
+
+export const OutputSplitPanel: React.FC<OutputSplitPanelProps> = ({ options, onChange }) => {
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 p-4 flex flex-wrap items-center gap-x-6 gap-y-3">
+      <span className="text-sm font-semibold text-slate-700 flex items-center gap-2">
+        <Scissors className="w-4 h-4" />
+        Output Splitting
+      </span>
+      <label className="flex items-center gap-2 text-sm text-slate-600">
+        Max rows per file
+        <input
+          type="number"
+          min="1"
+          value={options.maxRows ?? ''}
+          placeholder="No limit"
+          onChange={(e) => onChange({ ...options, maxRows: e.target.value === '' ? null : Math.max(1, parseInt(e.target.value, 10) || 1) })}
+          className="w-28 px-2 py-1 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+        />
+      </label>
+      <label className="flex items-center gap-2 text-sm text-slate-600">
+        Max size (MB)
+        <input
+          type="number"
+          min="0.1"
+          step="0.1"
+          value={options.maxBytes !== null ? +(options.maxBytes / BYTES_PER_MB).toFixed(2) : ''}
+          placeholder="No limit"
+          onChange={(e) => {
+            const mb = parseFloat(e.target.value);
+            onChange({ ...options, maxBytes: e.target.value === '' || !(mb > 0) ? null : Math.round(mb * BYTES_PER_MB) });
+          }}
+          className="w-24 px-2 py-1 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+        />
+      </label>
+      <p className="text-xs text-slate-400 w-full">
+        Larger results are split into numbered parts, each starting with the header line. ZIP downloads include a manifest.json with the row count and SHA-256 checksum of every part.
+      </p>
+    </div>
+  );
+};
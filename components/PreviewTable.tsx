@@ -1,11 +1,13 @@
 import React from 'react';
-import { ProcessedRow } from '../types';
+import { ProcessedRow, StrategyConfig } from '../types';
 
 interface PreviewTableProps {
   data: ProcessedRow[];
+  config?: StrategyConfig;
 }
 
-export const PreviewTable: React.FC<PreviewTableProps> = ({ data }) => {
+export const PreviewTable: React.FC<PreviewTableProps> = ({ data, config }) => {
+  const extraHeaders = config?.extraColumns.map(c => c.header) || [];
   const previewRows = data.slice(0, 10); // Show top 10
 
   return (
@@ -22,6 +24,9 @@ export const PreviewTable: React.FC<PreviewTableProps> = ({ data }) => {
             <tr>
               <th className="px-6 py-3 w-48 font-medium">strategy</th>
               <th className="px-6 py-3 font-medium">content</th>
+              {extraHeaders.map((header, i) => (
+                <th key={i} className="px-6 py-3 font-medium">{header}</th>
+              ))}
             </tr>
           </thead>
           <tbody>
@@ -33,6 +38,11 @@ export const PreviewTable: React.FC<PreviewTableProps> = ({ data }) => {
                 <td className="px-6 py-4 text-slate-700 max-w-xl truncate">
                   {row.content}
                 </td>
+                {extraHeaders.map((_, i) => (
+                  <td key={i} className="px-6 py-4 font-mono text-xs text-slate-600 whitespace-nowrap">
+                    {row.extra?.[i] || ''}
+                  </td>
+                ))}
               </tr>
             ))}
           </tbody>
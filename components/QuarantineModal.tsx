@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { ProcessedFileResult } from '../types';
+import { downloadQuarantine } from '../utils/processor';
+import { ShieldAlert, Download, X } from 'lucide-react';
+
+interface QuarantineModalProps {
+  file: ProcessedFileResult;
+  onClose: () => void;
+}
+
+// Rendering every row of a large quarantine would freeze the page; the download has them all
+const MAX_SHOWN_ROWS = 500;
+
+export const QuarantineModal: React.FC<QuarantineModalProps> = ({ file, onClose }) => {
+  const rows = file.quarantine || [];
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDownload = async () => {
+    setError(null);
+    try {
+      await downloadQuarantine(file);
+    } catch (err: any) {
+      console.error('Quarantine download failed:', err);
+      setError(`Download failed: ${err?.message || 'Unknown error'}`);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="flex justify-between items-center px-6 py-4 border-b border-slate-100">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+              <ShieldAlert className="w-5 h-5 text-amber-500" />
+              Quarantined Rows
+            </h3>
+            <p className="text-xs text-slate-500 mt-1">
+              <span className="font-medium text-slate-700">{file.originalName}</span>: {rows.length} rows failed validation and were left out of the output
+            </p>
+            {error && <p className="text-xs text-red-600 bg-red-50 p-2 rounded-lg mt-2">{error}</p>}
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleDownload}
+              disabled={rows.length === 0}
+              className="flex items-center gap-2 px-3 py-1.5 rounded-lg border border-slate-200 text-slate-600 hover:bg-slate-50 text-sm font-medium transition-colors disabled:opacity-50"
+            >
+              <Download className="w-4 h-4" /> CSV
+            </button>
+            <button
+              onClick={onClose}
+              className="p-1 rounded-full hover:bg-slate-100 text-slate-500 transition-colors"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-y-auto">
+          <table className="w-full text-xs text-left">
+            <thead className="text-slate-500 bg-slate-50 border-b border-slate-200 sticky top-0">
+              <tr>
+                <th className="px-4 py-2 font-medium w-16">Row</th>
+                <th className="px-4 py-2 font-medium">Content</th>
+                <th className="px-4 py-2 font-medium">Failed rule</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {rows.slice(0, MAX_SHOWN_ROWS).map(row => (
+                <tr key={row.row}>
+                  <td className="px-4 py-1.5 font-mono text-slate-400">{row.row}</td>
+                  <td className="px-4 py-1.5 text-slate-700 break-all">{row.content}</td>
+                  <td className="px-4 py-1.5 text-amber-700">{row.reason}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {rows.length > MAX_SHOWN_ROWS && (
+            <p className="px-4 py-2 text-xs text-slate-400 border-t border-slate-100">
+              Showing the first {MAX_SHOWN_ROWS} rows; download the CSV for all {rows.length}.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
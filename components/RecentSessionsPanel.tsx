@@ -0,0 +1,208 @@
+import React, { useEffect, useState } from 'react';
+import {
+  SessionRecord, StorageUsage, MAX_SESSIONS, MAX_SESSION_AGE_DAYS,
+  listSessions, getStorageUsage, renameSession, deleteSession, pruneSessions
+} from '../utils/recentSessions';
+import { History, ChevronDown, ChevronRight, Pencil, Trash2, Play, Check, X, HardDrive } from 'lucide-react';
+
+interface RecentSessionsPanelProps {
+  currentId: string;
+  refreshKey: number; // Changes after every autosave
+  autosaveError?: string | null; // Why the last autosave failed
+  onResume: (id: string) => Promise<void>;
+  disabled?: boolean;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+};
+
+const formatTime = (time: number) => new Date(time).toLocaleString();
+
+export const RecentSessionsPanel: React.FC<RecentSessionsPanelProps> = ({ currentId, refreshKey, autosaveError, onResume, disabled }) => {
+  const [sessions, setSessions] = useState<SessionRecord[]>([]);
+  const [storage, setStorage] = useState<StorageUsage | null>(null);
+  const [expanded, setExpanded] = useState(false);
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+  const [resumingId, setResumingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    setSessions(await listSessions());
+    setStorage(await getStorageUsage());
+  };
+
+  useEffect(() => {
+    refresh();
+  }, [refreshKey]);
+
+  // Age and quota limits also apply when nothing new is saved
+  useEffect(() => {
+    pruneSessions(currentId)
+      .then(count => count > 0 && refresh())
+      .catch((err: any) => {
+        console.error(err);
+        setError(err?.message || 'Old sessions could not be removed.');
+      });
+  }, []);
+
+  // Open on start when there is earlier work to resume
+  useEffect(() => {
+    listSessions().then(records => {
+      if (records.some(s => s.id !== currentId)) setExpanded(true);
+    });
+  }, []);
+
+  const handleResume = async (id: string) => {
+    setResumingId(id);
+    setError(null);
+    try {
+      await onResume(id);
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Session could not be restored.');
+    } finally {
+      setResumingId(null);
+    }
+  };
+
+  const commitRename = async () => {
+    if (!editing) return;
+    const name = editing.name.trim();
+    setError(null);
+    try {
+      if (name) await renameSession(editing.id, name);
+      setEditing(null);
+      await refresh();
+    } catch (err: any) {
+      console.error(err);
+      setError(err?.message || 'Session could not be renamed.');
+    }
+  };
+
+  const handleDelete = async (session: SessionRecord) => {
+    if (!confirm(`Delete the session "${session.name}"?`)) return;
+    setError(null);
+    try {
+      await deleteSession(session.id);
+      await refresh();
+    } catch (err: any) {
+      console.error(err);
+      setError(err?.message || 'Session could not be deleted.');
+    }
+  };
+
+  const usedShare = storage ? storage.usage / storage.quota : 0;
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 p-4 space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="text-sm font-semibold text-slate-700 flex items-center gap-2"
+        >
+          {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+          <History className="w-4 h-4" />
+          Recent Sessions
+          <span className="text-xs font-normal text-slate-400">({sessions.length})</span>
+        </button>
+        {storage && (
+          <span
+            className={`flex items-center gap-1 text-xs ${usedShare > 0.8 ? 'text-amber-600' : 'text-slate-400'}`}
+            title="Storage used by this site in the browser"
+          >
+            <HardDrive className="w-3 h-3" />
+            {formatBytes(storage.usage)} of {formatBytes(storage.quota)} ({(usedShare * 100).toFixed(1)}%)
+          </span>
+        )}
+      </div>
+
+      {autosaveError && <p className="text-xs text-red-600 bg-red-50 p-2 rounded-lg">{autosaveError}</p>}
+      {error && <p className="text-xs text-red-600 bg-red-50 p-2 rounded-lg">{error}</p>}
+
+      {expanded && (
+        <>
+          {sessions.length === 0 ? (
+            <p className="text-xs text-slate-400">No sessions yet. Work is saved here automatically once files are loaded.</p>
+          ) : (
+            <ul className="divide-y divide-slate-100 border border-slate-200 rounded-lg">
+              {sessions.map(session => {
+                const isCurrent = session.id === currentId;
+                return (
+                  <li key={session.id} className="flex flex-wrap items-center gap-3 px-3 py-2">
+                    <div className="flex-1 min-w-0">
+                      {editing?.id === session.id ? (
+                        <div className="flex items-center gap-1">
+                          <input
+                            autoFocus
+                            value={editing.name}
+                            onChange={(e) => setEditing({ id: session.id, name: e.target.value })}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') commitRename();
+                              if (e.key === 'Escape') setEditing(null);
+                            }}
+                            className="flex-1 px-2 py-1 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                          />
+                          <button onClick={commitRename} className="p-1 text-slate-400 hover:text-green-600 rounded transition-colors" title="Save name">
+                            <Check className="w-4 h-4" />
+                          </button>
+                          <button onClick={() => setEditing(null)} className="p-1 text-slate-400 hover:text-slate-700 rounded transition-colors" title="Cancel">
+                            <X className="w-4 h-4" />
+                          </button>
+                        </div>
+                      ) : (
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm font-medium text-slate-700 truncate" title={session.fileNames.join('\n')}>{session.name}</span>
+                          {isCurrent && <span className="text-xs text-green-600 bg-green-50 px-1.5 py-0.5 rounded font-medium border border-green-200">Current</span>}
+                        </div>
+                      )}
+                      <div className="text-xs text-slate-400">
+                        {formatTime(session.updatedAt)}
+                        {' · '}{session.processedFiles} processed files, {session.analyzerRows} scored rows
+                        {session.reviewedRows > 0 && <>, {session.reviewedRows} reviewed</>}
+                        {' · '}~{formatBytes(session.size)}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1 flex-none">
+                      {!isCurrent && (
+                        <button
+                          onClick={() => handleResume(session.id)}
+                          disabled={disabled || !!resumingId}
+                          className="flex items-center gap-1 px-2.5 py-1 text-xs font-medium text-white bg-slate-900 hover:bg-slate-800 rounded-lg transition-colors disabled:opacity-50"
+                        >
+                          <Play className="w-3 h-3" /> {resumingId === session.id ? 'Restoring...' : 'Resume'}
+                        </button>
+                      )}
+                      <button
+                        onClick={() => setEditing({ id: session.id, name: session.name })}
+                        className="p-1 text-slate-400 hover:text-slate-700 rounded transition-colors"
+                        title="Rename"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      {!isCurrent && (
+                        <button
+                          onClick={() => handleDelete(session)}
+                          className="p-1 text-slate-400 hover:text-red-600 rounded transition-colors"
+                          title="Delete"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+          <p className="text-xs text-slate-400">
+            The current work is saved in this browser a few seconds after each change. The {MAX_SESSIONS} most recent sessions are kept for up to {MAX_SESSION_AGE_DAYS} days; older ones are removed first when storage runs low.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
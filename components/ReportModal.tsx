@@ -0,0 +1,248 @@
+import React, { useMemo, useState } from 'react';
+import { RiskAnalysisRow } from '../types';
+import {
+  ReportTemplate, BUILT_IN_TEMPLATES, TEMPLATE_FIELDS, loadCustomTemplates, saveCustomTemplates,
+  loadSelectedTemplateId, saveSelectedTemplateId, buildReportContext, renderReport
+} from '../utils/reportTemplates';
+import { ThresholdSet } from '../utils/thresholds';
+import { buildRichReport, downloadReportMarkdown, downloadReportHtml, printReport } from '../utils/reportExport';
+import { X, Copy, Save, Trash2, FilePlus, FileText, FileCode, Printer } from 'lucide-react';
+
+interface ReportModalProps {
+  allRows: RiskAnalysisRow[];
+  reportRows: RiskAnalysisRow[]; // Filtered view, or the selection when there is one
+  selectionOnly: boolean;
+  thresholds: ThresholdSet;
+  nidSourceFiles: string[]; // Original CSVs used for NID mapping
+  onClose: () => void;
+}
+
+type TemplateDraft = Pick<ReportTemplate, 'name' | 'body' | 'maxExamples'>;
+
+const draftOf = (template: ReportTemplate): TemplateDraft => ({
+  name: template.name,
+  body: template.body,
+  maxExamples: template.maxExamples,
+});
+
+export const ReportModal: React.FC<ReportModalProps> = ({
+  allRows, reportRows, selectionOnly, thresholds, nidSourceFiles, onClose
+}) => {
+  const [customTemplates, setCustomTemplates] = useState<ReportTemplate[]>(() => loadCustomTemplates());
+  const allTemplates = [...BUILT_IN_TEMPLATES, ...customTemplates];
+
+  const [selectedId, setSelectedId] = useState(() => {
+    const id = loadSelectedTemplateId();
+    return allTemplates.some(t => t.id === id) ? id : BUILT_IN_TEMPLATES[0].id;
+  });
+  const selected = allTemplates.find(t => t.id === selectedId) || BUILT_IN_TEMPLATES[0];
+  const [draft, setDraft] = useState<TemplateDraft>(() => draftOf(selected));
+
+  const isDirty = draft.body !== selected.body || draft.maxExamples !== selected.maxExamples || draft.name !== selected.name;
+
+  const context = useMemo(
+    () => buildReportContext(allRows, reportRows, selectionOnly, draft.maxExamples),
+    [allRows, reportRows, selectionOnly, draft.maxExamples]
+  );
+
+  const { text, error } = useMemo(() => {
+    try {
+      return { text: renderReport(draft.body, context), error: null };
+    } catch (err: any) {
+      return { text: '', error: err.message as string };
+    }
+  }, [draft.body, context]);
+
+  // The exported documents always carry the full breakdown, independent of the text template
+  const richReport = () => buildRichReport(allRows, reportRows, {
+    selectionOnly, thresholds, maxExamples: draft.maxExamples, nidSourceFiles
+  });
+
+  const handlePrint = () => {
+    if (!printReport(richReport())) alert('The print window was blocked. Allow pop-ups for this page and try again.');
+  };
+
+  const selectTemplate = (id: string) => {
+    const template = allTemplates.find(t => t.id === id);
+    if (!template) return;
+    if (isDirty && !confirm('Discard changes to the current template?')) return;
+    setSelectedId(id);
+    setDraft(draftOf(template));
+    saveSelectedTemplateId(id);
+  };
+
+  const updateTemplates = (next: ReportTemplate[]) => {
+    setCustomTemplates(next);
+    saveCustomTemplates(next);
+  };
+
+  const handleSave = () => {
+    if (selected.builtIn) return;
+    updateTemplates(customTemplates.map(t => (t.id === selected.id ? { ...t, ...draft } : t)));
+  };
+
+  const handleSaveAs = () => {
+    const name = prompt('Template name:', selected.builtIn ? `${draft.name} (copy)` : draft.name);
+    if (!name) return;
+    const template: ReportTemplate = { ...draft, id: Math.random().toString(36).substring(2, 9), name };
+    updateTemplates([...customTemplates, template]);
+    setSelectedId(template.id);
+    setDraft(draftOf(template));
+    saveSelectedTemplateId(template.id);
+  };
+
+  const handleDelete = () => {
+    if (selected.builtIn || !confirm(`Delete template '${selected.name}'?`)) return;
+    updateTemplates(customTemplates.filter(t => t.id !== selected.id));
+    setSelectedId(BUILT_IN_TEMPLATES[0].id);
+    setDraft(draftOf(BUILT_IN_TEMPLATES[0]));
+    saveSelectedTemplateId(BUILT_IN_TEMPLATES[0].id);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-5xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="flex justify-between items-center px-6 py-4 border-b border-slate-100">
+          <h3 className="text-lg font-bold text-slate-800">Risk Summary Report</h3>
+          <button 
+            onClick={onClose}
+            className="p-1 rounded-full hover:bg-slate-100 text-slate-500 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 min-h-0 flex-1 overflow-y-auto lg:overflow-hidden">
+          {/* Template editor */}
+          <div className="p-6 space-y-3 border-b lg:border-b-0 lg:border-r border-slate-100 lg:overflow-y-auto">
+            <div className="flex flex-wrap items-center gap-2">
+              <select
+                value={selectedId}
+                onChange={(e) => selectTemplate(e.target.value)}
+                className="flex-1 min-w-0 px-3 py-1.5 text-sm border border-slate-300 rounded-lg bg-white focus:ring-2 focus:ring-indigo-500 outline-none"
+              >
+                <optgroup label="Built-in">
+                  {BUILT_IN_TEMPLATES.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                </optgroup>
+                {customTemplates.length > 0 && (
+                  <optgroup label="Saved">
+                    {customTemplates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                  </optgroup>
+                )}
+              </select>
+              <button
+                onClick={handleSave}
+                disabled={selected.builtIn || !isDirty || !!error}
+                title={selected.builtIn ? 'Built-in templates cannot be changed; use Save As' : 'Save'}
+                className="p-2 text-slate-500 hover:text-slate-900 hover:bg-slate-100 rounded-lg transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+              >
+                <Save className="w-4 h-4" />
+              </button>
+              <button
+                onClick={handleSaveAs}
+                disabled={!!error}
+                title="Save As New Template"
+                className="p-2 text-slate-500 hover:text-slate-900 hover:bg-slate-100 rounded-lg transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+              >
+                <FilePlus className="w-4 h-4" />
+              </button>
+              <button
+                onClick={handleDelete}
+                disabled={selected.builtIn}
+                title="Delete Template"
+                className="p-2 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-slate-600">
+              Examples per type
+              <input
+                type="number"
+                min="0"
+                max="100"
+                value={draft.maxExamples}
+                onChange={(e) => setDraft({ ...draft, maxExamples: Math.max(0, Math.min(100, parseInt(e.target.value, 10) || 0)) })}
+                className="w-20 px-2 py-1 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
+              />
+            </label>
+
+            <textarea
+              value={draft.body}
+              onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+              rows={14}
+              spellCheck={false}
+              className="w-full px-3 py-2 text-xs font-mono border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
+            />
+            {error && <p className="text-xs text-red-600 bg-red-50 p-2 rounded-lg">{error}</p>}
+
+            <div className="text-xs text-slate-500 space-y-1">
+              <p>
+                <code className="text-slate-700">{'{{name}}'}</code> inserts a value, <code className="text-slate-700">{'{{#list}}…{{/list}}'}</code> repeats
+                for each item, <code className="text-slate-700">{'{{#flag}}…{{/flag}}'}</code> / <code className="text-slate-700">{'{{^flag}}…{{/flag}}'}</code> show
+                text when a value is set / not set.
+              </p>
+              {TEMPLATE_FIELDS.map(({ scope, fields }) => (
+                <p key={scope}><span className="font-semibold text-slate-600">{scope}:</span> <span className="font-mono">{fields}</span></p>
+              ))}
+            </div>
+          </div>
+
+          {/* Live preview */}
+          <div className="p-6 bg-slate-50 lg:overflow-y-auto">
+            <div className="bg-white border border-slate-200 rounded-lg p-6 font-mono text-sm leading-relaxed text-slate-700 whitespace-pre-wrap shadow-sm">
+              {text}
+            </div>
+          </div>
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-100 bg-white flex justify-end gap-3">
+          <div className="mr-auto flex items-center gap-2">
+            <button
+              onClick={() => downloadReportMarkdown(richReport())}
+              className="px-3 py-2 text-sm font-medium text-slate-600 border border-slate-200 hover:bg-slate-50 rounded-lg transition-colors flex items-center gap-2"
+              title="Download as Markdown"
+            >
+              <FileText className="w-4 h-4" />
+              Markdown
+            </button>
+            <button
+              onClick={() => downloadReportHtml(richReport())}
+              className="px-3 py-2 text-sm font-medium text-slate-600 border border-slate-200 hover:bg-slate-50 rounded-lg transition-colors flex items-center gap-2"
+              title="Download as a self-contained HTML page"
+            >
+              <FileCode className="w-4 h-4" />
+              HTML
+            </button>
+            <button
+              onClick={handlePrint}
+              className="px-3 py-2 text-sm font-medium text-slate-600 border border-slate-200 hover:bg-slate-50 rounded-lg transition-colors flex items-center gap-2"
+              title="Open a print layout; choose Save as PDF in the print dialog"
+            >
+              <Printer className="w-4 h-4" />
+              Print / PDF
+            </button>
+          </div>
+          <button 
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-50 rounded-lg transition-colors"
+          >
+            Close
+          </button>
+          <button 
+            onClick={() => {
+              navigator.clipboard.writeText(text);
+              alert("Report copied to clipboard!");
+            }}
+            disabled={!!error}
+            className="px-4 py-2 text-sm font-medium text-white bg-slate-900 hover:bg-slate-800 rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50"
+          >
+            <Copy className="w-4 h-4" />
+            Copy Text
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
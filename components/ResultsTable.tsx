@@ -0,0 +1,246 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { RiskAnalysisRow } from '../types';
+import { SortKey, SortState, ColumnFilterKey, ColumnFilters } from '../utils/filters';
+import { VERDICT_LABELS } from '../utils/reviews';
+import { formatNids } from '../utils/nidMatching';
+import { VERDICT_STYLES } from './ReviewPanel';
+import { Search, ArrowUp, ArrowDown, ArrowUpDown } from 'lucide-react';
+
+interface ResultsTableProps {
+  rows: RiskAnalysisRow[];
+  hasSourceData: boolean;
+  selectedIds: Set<number>;
+  isAllSelected: boolean;
+  onToggleRow: (id: number) => void;
+  onToggleAll: () => void;
+  sort: SortState;
+  onSortChange: (sort: SortState) => void;
+  columnFilters: ColumnFilters;
+  onColumnFilterChange: (key: ColumnFilterKey, value: string) => void;
+  search: string;
+  reviewMode: boolean;
+  activeRowId: number | null;
+  onActivateRow: (id: number) => void;
+}
+
+// Rows have a fixed height so the visible window can be computed from scrollTop alone
+const ROW_HEIGHT = 64;
+const VIEWPORT_HEIGHT = 600;
+const OVERSCAN = 10;
+// Browsers cap element height (about 17M px in Firefox, 33M px in Chrome). Longer tables get a
+// scroll area of this height, and scroll positions are scaled to row offsets.
+const MAX_SCROLL_HEIGHT = 15_000_000;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const highlight = (text: string, query: string): React.ReactNode => {
+  const trimmed = query.trim();
+  if (!trimmed) return text;
+  const parts = text.split(new RegExp(`(${escapeRegExp(trimmed)})`, 'gi'));
+  return parts.map((part, i) =>
+    i % 2 === 1 ? <mark key={i} className="bg-yellow-200 text-slate-900 rounded px-0.5">{part}</mark> : part
+  );
+};
+
+export const ResultsTable: React.FC<ResultsTableProps> = ({
+  rows, hasSourceData, selectedIds, isAllSelected, onToggleRow, onToggleAll,
+  sort, onSortChange, columnFilters, onColumnFilterChange, search, reviewMode, activeRowId, onActivateRow
+}) => {
+  const [scrollTop, setScrollTop] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const fullHeight = rows.length * ROW_HEIGHT;
+  const scrollHeight = Math.min(fullHeight, MAX_SCROLL_HEIGHT);
+  // Table pixels per scrolled pixel (1 unless the table is taller than the cap)
+  const scrollScale = scrollHeight > VIEWPORT_HEIGHT ? (fullHeight - VIEWPORT_HEIGHT) / (scrollHeight - VIEWPORT_HEIGHT) : 1;
+
+  // Keep the row being reviewed in view when moving with the keyboard
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || activeRowId === null) return;
+    const index = rows.findIndex(r => r.id === activeRowId);
+    if (index < 0) return;
+    const headerHeight = container.querySelector('thead')?.clientHeight || 0;
+    const top = index * ROW_HEIGHT;
+    const viewTop = container.scrollTop * scrollScale;
+    if (top < viewTop) {
+      container.scrollTop = top / scrollScale;
+    } else if (top + ROW_HEIGHT > viewTop + container.clientHeight - headerHeight) {
+      container.scrollTop = (top + ROW_HEIGHT - container.clientHeight + headerHeight) / scrollScale;
+    }
+  }, [activeRowId, rows]);
+
+  const columnCount = 5 + (hasSourceData ? 1 : 0) + (reviewMode ? 1 : 0);
+  // rowsTop is the offset into the full-height table shown at the top of the viewport
+  const rowsTop = scrollTop * scrollScale;
+  const start = Math.max(0, Math.floor(rowsTop / ROW_HEIGHT) - OVERSCAN);
+  const end = Math.min(rows.length, Math.ceil((rowsTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+  const visibleRows = rows.slice(start, end);
+  // Spacers place row `start` where it belongs relative to the (possibly scaled) scroll position
+  const topSpacer = Math.max(0, scrollTop - (rowsTop - start * ROW_HEIGHT));
+  const bottomSpacer = Math.max(0, scrollHeight - topSpacer - visibleRows.length * ROW_HEIGHT);
+
+  const handleSort = (key: SortKey) => {
+    if (sort.key === key) {
+      onSortChange({ key, direction: sort.direction === 'asc' ? 'desc' : 'asc' });
+    } else {
+      onSortChange({ key, direction: key === 'score' || key === 'contentLength' ? 'desc' : 'asc' });
+    }
+  };
+
+  const renderSortHeader = (sortKey: SortKey, label: string, className?: string) => {
+    const Icon = sort.key !== sortKey ? ArrowUpDown : sort.direction === 'asc' ? ArrowUp : ArrowDown;
+    return (
+      <th className={`px-6 py-3 font-medium bg-slate-50 ${className || ''}`}>
+        <button
+          onClick={() => handleSort(sortKey)}
+          className={`flex items-center gap-1 uppercase hover:text-slate-800 transition-colors ${sort.key === sortKey ? 'text-indigo-600' : ''}`}
+        >
+          {label}
+          <Icon className="w-3 h-3" />
+        </button>
+      </th>
+    );
+  };
+
+  const renderFilterInput = (filterKey: ColumnFilterKey) => (
+    <th className="px-6 py-2 bg-slate-50">
+      <input
+        type="text"
+        value={columnFilters[filterKey] || ''}
+        onChange={(e) => onColumnFilterChange(filterKey, e.target.value)}
+        placeholder="Filter..."
+        className="w-full px-2 py-1 text-xs font-normal normal-case border border-slate-200 rounded-md focus:ring-2 focus:ring-indigo-500 outline-none"
+      />
+    </th>
+  );
+
+  return (
+    <div
+      ref={containerRef}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      className="overflow-x-auto overflow-y-auto"
+      style={{ maxHeight: VIEWPORT_HEIGHT }}
+    >
+      <table className="w-full text-sm text-left table-fixed">
+        <colgroup>
+          <col className="w-12" />
+          {hasSourceData && <col className="w-40" />}
+          <col className="w-36" />
+          <col className="w-36" />
+          <col />
+          <col className="w-40" />
+          {reviewMode && <col className="w-36" />}
+        </colgroup>
+        <thead className="text-xs text-slate-500 uppercase bg-slate-50 border-b border-slate-200 sticky top-0 z-10">
+          <tr>
+            <th className="px-4 py-3 bg-slate-50">
+              <div className="flex items-center justify-center">
+                <input
+                  type="checkbox"
+                  checked={isAllSelected}
+                  onChange={onToggleAll}
+                  className="w-4 h-4 text-indigo-600 rounded border-slate-300 focus:ring-indigo-500 cursor-pointer"
+                />
+              </div>
+            </th>
+            {hasSourceData && renderSortHeader('nid', 'NID', 'text-blue-600')}
+            {renderSortHeader('score', 'Score')}
+            {renderSortHeader('riskType', 'Risk Type')}
+            {renderSortHeader('contentLength', 'Content')}
+            {renderSortHeader('sourceFile', 'Source')}
+            {reviewMode && <th className="px-6 py-3 font-medium bg-slate-50">Verdict</th>}
+          </tr>
+          <tr>
+            <th className="bg-slate-50" />
+            {hasSourceData && renderFilterInput('nid')}
+            <th className="bg-slate-50" />
+            {renderFilterInput('riskType')}
+            {renderFilterInput('content')}
+            {renderFilterInput('sourceFile')}
+            {reviewMode && <th className="bg-slate-50" />}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100 bg-white">
+          {rows.length === 0 ? (
+            <tr>
+              <td colSpan={columnCount} className="px-6 py-12 text-center text-slate-500">
+                <div className="flex flex-col items-center gap-2">
+                  <Search className="w-8 h-8 opacity-20" />
+                  <p>No rows match the current filters.</p>
+                </div>
+              </td>
+            </tr>
+          ) : (
+            <>
+              {topSpacer > 0 && <tr style={{ height: topSpacer }}><td colSpan={columnCount} /></tr>}
+              {visibleRows.map((row) => {
+                const isSelected = selectedIds.has(row.id);
+                const isActive = reviewMode && row.id === activeRowId;
+                return (
+                  <tr
+                    key={row.id}
+                    style={{ height: ROW_HEIGHT }}
+                    onClick={reviewMode ? () => onActivateRow(row.id) : undefined}
+                    className={`transition-colors ${reviewMode ? 'cursor-pointer' : ''}
+                      ${isActive ? 'bg-indigo-100 outline outline-2 -outline-offset-2 outline-indigo-400' : isSelected ? 'bg-indigo-50' : 'hover:bg-slate-50'}`}
+                  >
+                    <td className="px-4 whitespace-nowrap">
+                      <div className="flex items-center justify-center">
+                        <input
+                          type="checkbox"
+                          checked={isSelected}
+                          onChange={() => onToggleRow(row.id)}
+                          className="w-4 h-4 text-indigo-600 rounded border-slate-300 focus:ring-indigo-500 cursor-pointer"
+                        />
+                      </div>
+                    </td>
+                    {hasSourceData && (
+                      <td className="px-6 whitespace-nowrap font-mono text-xs text-blue-600 font-bold truncate" title={formatNids(row)}>
+                        {row.nid ? highlight(formatNids(row), search) : '-'}
+                        {row.nidMatch === 'fuzzy' && <span className="ml-1 text-amber-600 font-normal" title="Fuzzy match">~</span>}
+                      </td>
+                    )}
+                    <td className="px-6 whitespace-nowrap">
+                      <span className={`
+                        inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border
+                        ${row.riskScore > 0.5 ? 'bg-red-100 text-red-800 border-red-200' :
+                          row.riskScore > 0.001 ? 'bg-amber-100 text-amber-800 border-amber-200' :
+                          'bg-green-100 text-green-800 border-green-200'}
+                      `}>
+                        {row.riskScore.toFixed(7)}
+                      </span>
+                    </td>
+                    <td className="px-6 whitespace-nowrap text-slate-600 truncate">
+                      {row.riskType}
+                    </td>
+                    <td className="px-6 text-slate-700" title={row.content}>
+                      <div className="line-clamp-2">{highlight(row.content, search)}</div>
+                    </td>
+                    <td className="px-6 whitespace-nowrap text-xs text-slate-500 truncate" title={`${row.sourceFile}, row ${row.sourceRow}`}>
+                      {row.sourceFile}
+                      <div className="text-slate-400">row {row.sourceRow}</div>
+                    </td>
+                    {reviewMode && (
+                      <td className="px-6 whitespace-nowrap">
+                        {row.verdict && (
+                          <span
+                            className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border ${VERDICT_STYLES[row.verdict]}`}
+                            title={[row.correctedRiskType, row.reviewNote].filter(Boolean).join(' · ')}
+                          >
+                            {VERDICT_LABELS[row.verdict]}
+                          </span>
+                        )}
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+              {bottomSpacer > 0 && <tr style={{ height: bottomSpacer }}><td colSpan={columnCount} /></tr>}
+            </>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,122 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { RiskAnalysisRow, ReviewVerdict } from '../types';
+import { ReviewPatch, VERDICT_LABELS } from '../utils/reviews';
+import { ChevronUp, ChevronDown, Keyboard } from 'lucide-react';
+
+interface ReviewPanelProps {
+  row: RiskAnalysisRow | null;
+  position: number; // Index of the row within the filtered list
+  total: number;
+  reviewedCount: number;
+  riskTypes: string[];
+  onChange: (patch: ReviewPatch) => void;
+  onPrev: () => void;
+  onNext: () => void;
+}
+
+export const VERDICT_STYLES: Record<ReviewVerdict, string> = {
+  violation: 'bg-red-100 text-red-800 border-red-200',
+  not_violation: 'bg-green-100 text-green-800 border-green-200',
+  unsure: 'bg-amber-100 text-amber-800 border-amber-200',
+};
+
+const VERDICT_KEYS: [ReviewVerdict, string][] = [['violation', '1'], ['not_violation', '2'], ['unsure', '3']];
+
+// The note is edited locally and saved once typing pauses, not on every keystroke
+const NOTE_SAVE_DELAY_MS = 500;
+
+export const ReviewPanel: React.FC<ReviewPanelProps> = ({
+  row, position, total, reviewedCount, riskTypes, onChange, onPrev, onNext
+}) => {
+  const [note, setNote] = useState(row?.reviewNote || '');
+  const pendingNote = useRef<{ timer: number; save: () => void } | null>(null);
+
+  const flushNote = () => {
+    const pending = pendingNote.current;
+    if (!pending) return;
+    pendingNote.current = null;
+    clearTimeout(pending.timer);
+    pending.save();
+  };
+
+  // A pending note is saved to the row it was typed for before another row is shown
+  useEffect(() => {
+    setNote(row?.reviewNote || '');
+    return flushNote;
+  }, [row?.id]);
+
+  const handleNoteChange = (value: string) => {
+    setNote(value);
+    if (pendingNote.current) clearTimeout(pendingNote.current.timer);
+    const save = () => onChange({ reviewNote: value || undefined });
+    const timer = window.setTimeout(() => {
+      pendingNote.current = null;
+      save();
+    }, NOTE_SAVE_DELAY_MS);
+    pendingNote.current = { timer, save };
+  };
+
+  return (
+    <div className="bg-indigo-50/50 border-b border-indigo-100 px-6 py-4 space-y-3">
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <div className="flex items-center gap-3">
+          <button onClick={onPrev} className="p-1 text-slate-500 hover:text-slate-800 rounded transition-colors" title="Previous (K / ↑)">
+            <ChevronUp className="w-4 h-4" />
+          </button>
+          <button onClick={onNext} className="p-1 text-slate-500 hover:text-slate-800 rounded transition-colors" title="Next (J / ↓)">
+            <ChevronDown className="w-4 h-4" />
+          </button>
+          <span className="text-sm text-slate-600">
+            Row <span className="font-semibold">{row ? position + 1 : '-'}</span> of {total}
+          </span>
+          <span className="text-xs text-slate-400 bg-slate-200 px-2 py-0.5 rounded-full">{reviewedCount} reviewed</span>
+        </div>
+        <span className="flex items-center gap-1 text-xs text-slate-400">
+          <Keyboard className="w-3 h-3" />
+          J/K move · 1 violation · 2 not violation · 3 unsure · 0 clear · Esc exit
+        </span>
+      </div>
+
+      {row ? (
+        <>
+          <p className="text-sm text-slate-800 bg-white border border-slate-200 rounded-lg p-3 max-h-24 overflow-y-auto">{row.content}</p>
+          <div className="grid grid-cols-1 md:grid-cols-[auto_12rem_1fr] gap-3 items-start">
+            <div className="flex gap-1">
+              {VERDICT_KEYS.map(([verdict, key]) => (
+                <button
+                  key={verdict}
+                  onClick={() => onChange({ verdict: row.verdict === verdict ? undefined : verdict })}
+                  className={`px-2.5 py-1 rounded-full text-xs font-medium border transition-colors
+                    ${row.verdict === verdict ? VERDICT_STYLES[verdict] : 'bg-white text-slate-600 border-slate-200 hover:border-slate-300'}`}
+                >
+                  {VERDICT_LABELS[verdict]} <span className="opacity-50">{key}</span>
+                </button>
+              ))}
+            </div>
+            <input
+              type="text"
+              list="review-risk-types"
+              value={row.correctedRiskType || ''}
+              placeholder={`Type: ${row.riskType}`}
+              onChange={(e) => onChange({ correctedRiskType: e.target.value || undefined })}
+              className="w-full px-3 py-1.5 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
+            />
+            <datalist id="review-risk-types">
+              {riskTypes.map(type => <option key={type} value={type} />)}
+            </datalist>
+            <textarea
+              value={note}
+              placeholder="Note"
+              rows={1}
+              onChange={(e) => handleNoteChange(e.target.value)}
+              onBlur={flushNote}
+              className="w-full px-3 py-1.5 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none resize-y"
+            />
+          </div>
+        </>
+      ) : (
+        <p className="text-sm text-slate-500">No rows match the current filters.</p>
+      )}
+    </div>
+  );
+};
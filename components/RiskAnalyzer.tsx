@@ -1,81 +1,219 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useRef, useEffect, useImperativeHandle } from 'react';
 import { FileUploader } from './FileUploader';
-import { processRiskCSV, processSourceMapping, downloadRiskData } from '../utils/processor';
-import { RiskAnalysisRow } from '../types';
-import { Filter, BarChart3, Search, FileText, X, Copy, Layers, CheckSquare, Square, Upload, Database, Download } from 'lucide-react';
-
-export const RiskAnalyzer: React.FC = () => {
+import { EncodingSelect } from './EncodingSelect';
+import { ResultsTable } from './ResultsTable';
+import { FilterPanel } from './FilterPanel';
+import { ThresholdTable } from './ThresholdTable';
+import { ScoreHistogram } from './ScoreHistogram';
+import { EvaluationPanel } from './EvaluationPanel';
+import { ComparisonPanel } from './ComparisonPanel';
+import { ReviewPanel } from './ReviewPanel';
+import { BatchLinkPanel } from './BatchLinkPanel';
+import { ExportFormatSelect } from './ExportFormatSelect';
+import { ReportModal } from './ReportModal';
+import { useColumnMappingWizard } from './ColumnMappingWizard';
+import { useSheetPicker } from './SheetPicker';
+import { useDebouncedValue } from './useDebouncedValue';
+import { processRiskCSV, processSourceMapping, downloadRiskData, isAbortError } from '../utils/processor';
+import { parseWithColumnMapping } from '../utils/columnMapping';
+import { parseWithSheetSelection, INPUT_ACCEPT } from '../utils/workbook';
+import { sortRows, compileFilter, filterToQuery, filterFromQuery, DEFAULT_SORT, SortState, FilterModel } from '../utils/filters';
+import { ThresholdSet, thresholdFor } from '../utils/thresholds';
+import { loadReviews, applyReviews, saveReview, ReviewPatch } from '../utils/reviews';
+import {
+  matchNids, mergeNidMappings, computeMatchStats, NidMapping, NidMatchOptions, DEFAULT_NID_MATCH_OPTIONS
+} from '../utils/nidMatching';
+import { SessionHandle, AnalyzerSessionState } from '../utils/session';
+import { BatchRecord, BatchComparison, loadBatches, linkBatches, groupRowsByFile, compareWithBatch, batchToMapping } from '../utils/batches';
+import { RiskAnalysisRow, EncodingDetection, TextEncodingName, FileProgress, ExportFormat } from '../types';
+import { Filter, BarChart3, Search, FileText, X, Layers, CheckSquare, Square, Upload, Database, Download, ClipboardCheck, RefreshCw } from 'lucide-react';
+
+const FILTER_DEBOUNCE_MS = 250;
+
+interface SourceMappingFile {
+  id: string;
+  file: File;
+  encoding: EncodingDetection;
+  mapping: NidMapping;
+}
+
+interface RiskAnalyzerProps {
+  sessionRef?: React.Ref<SessionHandle<AnalyzerSessionState>>;
+  onSessionChange?: () => void; // Called whenever state covered by the session changes
+}
+
+export const RiskAnalyzer: React.FC<RiskAnalyzerProps> = ({ sessionRef, onSessionChange }) => {
   const [data, setData] = useState<RiskAnalysisRow[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
   const [showReport, setShowReport] = useState(false);
   const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+  const { requestMapping, wizard: mappingWizard } = useColumnMappingWizard();
+  const { requestSheet, picker: sheetPicker } = useSheetPicker();
+  const [progress, setProgress] = useState<FileProgress[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
   
+  // Loaded files with their detected encodings (kept for per-file overrides)
+  const [riskFiles, setRiskFiles] = useState<{ file: File; encoding: EncodingDetection }[]>([]);
+
   // Source Mapping State
   const [sourceLoading, setSourceLoading] = useState(false);
-  const [hasSourceData, setHasSourceData] = useState(false);
+  const [sourceProgress, setSourceProgress] = useState(0);
+  const [mappingFiles, setMappingFiles] = useState<SourceMappingFile[]>([]);
+  const [matchOptions, setMatchOptions] = useState<NidMatchOptions>(DEFAULT_NID_MATCH_OPTIONS);
+
+  // Batches remembered by the Batch Processor, and which one each scored file came from
+  const [batches, setBatches] = useState<BatchRecord[]>([]);
+  const [batchLinks, setBatchLinks] = useState<Record<string, string | null>>({});
+  const linkedBatches = useMemo(() => {
+    const ids = new Set(Object.values(batchLinks));
+    return batches.filter(b => ids.has(b.id));
+  }, [batches, batchLinks]);
+
+  // All source files and linked batches merged into one content -> NIDs mapping
+  const sourceMapping = useMemo(() => {
+    const mappings = [
+      ...mappingFiles.map(f => f.mapping),
+      ...linkedBatches.filter(b => b.nids.length > 0).map(batchToMapping),
+    ];
+    return mappings.length > 0 ? mergeNidMappings(mappings) : null;
+  }, [mappingFiles, linkedBatches]);
+
+  // Filter state (threshold, score range, risk types, ...), initialised from a shared link if present
+  const [filter, setFilter] = useState<FilterModel>(() => filterFromQuery(window.location.search));
+  const threshold = filter.thresholds.defaultThreshold;
+  const setThreshold = (value: number) => {
+    setFilter(prev => ({ ...prev, thresholds: { ...prev.thresholds, defaultThreshold: value } }));
+  };
+  const setThresholds = (thresholds: ThresholdSet) => setFilter(prev => ({ ...prev, thresholds }));
+  const [sort, setSort] = useState<SortState>(DEFAULT_SORT);
 
-  // Threshold state
-  const [threshold, setThreshold] = useState<number>(0.0001);
+  // Review mode: the active row receives verdicts from the panel and keyboard shortcuts
+  const [reviewMode, setReviewMode] = useState(false);
+  const [activeRowId, setActiveRowId] = useState<number | null>(null);
 
-  const handleFilesSelect = async (files: File[]) => {
+  // Keep the URL in sync so the current filter can be shared as a link
+  useEffect(() => {
+    const query = filterToQuery(filter);
+    window.history.replaceState(null, '', query ? `?${query}` : window.location.pathname);
+  }, [filter]);
+
+  const applyMapping = (rows: RiskAnalysisRow[], mapping: NidMapping, options: NidMatchOptions = matchOptions) => {
+    return matchNids(rows, mapping, options); // Content is already normalized in processRiskCSV
+  };
+
+  const loadRiskFiles = async (
+    files: File[],
+    overrides: (TextEncodingName | undefined)[],
+    mapping: NidMapping | null
+  ) => {
     setLoading(true);
     setError(null);
     setData([]);
     setSelectedIds(new Set());
-    setHasSourceData(false);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const queue = files.map((file, i) => ({ id: String(i), name: file.name, loaded: 0, total: file.size }));
+    setProgress(queue);
 
     try {
-      const promises = files.map(file => processRiskCSV(file));
-      const results = await Promise.all(promises);
+      // Sequential, so at most one column mapping wizard is open at a time
+      const results = [];
+      for (let i = 0; i < files.length; i++) {
+        results.push(await parseWithSheetSelection(files[i], (sheet) => parseWithColumnMapping(
+          (columnMapping) => processRiskCSV(files[i], {
+            encoding: overrides[i],
+            columnMapping,
+            sheet,
+            signal: controller.signal,
+            onProgress: (loaded, total) => {
+              setProgress(prev => prev.map(p => (p.id === queue[i].id ? { ...p, loaded, total } : p)));
+            }
+          }),
+          requestMapping
+        ), requestSheet));
+      }
       
       let globalIdCounter = 0;
 
       // FIX: Use flatMap instead of spread operator (...) to avoid "Maximum call stack size exceeded" on large files
-      const combinedData = results.flatMap((fileRows) => {
-        return fileRows.map((row) => ({
+      const combinedData = results.flatMap((result) => {
+        return result.data.map((row) => ({
           ...row,
-          id: globalIdCounter++, // Re-index rows to ensure unique IDs across multiple files
+          id: globalIdCounter++, // Re-index rows to ensure unique IDs across multiple files; sourceFile/sourceRow keep the origin
         }));
       });
 
+      setRiskFiles(files.map((file, i) => ({ file, encoding: results[i].encoding })));
+
       if (combinedData.length === 0) {
         setError("No valid rows found in the uploaded files. Please check the column names.");
       } else {
-        setData(combinedData);
+        // Resume earlier reviews of the same content
+        const reviewed = applyReviews(combinedData, await loadReviews());
+        setData(mapping ? applyMapping(reviewed, mapping) : reviewed);
+
+        // Recognise scored files coming back from batches produced earlier
+        const savedBatches = await loadBatches();
+        setBatches(savedBatches);
+        setBatchLinks(linkBatches(combinedData, savedBatches));
       }
     } catch (err: any) {
-      console.error(err);
-      setError(err.message || "Failed to parse one or more files.");
+      if (isAbortError(err)) {
+        setError("Loading cancelled.");
+      } else {
+        console.error(err);
+        setError(err.message || "Failed to parse one or more files.");
+      }
     } finally {
+      setProgress([]);
       setLoading(false);
     }
   };
 
-  const handleSourceFileSelect = async (files: File[]) => {
+  const handleFilesSelect = async (files: File[]) => {
+    setMappingFiles([]);
+    await loadRiskFiles(files, [], null);
+  };
+
+  // Re-parse all loaded files, forcing the chosen encoding on one of them
+  const handleRiskEncodingOverride = async (index: number, encoding: TextEncodingName | undefined) => {
+    const overrides = riskFiles.map((f, i) => {
+      if (i === index) return encoding;
+      return f.encoding.source === 'manual' ? f.encoding.encoding : undefined;
+    });
+    await loadRiskFiles(riskFiles.map(f => f.file), overrides, sourceMapping);
+  };
+
+  const parseSourceFile = (file: File, encodingOverride?: TextEncodingName) => {
+      return parseWithSheetSelection(file, (sheet) => parseWithColumnMapping(
+          (columnMapping) => processSourceMapping(file, {
+              encoding: encodingOverride,
+              columnMapping,
+              sheet,
+              onProgress: (loaded, total) => setSourceProgress(total > 0 ? loaded / total : 0)
+          }),
+          requestMapping
+      ), requestSheet);
+  };
+
+  // Adds new source files, or re-parses one in place when `replaceId` is given (replace / encoding override).
+  // Sequential, so at most one column mapping wizard is open at a time.
+  const handleSourceFilesSelect = async (files: File[], replaceId?: string, encodingOverride?: TextEncodingName) => {
       if (files.length === 0) return;
-      const file = files[0]; // Only take first for now, or could loop
       setSourceLoading(true);
       setError(null);
 
       try {
-          const mapping = await processSourceMapping(file);
-          
-          // Update existing data with NIDs
-          setData(prevData => {
-              const updated = prevData.map(row => {
-                  const nid = mapping.get(row.content); // Content is already normalized in processRiskCSV
-                  return nid ? { ...row, nid } : row;
-              });
-              
-              // Check if we actually mapped anything
-              const matchedCount = updated.filter(r => r.nid).length;
-              if (matchedCount > 0) {
-                  setHasSourceData(true);
-              }
-              return updated;
-          });
-
+          for (const file of files) {
+              setSourceProgress(0);
+              const { mapping, encoding } = await parseSourceFile(file, encodingOverride);
+              const entry: SourceMappingFile = { id: replaceId || `${Date.now()}-${file.name}`, file, encoding, mapping };
+              setMappingFiles(prev => (replaceId ? prev.map(f => (f.id === replaceId ? entry : f)) : [...prev, entry]));
+          }
       } catch (err: any) {
           console.error(err);
           setError(`Source File Error: ${err.message}`);
@@ -84,13 +222,77 @@ export const RiskAnalyzer: React.FC = () => {
       }
   };
 
+  const removeSourceFile = (id: string) => setMappingFiles(prev => prev.filter(f => f.id !== id));
+
+  // Re-join NIDs whenever the merged mapping or the fuzzy settings change
+  useEffect(() => {
+      setData(prevData => applyMapping(prevData, sourceMapping || new Map(), matchOptions));
+  }, [sourceMapping, matchOptions]);
+
+  const batchComparisons = useMemo(() => {
+    const comparisons = new Map<string, BatchComparison>();
+    if (linkedBatches.length === 0) return comparisons;
+    groupRowsByFile(data).forEach((rows, fileName) => {
+      const batch = linkedBatches.find(b => b.id === batchLinks[fileName]);
+      if (batch) comparisons.set(fileName, compareWithBatch(rows, batch));
+    });
+    return comparisons;
+  }, [data, linkedBatches, batchLinks]);
+
+  const matchStats = useMemo(() => (sourceMapping ? computeMatchStats(data) : null), [data, sourceMapping]);
+  const hasSourceData = !!matchStats && matchStats.exact + matchStats.fuzzy > 0;
+
   // Filter logic
+  // Text fields apply once typing pauses, so each keystroke doesn't re-filter every row
+  const debouncedFilter = useDebouncedValue(filter, FILTER_DEBOUNCE_MS);
+  const effectiveFilter = useMemo<FilterModel>(() => ({
+    ...filter,
+    search: debouncedFilter.search,
+    include: debouncedFilter.include,
+    exclude: debouncedFilter.exclude,
+    columns: debouncedFilter.columns,
+  }), [
+    filter.thresholds, filter.maxScore, filter.riskTypes, filter.nidMatch, filter.sourceFiles, filter.useRegex,
+    debouncedFilter.search, debouncedFilter.include, debouncedFilter.exclude, debouncedFilter.columns,
+  ]);
+  const compiledFilter = useMemo(() => compileFilter(effectiveFilter), [effectiveFilter]);
+
   const filteredData = useMemo(() => {
-    return data.filter(row => row.riskScore >= threshold).sort((a, b) => b.riskScore - a.riskScore);
-  }, [data, threshold]);
+    return sortRows(data.filter(compiledFilter.predicate), sort);
+  }, [data, compiledFilter, sort]);
+
+  // Distinct values for the filter panel (single pass, no giant intermediate arrays)
+  const { riskTypeCounts, sourceFileNames } = useMemo(() => {
+    const types = new Map<string, number>();
+    const files = new Set<string>();
+    for (const row of data) {
+      types.set(row.riskType, (types.get(row.riskType) || 0) + 1);
+      files.add(row.sourceFile);
+    }
+    return {
+      riskTypeCounts: Array.from(types.entries()).sort((a, b) => b[1] - a[1]),
+      sourceFileNames: Array.from(files),
+    };
+  }, [data]);
+
+  const flaggedByType = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const row of data) {
+      if (row.riskScore >= thresholdFor(filter.thresholds, row.riskType)) {
+        counts.set(row.riskType, (counts.get(row.riskType) || 0) + 1);
+      }
+    }
+    return counts;
+  }, [data, filter.thresholds]);
 
+  // Plain loop: Math.max(...scores) overflows the call stack on multi-million-row inputs
   const maxScore = useMemo(() => {
-    return data.length > 0 ? Math.max(...data.map(d => d.riskScore)) : 1;
+    if (data.length === 0) return 1;
+    let max = -Infinity;
+    for (const row of data) {
+      if (row.riskScore > max) max = row.riskScore;
+    }
+    return max;
   }, [data]);
 
   // Selection Logic
@@ -118,8 +320,62 @@ export const RiskAnalyzer: React.FC = () => {
 
   const isAllSelected = filteredData.length > 0 && filteredData.every(row => selectedIds.has(row.id));
 
+  // Review Logic: reviews are stored per content hash, so rows with the same content share them
+  const updateReview = (id: number, patch: ReviewPatch) => {
+    const row = data.find(r => r.id === id);
+    if (!row) return;
+    setData(prev => prev.map(r => (r.contentHash === row.contentHash ? { ...r, ...patch } : r)));
+    saveReview({ ...row, ...patch });
+  };
+
+  const activeIndex = activeRowId === null ? -1 : filteredData.findIndex(r => r.id === activeRowId);
+  const activeRow = activeIndex >= 0 ? filteredData[activeIndex] : null;
+
+  const moveActive = (delta: number) => {
+    if (filteredData.length === 0) return;
+    const next = activeIndex < 0 ? 0 : Math.min(filteredData.length - 1, Math.max(0, activeIndex + delta));
+    setActiveRowId(filteredData[next].id);
+  };
+
+  const reviewedCount = useMemo(() => {
+    let count = 0;
+    for (const row of data) if (row.verdict) count++;
+    return count;
+  }, [data]);
+
+  const toggleReviewMode = () => {
+    if (!reviewMode && activeIndex < 0 && filteredData.length > 0) setActiveRowId(filteredData[0].id);
+    setReviewMode(!reviewMode);
+  };
+
+  // Shortcuts are ignored while typing in an input (e.g. the review note)
+  useEffect(() => {
+    if (!reviewMode) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || e.ctrlKey || e.metaKey || e.altKey) return;
+
+      const verdicts: Record<string, ReviewPatch['verdict']> = { '1': 'violation', '2': 'not_violation', '3': 'unsure', '0': undefined };
+      if (e.key === 'j' || e.key === 'ArrowDown') {
+        moveActive(1);
+      } else if (e.key === 'k' || e.key === 'ArrowUp') {
+        moveActive(-1);
+      } else if (e.key in verdicts && activeRow) {
+        updateReview(activeRow.id, { verdict: verdicts[e.key] });
+        if (e.key !== '0') moveActive(1);
+      } else if (e.key === 'Escape') {
+        setReviewMode(false);
+      } else {
+        return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
   // Export Logic
-  const handleExport = () => {
+  const handleExport = async () => {
     const targetData = selectedIds.size > 0 
         ? filteredData.filter(row => selectedIds.has(row.id))
         : filteredData;
@@ -140,56 +396,64 @@ export const RiskAnalyzer: React.FC = () => {
         }
     });
 
-    downloadRiskData(uniqueData);
+    setExportError(null);
+    try {
+      await downloadRiskData(uniqueData, exportFormat);
+    } catch (err: any) {
+      console.error('Export failed:', err);
+      setExportError(`Export failed: ${err?.message || 'Unknown error'}`);
+    }
   };
 
-  // Report Generation Logic
-  const reportContent = useMemo(() => {
-    // Determine the target dataset: Selection (if active) OR Filtered View (default)
-    const targetData = selectedIds.size > 0 
-        ? filteredData.filter(row => selectedIds.has(row.id))
-        : filteredData;
-
-    if (targetData.length === 0) return "";
-
-    const totalCount = data.length;
-    const violationCount = targetData.length; // Use target data count
-    const violationPercent = totalCount > 0 ? ((violationCount / totalCount) * 100).toFixed(2) : "0.00";
-    
-    // Deduplicate violations based on content
-    const uniqueViolations = new Set(targetData.map(r => r.content));
-    const uniqueViolationCount = uniqueViolations.size;
-
-    // Group by Risk Type
-    const grouped = targetData.reduce((acc, row) => {
-      if (!acc[row.riskType]) {
-        acc[row.riskType] = new Set<string>();
-      }
-      acc[row.riskType].add(row.content);
-      return acc;
-    }, {} as Record<string, Set<string>>);
-
-    let caseText = "";
-    let index = 1;
-    for (const [type, contentSetRaw] of Object.entries(grouped)) {
-      // Explicit cast to fix type inference issue
-      const contentSet = contentSetRaw as Set<string>;
-      
-      // Get up to 5 examples
-      const examples = Array.from(contentSet).slice(0, 5).join('、');
-      const suffix = contentSet.size > 5 ? '...' : '';
-      caseText += `${index}.${type}：${examples}${suffix}\n`;
-      index++;
-    }
+  // Session save / restore (see utils/session.ts)
+  useImperativeHandle(sessionRef, () => ({
+    capture: () => ({
+      data,
+      riskFiles,
+      mappingFiles,
+      matchOptions,
+      batches: linkedBatches,
+      batchLinks,
+      filter,
+      sort,
+      selectedIds: Array.from(selectedIds),
+      reviewMode,
+      activeRowId,
+      exportFormat,
+      showReport,
+    }),
+    restore: (state) => {
+      abortRef.current?.abort();
+      setError(null);
+      setData(state.data);
+      setRiskFiles(state.riskFiles);
+      setMappingFiles(state.mappingFiles);
+      setMatchOptions(state.matchOptions);
+      setBatchLinks(state.batchLinks);
+      setFilter(state.filter);
+      setSort(state.sort);
+      setSelectedIds(new Set(state.selectedIds));
+      setReviewMode(state.reviewMode);
+      setActiveRowId(state.activeRowId);
+      setExportFormat(state.exportFormat);
+      setShowReport(state.showReport);
+      // Batches from the session win over local records with the same id
+      setBatches(state.batches);
+      loadBatches().then(local => {
+        const ids = new Set(state.batches.map(b => b.id));
+        setBatches([...state.batches, ...local.filter(b => !ids.has(b.id))]);
+      });
+    },
+  }));
 
-    const modeText = selectedIds.size > 0 ? "(Selected Items Only)" : "";
+  useEffect(() => {
+    onSessionChange?.();
+  }, [data, riskFiles, mappingFiles, matchOptions, batchLinks, filter, sort, selectedIds, reviewMode, activeRowId, exportFormat, showReport]);
 
-    return `样本数量：${totalCount}个
-违规样本：${violationCount}个（${violationPercent}%）${modeText}
-（去重后${uniqueViolationCount}个）
-违规case
-${caseText}`;
-  }, [data, filteredData, selectedIds]);
+  // Report covers the selection (if active) or the filtered view
+  const reportRows = useMemo(() => {
+    return selectedIds.size > 0 ? filteredData.filter(row => selectedIds.has(row.id)) : filteredData;
+  }, [filteredData, selectedIds]);
 
   return (
     <section className="bg-white rounded-3xl shadow-sm border border-slate-200 overflow-hidden">
@@ -209,7 +473,12 @@ ${caseText}`;
         {/* Upload Area */}
         {data.length === 0 && (
           <div>
-             <FileUploader onFileSelect={handleFilesSelect} isLoading={loading} />
+             <FileUploader
+               onFileSelect={handleFilesSelect}
+               isLoading={loading}
+               progress={progress}
+               onCancel={() => abortRef.current?.abort()}
+             />
              {error && <p className="mt-3 text-red-600 bg-red-50 p-3 rounded-lg text-sm">{error}</p>}
           </div>
         )}
@@ -218,6 +487,20 @@ ${caseText}`;
         {data.length > 0 && (
           <div className="animate-in fade-in slide-in-from-bottom-4 duration-500">
             
+            {/* Loaded Files */}
+            <div className="flex flex-wrap items-center gap-2 mb-4">
+              {riskFiles.map((f, index) => (
+                <div key={index} className="flex items-center gap-2 bg-slate-50 border border-slate-200 rounded-lg pl-3 pr-1 py-1">
+                  <span className="text-xs font-medium text-slate-600">{f.file.name}</span>
+                  <EncodingSelect
+                    detection={f.encoding}
+                    onOverride={(encoding) => handleRiskEncodingOverride(index, encoding)}
+                    disabled={loading}
+                  />
+                </div>
+              ))}
+            </div>
+
             {/* Control Panel */}
             <div className="bg-slate-50 rounded-xl p-6 border border-slate-200 mb-6 space-y-6">
               
@@ -229,32 +512,96 @@ ${caseText}`;
                       <div className="flex justify-between items-center mb-3">
                         <label className="text-sm font-semibold text-slate-700 flex items-center gap-2">
                             <Database className="w-4 h-4" />
-                            Original Source File
+                            Original Source Files
                         </label>
                         {hasSourceData && <span className="text-xs text-green-600 bg-green-50 px-2 py-1 rounded font-medium border border-green-200">NIDs Linked</span>}
                       </div>
                       
-                      {!hasSourceData ? (
-                          <div className="relative group cursor-pointer">
-                              <div className="absolute inset-0 bg-blue-50 border border-blue-200 border-dashed rounded-lg opacity-50 group-hover:opacity-100 transition-opacity"></div>
-                              <div className="relative flex items-center justify-center gap-2 py-3">
-                                  <Upload className="w-4 h-4 text-blue-600" />
-                                  <span className="text-sm text-slate-600 font-medium">{sourceLoading ? "Mapping..." : "Upload Original CSV"}</span>
-                              </div>
-                              <input 
-                                type="file" 
-                                onChange={(e) => e.target.files && handleSourceFileSelect(Array.from(e.target.files))}
-                                accept=".csv"
-                                className="absolute inset-0 opacity-0 cursor-pointer"
-                                disabled={sourceLoading}
-                              />
-                          </div>
-                      ) : (
-                          <div className="text-sm text-slate-500 bg-white p-3 border border-slate-200 rounded-lg">
-                              Original file loaded. NIDs are now visible in the table.
-                          </div>
+                      {mappingFiles.length > 0 && (
+                          <ul className="space-y-1 mb-2">
+                              {mappingFiles.map(entry => (
+                                  <li key={entry.id} className="flex items-center justify-between gap-2 bg-white px-3 py-1.5 border border-slate-200 rounded-lg">
+                                      <span className="text-xs text-slate-600 truncate" title={entry.file.name}>
+                                          {entry.file.name} <span className="text-slate-400">({entry.mapping.size})</span>
+                                      </span>
+                                      <div className="flex items-center gap-1 flex-none">
+                                          <EncodingSelect
+                                            detection={entry.encoding}
+                                            onOverride={(encoding) => handleSourceFilesSelect([entry.file], entry.id, encoding)}
+                                            disabled={sourceLoading}
+                                          />
+                                          <label className="p-1 text-slate-400 hover:text-slate-700 rounded transition-colors cursor-pointer" title="Replace file">
+                                              <RefreshCw className="w-3 h-3" />
+                                              <input
+                                                type="file"
+                                                accept={INPUT_ACCEPT}
+                                                className="hidden"
+                                                disabled={sourceLoading}
+                                                onChange={(e) => {
+                                                  if (e.target.files?.[0]) handleSourceFilesSelect([e.target.files[0]], entry.id);
+                                                  e.target.value = '';
+                                                }}
+                                              />
+                                          </label>
+                                          <button
+                                            onClick={() => removeSourceFile(entry.id)}
+                                            disabled={sourceLoading}
+                                            className="p-1 text-slate-400 hover:text-red-600 rounded transition-colors"
+                                            title="Remove file"
+                                          >
+                                              <X className="w-3 h-3" />
+                                          </button>
+                                      </div>
+                                  </li>
+                              ))}
+                          </ul>
                       )}
-                      <p className="text-xs text-slate-400 mt-2">Upload the raw source file containing 'NID' to match against content.</p>
+                      <div className="relative group cursor-pointer">
+                          <div className="absolute inset-0 bg-blue-50 border border-blue-200 border-dashed rounded-lg opacity-50 group-hover:opacity-100 transition-opacity"></div>
+                          <div className="relative flex items-center justify-center gap-2 py-3">
+                              <Upload className="w-4 h-4 text-blue-600" />
+                              <span className="text-sm text-slate-600 font-medium">
+                                  {sourceLoading ? `Mapping... ${Math.round(sourceProgress * 100)}%` : mappingFiles.length > 0 ? "Add Source CSV" : "Upload Original CSV"}
+                              </span>
+                          </div>
+                          <input 
+                            type="file" 
+                            multiple
+                            onChange={(e) => {
+                              if (e.target.files) handleSourceFilesSelect(Array.from(e.target.files));
+                              e.target.value = '';
+                            }}
+                            accept={INPUT_ACCEPT}
+                            className="absolute inset-0 opacity-0 cursor-pointer"
+                            disabled={sourceLoading}
+                          />
+                      </div>
+                      <div className="flex items-center gap-4 mt-3">
+                          <label className="flex items-center gap-2 text-xs text-slate-600 cursor-pointer">
+                              <input
+                                type="checkbox"
+                                checked={matchOptions.fuzzy}
+                                onChange={(e) => setMatchOptions({ ...matchOptions, fuzzy: e.target.checked })}
+                                className="w-4 h-4 text-indigo-600 rounded border-slate-300 focus:ring-indigo-500"
+                              />
+                              Fuzzy matching
+                          </label>
+                          <label className="flex items-center gap-2 text-xs text-slate-600">
+                              Edit distance ≤
+                              <select
+                                value={matchOptions.maxEditDistance}
+                                onChange={(e) => setMatchOptions({ ...matchOptions, maxEditDistance: parseInt(e.target.value, 10) })}
+                                disabled={!matchOptions.fuzzy}
+                                className="px-1 py-0.5 text-xs border border-slate-300 rounded-md bg-white disabled:opacity-50"
+                              >
+                                {[0, 1, 2, 3].map(n => <option key={n} value={n}>{n}</option>)}
+                              </select>
+                          </label>
+                      </div>
+                      <p className="text-xs text-slate-400 mt-2">
+                          Upload the raw source files containing 'NID' to match against content; they are merged into one mapping. Fuzzy matching ignores
+                          full/half-width differences, punctuation and emoji.
+                      </p>
                   </div>
 
                   {/* Slider & Stats */}
@@ -262,7 +609,7 @@ ${caseText}`;
                      <div className="flex justify-between items-center">
                         <label className="text-sm font-semibold text-slate-700 flex items-center gap-2">
                             <Filter className="w-4 h-4" />
-                            Risk Score Threshold
+                            Default Risk Score Threshold
                         </label>
                         <span className="text-xs text-slate-500 bg-white px-2 py-1 rounded border border-slate-200">
                            ≥ {threshold}
@@ -289,7 +636,71 @@ ${caseText}`;
                   </div>
               </div>
 
-              {/* Row 2: Action Buttons */}
+              {/* Row 2: Batch link (only once batches have been produced in this browser) */}
+              {batches.length > 0 && (
+                <div className="border-t border-slate-200 pt-6">
+                  <BatchLinkPanel
+                    fileNames={riskFiles.map(f => f.file.name)}
+                    batches={batches}
+                    links={batchLinks}
+                    comparisons={batchComparisons}
+                    onLinkChange={(fileName, batchId) => setBatchLinks(prev => ({ ...prev, [fileName]: batchId }))}
+                  />
+                </div>
+              )}
+
+              {/* Row 3: Score distribution */}
+              <div className="border-t border-slate-200 pt-6">
+                <ScoreHistogram data={data} thresholds={filter.thresholds} onThresholdChange={setThreshold} />
+              </div>
+
+              {/* Row 4: Per-type thresholds */}
+              <div className="border-t border-slate-200 pt-6">
+                <ThresholdTable
+                  thresholds={filter.thresholds}
+                  onChange={setThresholds}
+                  riskTypeCounts={riskTypeCounts}
+                  flaggedByType={flaggedByType}
+                />
+              </div>
+
+              {/* Row 5: Ground truth evaluation */}
+              <div className="border-t border-slate-200 pt-6">
+                <EvaluationPanel
+                  data={data}
+                  thresholds={filter.thresholds}
+                  onThresholdChange={setThreshold}
+                  requestMapping={requestMapping}
+                  requestSheet={requestSheet}
+                />
+              </div>
+
+              {/* Row 6: Comparison with an earlier run */}
+              <div className="border-t border-slate-200 pt-6">
+                <ComparisonPanel
+                  data={data}
+                  thresholds={filter.thresholds}
+                  nidMapping={sourceMapping}
+                  matchOptions={matchOptions}
+                  exportFormat={exportFormat}
+                  requestMapping={requestMapping}
+                  requestSheet={requestSheet}
+                />
+              </div>
+
+              {/* Row 7: Filters */}
+              <div className="border-t border-slate-200 pt-6">
+                <FilterPanel
+                  filter={filter}
+                  onChange={setFilter}
+                  riskTypeCounts={riskTypeCounts}
+                  sourceFiles={sourceFileNames}
+                  hasSourceData={hasSourceData}
+                  error={compiledFilter.error}
+                />
+              </div>
+
+              {/* Row 8: Action Buttons */}
               <div className="flex flex-col sm:flex-row gap-4 pt-2">
                    <div className="flex-1 bg-white p-3 rounded-lg border border-slate-200 shadow-sm text-center flex items-center justify-between px-6">
                       <span className="text-xs text-slate-500 uppercase font-bold tracking-wider">
@@ -301,14 +712,17 @@ ${caseText}`;
                    </div>
                    
                    <div className="flex gap-2 flex-1">
-                       <button 
-                        onClick={handleExport}
-                        disabled={filteredData.length === 0}
-                        className="flex-1 flex items-center justify-center gap-2 bg-white hover:bg-slate-50 text-slate-700 border border-slate-300 p-3 rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
-                       >
-                         <Download className="w-4 h-4" />
-                         <span className="text-sm font-semibold">Export CSV</span>
-                       </button>
+                       <div className="flex-1 flex items-stretch gap-1">
+                         <button 
+                          onClick={handleExport}
+                          disabled={filteredData.length === 0}
+                          className="flex-1 flex items-center justify-center gap-2 bg-white hover:bg-slate-50 text-slate-700 border border-slate-300 p-3 rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                         >
+                           <Download className="w-4 h-4" />
+                           <span className="text-sm font-semibold">Export</span>
+                         </button>
+                         <ExportFormatSelect value={exportFormat} onChange={setExportFormat} className="max-w-[9rem]" />
+                       </div>
 
                        <button 
                         onClick={() => setShowReport(true)}
@@ -320,15 +734,24 @@ ${caseText}`;
                        </button>
                    </div>
               </div>
+              {exportError && <p className="text-xs text-red-600 bg-red-50 p-2 rounded-lg">{exportError}</p>}
 
             </div>
 
             {/* Results Table */}
             <div className="border border-slate-200 rounded-xl overflow-hidden shadow-sm">
-               <div className="bg-slate-50 px-6 py-3 border-b border-slate-200 flex justify-between items-center">
+               <div className="bg-slate-50 px-6 py-3 border-b border-slate-200 flex flex-wrap gap-3 justify-between items-center">
                   <div className="flex items-center gap-2">
                     <h3 className="font-semibold text-slate-700">Filtered Results</h3>
                     <span className="text-xs text-slate-400 bg-slate-200 px-2 py-0.5 rounded-full">Total Rows: {data.length}</span>
+                    {matchStats && (
+                        <span className="text-xs text-slate-500" title="NID match statistics">
+                            NID: <span className="text-green-700 font-medium">{matchStats.exact} exact</span>
+                            {' · '}<span className="text-amber-600 font-medium">{matchStats.fuzzy} fuzzy</span>
+                            {' · '}<span className="text-blue-600 font-medium">{matchStats.ambiguous} ambiguous</span>
+                            {' · '}<span className="text-slate-400 font-medium">{matchStats.unmatched} unmatched</span>
+                        </span>
+                    )}
                     {selectedIds.size > 0 && (
                         <button 
                             onClick={() => setSelectedIds(new Set())}
@@ -338,88 +761,60 @@ ${caseText}`;
                         </button>
                     )}
                   </div>
-                  <button onClick={() => setData([])} className="flex items-center gap-1 text-xs text-slate-500 hover:text-red-600 font-medium transition-colors">
-                    <Layers className="w-3 h-3" />
-                    Upload New Files
-                  </button>
+                  <div className="flex items-center gap-4">
+                    <div className="relative">
+                      <Search className="w-4 h-4 text-slate-400 absolute left-2.5 top-1/2 -translate-y-1/2" />
+                      <input
+                        type="text"
+                        value={filter.search}
+                        onChange={(e) => setFilter(prev => ({ ...prev, search: e.target.value }))}
+                        placeholder="Search content or NID..."
+                        className="pl-8 pr-3 py-1.5 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none w-64"
+                      />
+                    </div>
+                    <button
+                      onClick={toggleReviewMode}
+                      className={`flex items-center gap-1 text-xs font-medium transition-colors ${reviewMode ? 'text-indigo-600 hover:text-indigo-800' : 'text-slate-500 hover:text-slate-800'}`}
+                    >
+                      <ClipboardCheck className="w-3 h-3" />
+                      {reviewMode ? 'Exit Review' : 'Review Mode'}
+                    </button>
+                    <button onClick={() => setData([])} className="flex items-center gap-1 text-xs text-slate-500 hover:text-red-600 font-medium transition-colors">
+                      <Layers className="w-3 h-3" />
+                      Upload New Files
+                    </button>
+                  </div>
                </div>
                
-               <div className="overflow-x-auto max-h-[600px] overflow-y-auto">
-                <table className="w-full text-sm text-left">
-                  <thead className="text-xs text-slate-500 uppercase bg-slate-50 border-b border-slate-200 sticky top-0 z-10">
-                    <tr>
-                      <th className="px-4 py-3 bg-slate-50 w-12">
-                         <div className="flex items-center justify-center">
-                            <input 
-                                type="checkbox"
-                                checked={isAllSelected}
-                                onChange={toggleSelectAll}
-                                className="w-4 h-4 text-indigo-600 rounded border-slate-300 focus:ring-indigo-500 cursor-pointer"
-                            />
-                         </div>
-                      </th>
-                      {hasSourceData && <th className="px-6 py-3 font-medium bg-slate-50 text-blue-600">NID</th>}
-                      <th className="px-6 py-3 font-medium bg-slate-50">Score</th>
-                      <th className="px-6 py-3 font-medium bg-slate-50">Risk Type</th>
-                      <th className="px-6 py-3 font-medium bg-slate-50">Content</th>
-                    </tr>
-                  </thead>
-                  <tbody className="divide-y divide-slate-100 bg-white">
-                    {filteredData.length === 0 ? (
-                      <tr>
-                        <td colSpan={hasSourceData ? 5 : 4} className="px-6 py-12 text-center text-slate-500">
-                          <div className="flex flex-col items-center gap-2">
-                            <Search className="w-8 h-8 opacity-20" />
-                            <p>No rows match the current threshold.</p>
-                          </div>
-                        </td>
-                      </tr>
-                    ) : (
-                      filteredData.map((row) => {
-                        const isSelected = selectedIds.has(row.id);
-                        return (
-                            <tr 
-                                key={row.id} 
-                                className={`transition-colors ${isSelected ? 'bg-indigo-50' : 'hover:bg-slate-50'}`}
-                            >
-                              <td className="px-4 py-4 whitespace-nowrap">
-                                <div className="flex items-center justify-center">
-                                    <input 
-                                        type="checkbox"
-                                        checked={isSelected}
-                                        onChange={() => toggleSelectRow(row.id)}
-                                        className="w-4 h-4 text-indigo-600 rounded border-slate-300 focus:ring-indigo-500 cursor-pointer"
-                                    />
-                                </div>
-                              </td>
-                              {hasSourceData && (
-                                  <td className="px-6 py-4 whitespace-nowrap font-mono text-xs text-blue-600 font-bold">
-                                      {row.nid || '-'}
-                                  </td>
-                              )}
-                              <td className="px-6 py-4 whitespace-nowrap">
-                                <span className={`
-                                  inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border
-                                  ${row.riskScore > 0.5 ? 'bg-red-100 text-red-800 border-red-200' : 
-                                    row.riskScore > 0.001 ? 'bg-amber-100 text-amber-800 border-amber-200' : 
-                                    'bg-green-100 text-green-800 border-green-200'}
-                                `}>
-                                  {row.riskScore.toFixed(7)}
-                                </span>
-                              </td>
-                              <td className="px-6 py-4 whitespace-nowrap text-slate-600">
-                                {row.riskType}
-                              </td>
-                              <td className="px-6 py-4 text-slate-700 min-w-[300px]">
-                                {row.content}
-                              </td>
-                            </tr>
-                        );
-                      })
-                    )}
-                  </tbody>
-                </table>
-              </div>
+               {reviewMode && (
+                 <ReviewPanel
+                   row={activeRow}
+                   position={activeIndex}
+                   total={filteredData.length}
+                   reviewedCount={reviewedCount}
+                   riskTypes={riskTypeCounts.map(([type]) => type)}
+                   onChange={(patch) => activeRow && updateReview(activeRow.id, patch)}
+                   onPrev={() => moveActive(-1)}
+                   onNext={() => moveActive(1)}
+                 />
+               )}
+
+               <ResultsTable
+                 rows={filteredData}
+                 hasSourceData={hasSourceData}
+                 selectedIds={selectedIds}
+                 isAllSelected={isAllSelected}
+                 onToggleRow={toggleSelectRow}
+                 onToggleAll={toggleSelectAll}
+                 sort={sort}
+                 onSortChange={setSort}
+                 columnFilters={filter.columns}
+                 onColumnFilterChange={(key, value) => setFilter(prev => ({ ...prev, columns: { ...prev.columns, [key]: value } }))}
+                 search={effectiveFilter.search}
+                 reviewMode={reviewMode}
+                 activeRowId={activeRowId}
+                 onActivateRow={setActiveRowId}
+               />
             </div>
           </div>
         )}
@@ -427,45 +822,18 @@ ${caseText}`;
 
       {/* Report Modal */}
       {showReport && (
-        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm animate-in fade-in duration-200">
-          <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl overflow-hidden flex flex-col max-h-[90vh]">
-            <div className="flex justify-between items-center px-6 py-4 border-b border-slate-100">
-              <h3 className="text-lg font-bold text-slate-800">Risk Summary Report</h3>
-              <button 
-                onClick={() => setShowReport(false)}
-                className="p-1 rounded-full hover:bg-slate-100 text-slate-500 transition-colors"
-              >
-                <X className="w-5 h-5" />
-              </button>
-            </div>
-            
-            <div className="p-6 overflow-y-auto bg-slate-50">
-              <div className="bg-white border border-slate-200 rounded-lg p-6 font-mono text-sm leading-relaxed text-slate-700 whitespace-pre-wrap shadow-sm">
-                {reportContent}
-              </div>
-            </div>
-
-            <div className="px-6 py-4 border-t border-slate-100 bg-white flex justify-end gap-3">
-              <button 
-                onClick={() => setShowReport(false)}
-                className="px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-50 rounded-lg transition-colors"
-              >
-                Close
-              </button>
-              <button 
-                onClick={() => {
-                  navigator.clipboard.writeText(reportContent);
-                  alert("Report copied to clipboard!");
-                }}
-                className="px-4 py-2 text-sm font-medium text-white bg-slate-900 hover:bg-slate-800 rounded-lg transition-colors flex items-center gap-2"
-              >
-                <Copy className="w-4 h-4" />
-                Copy Text
-              </button>
-            </div>
-          </div>
-        </div>
+        <ReportModal
+          allRows={data}
+          reportRows={reportRows}
+          selectionOnly={selectedIds.size > 0}
+          thresholds={filter.thresholds}
+          nidSourceFiles={mappingFiles.map(entry => entry.file.name)}
+          onClose={() => setShowReport(false)}
+        />
       )}
+
+      {mappingWizard}
+      {sheetPicker}
     </section>
   );
 };
\ No newline at end of file
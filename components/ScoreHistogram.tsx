@@ -0,0 +1,170 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { RiskAnalysisRow } from '../types';
+import { buildHistogram, scoreToPosition, positionToScore, OTHER_TYPE } from '../utils/histogram';
+import { ThresholdSet, thresholdFor } from '../utils/thresholds';
+import { BarChart2 } from 'lucide-react';
+
+interface ScoreHistogramProps {
+  data: RiskAnalysisRow[];
+  thresholds: ThresholdSet;
+  onThresholdChange: (threshold: number) => void; // Sets the default threshold
+}
+
+const BINS = 60;
+const MAX_TYPES = 8;
+const WIDTH = 800;
+const HEIGHT = 240;
+const PADDING = { top: 12, right: 56, bottom: 28, left: 48 };
+const PLOT_W = WIDTH - PADDING.left - PADDING.right;
+const PLOT_H = HEIGHT - PADDING.top - PADDING.bottom;
+
+export const TYPE_COLORS = ['#6366f1', '#f59e0b', '#ef4444', '#10b981', '#3b82f6', '#ec4899', '#8b5cf6', '#94a3b8'];
+
+const formatScore = (score: number) => (score >= 0.01 ? score.toFixed(3) : score.toExponential(1));
+
+// Plain SVG so no charting dependency (or network access) is needed
+export const ScoreHistogram: React.FC<ScoreHistogramProps> = ({ data, thresholds, onThresholdChange }) => {
+  const [logScale, setLogScale] = useState(true);
+  const [dragging, setDragging] = useState(false);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const histogram = useMemo(
+    () => buildHistogram(data, { bins: BINS, log: logScale, maxTypes: MAX_TYPES }),
+    [data, logScale]
+  );
+
+  const binWidth = PLOT_W / BINS;
+  const xFor = (score: number) => PADDING.left + scoreToPosition(score, histogram.scale) * PLOT_W;
+  const yForCount = (count: number) => PADDING.top + PLOT_H - (histogram.maxBinTotal > 0 ? (count / histogram.maxBinTotal) * PLOT_H : 0);
+  const yForAbove = (count: number) => PADDING.top + PLOT_H - (histogram.rowCount > 0 ? (count / histogram.rowCount) * PLOT_H : 0);
+
+  const cumulativePath = histogram.above
+    .map((count, i) => `${i === 0 ? 'M' : 'L'}${(PADDING.left + i * binWidth).toFixed(1)},${yForAbove(count).toFixed(1)}`)
+    .join(' ');
+
+  const threshold = thresholds.defaultThreshold;
+  const thresholdX = xFor(threshold);
+  const flaggedCount = useMemo(() => {
+    let count = 0;
+    for (const row of data) if (row.riskScore >= thresholdFor(thresholds, row.riskType)) count++;
+    return count;
+  }, [data, thresholds]);
+
+  // Stacked types with a cutoff of their own get a marker in their colour
+  const typeMarkers = histogram.types
+    .map((type, typeIndex) => ({ type, typeIndex, cutoff: thresholdFor(thresholds, type) }))
+    .filter(m => m.type !== OTHER_TYPE && m.cutoff !== threshold);
+
+  const setThresholdFromEvent = (clientX: number) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    const viewX = ((clientX - rect.left) / rect.width) * WIDTH;
+    const score = positionToScore((viewX - PADDING.left) / PLOT_W, histogram.scale);
+    onThresholdChange(parseFloat(score.toPrecision(3)));
+  };
+
+  const tickCount = 5;
+  const ticks = Array.from({ length: tickCount + 1 }, (_, i) => positionToScore(i / tickCount, histogram.scale));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <label className="text-sm font-semibold text-slate-700 flex items-center gap-2">
+          <BarChart2 className="w-4 h-4" />
+          Score Distribution
+        </label>
+        <div className="flex items-center gap-4">
+          <span className="text-xs text-slate-500">
+            <span className="font-bold text-indigo-600">{flaggedCount}</span> rows at or above their type's cutoff
+          </span>
+          <label className="flex items-center gap-2 text-xs text-slate-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={logScale}
+              onChange={(e) => setLogScale(e.target.checked)}
+              className="w-4 h-4 text-indigo-600 rounded border-slate-300 focus:ring-indigo-500"
+            />
+            Log scale
+          </label>
+        </div>
+      </div>
+
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full bg-white border border-slate-200 rounded-lg select-none cursor-crosshair"
+        onMouseDown={(e) => { setDragging(true); setThresholdFromEvent(e.clientX); }}
+        onMouseMove={(e) => dragging && setThresholdFromEvent(e.clientX)}
+        onMouseUp={() => setDragging(false)}
+        onMouseLeave={() => setDragging(false)}
+      >
+        {/* Stacked bars */}
+        {histogram.counts.map((binCounts, bin) => {
+          let offset = 0;
+          return binCounts.map((count, typeIndex) => {
+            if (count === 0) return null;
+            const y = yForCount(offset + count);
+            const h = yForCount(offset) - y;
+            offset += count;
+            return (
+              <rect
+                key={`${bin}-${typeIndex}`}
+                x={PADDING.left + bin * binWidth + 0.5}
+                y={y}
+                width={Math.max(binWidth - 1, 0.5)}
+                height={h}
+                fill={TYPE_COLORS[typeIndex % TYPE_COLORS.length]}
+              >
+                <title>{`${histogram.types[typeIndex]}: ${count} rows in [${formatScore(histogram.edges[bin])}, ${formatScore(histogram.edges[bin + 1])})`}</title>
+              </rect>
+            );
+          });
+        })}
+
+        {/* Cumulative "rows above" curve, right axis */}
+        <path d={cumulativePath} fill="none" stroke="#0f172a" strokeWidth={1.5} strokeDasharray="4 3" />
+
+        {/* Axes */}
+        <line x1={PADDING.left} y1={PADDING.top + PLOT_H} x2={PADDING.left + PLOT_W} y2={PADDING.top + PLOT_H} stroke="#cbd5e1" />
+        {ticks.map((tick, i) => (
+          <text key={i} x={PADDING.left + (i / tickCount) * PLOT_W} y={HEIGHT - 8} textAnchor="middle" fontSize={10} fill="#64748b">
+            {formatScore(tick)}
+          </text>
+        ))}
+        <text x={PADDING.left - 6} y={PADDING.top + 8} textAnchor="end" fontSize={10} fill="#64748b">{histogram.maxBinTotal}</text>
+        <text x={PADDING.left - 6} y={PADDING.top + PLOT_H} textAnchor="end" fontSize={10} fill="#64748b">0</text>
+        <text x={PADDING.left + PLOT_W + 6} y={PADDING.top + 8} fontSize={10} fill="#0f172a">{histogram.rowCount}</text>
+        <text x={PADDING.left + PLOT_W + 6} y={PADDING.top + PLOT_H} fontSize={10} fill="#0f172a">0</text>
+
+        {/* Per-type cutoffs */}
+        {typeMarkers.map(({ type, typeIndex, cutoff }) => (
+          <line
+            key={type}
+            x1={xFor(cutoff)} y1={PADDING.top} x2={xFor(cutoff)} y2={PADDING.top + PLOT_H}
+            stroke={TYPE_COLORS[typeIndex % TYPE_COLORS.length]} strokeWidth={1.5} strokeDasharray="2 2"
+          >
+            <title>{`${type}: ≥ ${cutoff}`}</title>
+          </line>
+        ))}
+
+        {/* Default threshold */}
+        <line x1={thresholdX} y1={PADDING.top} x2={thresholdX} y2={PADDING.top + PLOT_H} stroke="#dc2626" strokeWidth={2} />
+        <text x={thresholdX + 4} y={PADDING.top + 10} fontSize={10} fill="#dc2626" fontWeight="bold">≥ {threshold}</text>
+      </svg>
+
+      <div className="flex flex-wrap gap-3 text-xs text-slate-600">
+        {histogram.types.map((type, i) => (
+          <span key={type} className="flex items-center gap-1">
+            <span className="w-3 h-3 rounded-sm" style={{ background: TYPE_COLORS[i % TYPE_COLORS.length] }} />
+            {type}
+          </span>
+        ))}
+        <span className="flex items-center gap-1">
+          <span className="w-4 border-t-2 border-dashed border-slate-900" />
+          Rows ≥ score (right axis)
+        </span>
+        <span className="text-slate-400">Click or drag on the chart to set the default threshold.</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { SESSION_EXTENSION } from '../utils/session';
+import { Save, FolderOpen, Loader2 } from 'lucide-react';
+
+interface SessionBarProps {
+  onSave: () => Promise<void>;
+  onOpen: (file: File) => Promise<void>;
+  disabled?: boolean;
+}
+
+// Saving and opening a whole session as one project file, e.g. to hand review work to the next shift
+export const SessionBar: React.FC<SessionBarProps> = ({ onSave, onOpen, disabled }) => {
+  const [busy, setBusy] = useState<'save' | 'open' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (kind: 'save' | 'open', action: () => Promise<void>) => {
+    setBusy(kind);
+    setError(null);
+    try {
+      await action();
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Session could not be processed.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center justify-end gap-2">
+      {error && <span className="text-xs text-red-600 bg-red-50 px-2 py-1 rounded-lg mr-auto">{error}</span>}
+      <label
+        className={`flex items-center gap-2 px-3 py-1.5 rounded-lg border border-slate-200 bg-white text-slate-600 hover:bg-slate-50 text-sm font-medium transition-colors cursor-pointer
+          ${disabled || busy ? 'opacity-50 pointer-events-none' : ''}`}
+        title="Restore a saved session file"
+      >
+        {busy === 'open' ? <Loader2 className="w-4 h-4 animate-spin" /> : <FolderOpen className="w-4 h-4" />}
+        Open Session
+        <input
+          type="file"
+          accept={`${SESSION_EXTENSION},.zip`}
+          className="hidden"
+          disabled={disabled || !!busy}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) run('open', () => onOpen(file));
+          }}
+        />
+      </label>
+      <button
+        onClick={() => run('save', onSave)}
+        disabled={disabled || !!busy}
+        className="flex items-center gap-2 px-3 py-1.5 rounded-lg border border-slate-200 bg-white text-slate-600 hover:bg-slate-50 text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        title="Save data, settings, selection and verdicts of both modules to one file"
+      >
+        {busy === 'save' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+        Save Session
+      </button>
+    </div>
+  );
+};
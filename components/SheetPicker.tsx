@@ -0,0 +1,98 @@
+import React, { useRef, useState } from 'react';
+import { SheetSelectionRequiredError } from '../utils/workbook';
+import { Sheet, X } from 'lucide-react';
+
+interface SheetPickerProps {
+  request: SheetSelectionRequiredError;
+  onConfirm: (sheet: string) => void;
+  onCancel: () => void;
+}
+
+export const SheetPicker: React.FC<SheetPickerProps> = ({ request, onConfirm, onCancel }) => {
+  const [sheet, setSheet] = useState(request.sheets[0]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="flex justify-between items-center px-6 py-4 border-b border-slate-100">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+              <Sheet className="w-5 h-5 text-green-600" />
+              Choose a Sheet
+            </h3>
+            <p className="text-xs text-slate-500 mt-1">
+              <span className="font-medium text-slate-700">{request.fileName}</span> has {request.sheets.length} sheets.
+            </p>
+          </div>
+          <button
+            onClick={onCancel}
+            className="p-1 rounded-full hover:bg-slate-100 text-slate-500 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-2 overflow-y-auto">
+          {request.sheets.map(name => (
+            <label key={name} className="flex items-center gap-3 px-3 py-2 rounded-lg border border-slate-200 hover:bg-slate-50 cursor-pointer text-sm text-slate-700">
+              <input
+                type="radio"
+                name="sheet"
+                checked={sheet === name}
+                onChange={() => setSheet(name)}
+                className="w-4 h-4 text-blue-600 border-slate-300 focus:ring-blue-500"
+              />
+              {name}
+            </label>
+          ))}
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-100 bg-white flex justify-end gap-3">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-50 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(sheet)}
+            className="px-4 py-2 text-sm font-medium text-white bg-slate-900 hover:bg-slate-800 rounded-lg transition-colors"
+          >
+            Read Sheet
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Same pattern as the column mapping wizard:
+// `requestSheet(error)` opens the picker and resolves with the chosen sheet (or null on cancel).
+export const useSheetPicker = () => {
+  const [request, setRequest] = useState<SheetSelectionRequiredError | null>(null);
+  const resolverRef = useRef<((sheet: string | null) => void) | null>(null);
+
+  const requestSheet = (error: SheetSelectionRequiredError) => {
+    return new Promise<string | null>(resolve => {
+      resolverRef.current = resolve;
+      setRequest(error);
+    });
+  };
+
+  const settle = (sheet: string | null) => {
+    resolverRef.current?.(sheet);
+    resolverRef.current = null;
+    setRequest(null);
+  };
+
+  const picker = request ? (
+    <SheetPicker
+      key={request.fileName}
+      request={request}
+      onConfirm={(sheet) => settle(sheet)}
+      onCancel={() => settle(null)}
+    />
+  ) : null;
+
+  return { requestSheet, picker };
+};
@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { StrategyConfig, OutputColumn } from '../types';
+import { DEFAULT_STRATEGY_CONFIG, loadStrategyPresets, saveStrategyPresets, getOutputHeaders } from '../utils/strategyPresets';
+import { Settings, Plus, Trash2, Save } from 'lucide-react';
+
+interface StrategyConfigPanelProps {
+  config: StrategyConfig;
+  onChange: (config: StrategyConfig) => void;
+  disabled?: boolean;
+}
+
+export const StrategyConfigPanel: React.FC<StrategyConfigPanelProps> = ({ config, onChange, disabled }) => {
+  const [presets, setPresets] = useState<StrategyConfig[]>(() => loadStrategyPresets());
+
+  const allPresets = [DEFAULT_STRATEGY_CONFIG, ...presets];
+  const isSavedPreset = presets.some(p => p.id === config.id);
+
+  const updatePresets = (next: StrategyConfig[]) => {
+    setPresets(next);
+    saveStrategyPresets(next);
+  };
+
+  const handlePresetSelect = (id: string) => {
+    const preset = allPresets.find(p => p.id === id);
+    if (preset) onChange(preset);
+  };
+
+  const handleSavePreset = () => {
+    const name = prompt("Preset name:", isSavedPreset ? config.name : config.strategy);
+    if (!name) return;
+
+    const existing = presets.find(p => p.name === name);
+    const saved: StrategyConfig = { ...config, id: existing?.id || Math.random().toString(36).substring(2, 9), name };
+    updatePresets(existing ? presets.map(p => (p.id === existing.id ? saved : p)) : [...presets, saved]);
+    onChange(saved);
+  };
+
+  const handleDeletePreset = () => {
+    if (!isSavedPreset) return;
+    updatePresets(presets.filter(p => p.id !== config.id));
+    onChange(DEFAULT_STRATEGY_CONFIG);
+  };
+
+  const updateColumn = (index: number, patch: Partial<OutputColumn>) => {
+    const extraColumns = config.extraColumns.map((c, i) => (i === index ? { ...c, ...patch } : c));
+    onChange({ ...config, extraColumns });
+  };
+
+  const addColumn = () => {
+    onChange({ ...config, extraColumns: [...config.extraColumns, { header: '', source: 'column', column: '' }] });
+  };
+
+  const removeColumn = (index: number) => {
+    onChange({ ...config, extraColumns: config.extraColumns.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 p-4 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <label className="text-sm font-semibold text-slate-700 flex items-center gap-2">
+          <Settings className="w-4 h-4" />
+          Strategy Config
+        </label>
+        <div className="flex items-center gap-2">
+          <select
+            value={allPresets.some(p => p.id === config.id) ? config.id : ''}
+            onChange={(e) => handlePresetSelect(e.target.value)}
+            disabled={disabled}
+            className="px-3 py-1.5 text-sm border border-slate-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 outline-none"
+          >
+            {!allPresets.some(p => p.id === config.id) && <option value="">(unsaved)</option>}
+            {allPresets.map(p => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleSavePreset}
+            disabled={disabled}
+            className="p-2 text-slate-400 hover:text-blue-600 hover:bg-slate-100 rounded-lg transition-colors disabled:opacity-50"
+            title="Save as preset"
+          >
+            <Save className="w-4 h-4" />
+          </button>
+          <button
+            onClick={handleDeletePreset}
+            disabled={disabled || !isSavedPreset}
+            className="p-2 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+            title="Delete preset"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">Strategy value</label>
+          <input
+            type="text"
+            value={config.strategy}
+            onChange={(e) => onChange({ ...config, strategy: e.target.value })}
+            disabled={disabled}
+            className="w-full px-3 py-1.5 text-sm font-mono border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-500 mb-1">Take strategy from column (optional)</label>
+          <input
+            type="text"
+            value={config.strategyColumn || ''}
+            placeholder="e.g. strategy"
+            onChange={(e) => onChange({ ...config, strategyColumn: e.target.value || undefined })}
+            disabled={disabled}
+            className="w-full px-3 py-1.5 text-sm font-mono border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-medium text-slate-500">Extra output columns</span>
+          <button
+            onClick={addColumn}
+            disabled={disabled}
+            className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-800 font-medium disabled:opacity-50"
+          >
+            <Plus className="w-3 h-3" /> Add column
+          </button>
+        </div>
+        {config.extraColumns.map((col, index) => (
+          <div key={index} className="flex flex-wrap items-center gap-2">
+            <input
+              type="text"
+              value={col.header}
+              placeholder="Output header"
+              onChange={(e) => updateColumn(index, { header: e.target.value })}
+              disabled={disabled}
+              className="flex-1 min-w-[120px] px-3 py-1.5 text-sm font-mono border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+            />
+            <select
+              value={col.source}
+              onChange={(e) => updateColumn(index, { source: e.target.value as OutputColumn['source'] })}
+              disabled={disabled}
+              className="px-3 py-1.5 text-sm border border-slate-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 outline-none"
+            >
+              <option value="column">From column</option>
+              <option value="fileName">Source file name</option>
+            </select>
+            {col.source === 'column' && (
+              <input
+                type="text"
+                value={col.column || ''}
+                placeholder="Source column, e.g. NID"
+                onChange={(e) => updateColumn(index, { column: e.target.value })}
+                disabled={disabled}
+                className="flex-1 min-w-[120px] px-3 py-1.5 text-sm font-mono border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+            )}
+            <button
+              onClick={() => removeColumn(index)}
+              disabled={disabled}
+              className="p-2 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors"
+              title="Remove column"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+        <p className="text-xs text-slate-400 font-mono">
+          Output header: {getOutputHeaders(config).join(' ⇥ ')}
+        </p>
+      </div>
+    </div>
+  );
+};
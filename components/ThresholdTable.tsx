@@ -0,0 +1,112 @@
+import React, { useRef } from 'react';
+import { ThresholdSet, setTypeThreshold, downloadThresholds, parseThresholds } from '../utils/thresholds';
+import { Sliders, Download, Upload, RotateCcw } from 'lucide-react';
+
+interface ThresholdTableProps {
+  thresholds: ThresholdSet;
+  onChange: (thresholds: ThresholdSet) => void;
+  riskTypeCounts: [string, number][];
+  flaggedByType: Map<string, number>; // Rows at or above each type's cutoff
+}
+
+export const ThresholdTable: React.FC<ThresholdTableProps> = ({ thresholds, onChange, riskTypeCounts, flaggedByType }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Types present in an imported set but absent from the loaded data are still listed
+  const extraTypes = Object.keys(thresholds.byType).filter(t => !riskTypeCounts.some(([type]) => type === t));
+
+  const handleImport = async (file: File) => {
+    try {
+      onChange(parseThresholds(await file.text()));
+    } catch (err: any) {
+      alert(`Could not import thresholds: ${err.message}`);
+    }
+  };
+
+  const renderRow = (type: string, count: number | null) => {
+    const override = thresholds.byType[type];
+    return (
+      <tr key={type} className="hover:bg-slate-50">
+        <td className="px-4 py-2 text-slate-700">{type}</td>
+        <td className="px-4 py-2 font-mono text-xs text-slate-500">{count ?? '-'}</td>
+        <td className="px-4 py-2">
+          <input
+            type="number"
+            value={override ?? ''}
+            placeholder={`${thresholds.defaultThreshold} (default)`}
+            step="0.00001"
+            onChange={(e) => onChange(setTypeThreshold(thresholds, type, e.target.value === '' ? null : Math.max(0, parseFloat(e.target.value) || 0)))}
+            className={`w-40 px-2 py-1 text-xs border rounded-md focus:ring-2 focus:ring-indigo-500 outline-none
+              ${override !== undefined ? 'border-indigo-300 bg-indigo-50/50' : 'border-slate-200'}`}
+          />
+        </td>
+        <td className="px-4 py-2 font-mono text-xs text-indigo-600 font-bold">{flaggedByType.get(type) ?? 0}</td>
+        <td className="px-4 py-2 text-right">
+          {override !== undefined && (
+            <button
+              onClick={() => onChange(setTypeThreshold(thresholds, type, null))}
+              className="p-1 text-slate-400 hover:text-slate-700 rounded transition-colors"
+              title="Use default"
+            >
+              <RotateCcw className="w-3 h-3" />
+            </button>
+          )}
+        </td>
+      </tr>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <label className="text-sm font-semibold text-slate-700 flex items-center gap-2">
+          <Sliders className="w-4 h-4" />
+          Per-Type Thresholds
+        </label>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center gap-1 text-xs text-slate-500 hover:text-slate-800 font-medium transition-colors"
+          >
+            <Upload className="w-3 h-3" /> Import JSON
+          </button>
+          <button
+            onClick={() => downloadThresholds(thresholds)}
+            className="flex items-center gap-1 text-xs text-indigo-600 hover:text-indigo-800 font-medium transition-colors"
+          >
+            <Download className="w-3 h-3" /> Export JSON
+          </button>
+          <input
+            type="file"
+            ref={fileInputRef}
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              if (e.target.files?.[0]) handleImport(e.target.files[0]);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      <div className="bg-white border border-slate-200 rounded-lg overflow-hidden max-h-72 overflow-y-auto">
+        <table className="w-full text-sm text-left">
+          <thead className="text-xs text-slate-500 uppercase bg-slate-50 border-b border-slate-200 sticky top-0">
+            <tr>
+              <th className="px-4 py-2 font-medium">Risk Type</th>
+              <th className="px-4 py-2 font-medium">Rows</th>
+              <th className="px-4 py-2 font-medium">Cutoff (≥)</th>
+              <th className="px-4 py-2 font-medium">Flagged</th>
+              <th className="px-4 py-2" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {riskTypeCounts.map(([type, count]) => renderRow(type, count))}
+            {extraTypes.map(type => renderRow(type, null))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-slate-400">Leave a cutoff empty to use the default threshold; unseen types also use the default.</p>
+    </div>
+  );
+};
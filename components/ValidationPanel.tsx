@@ -0,0 +1,160 @@
+import React, { useMemo, useState } from 'react';
+import { ValidationRules, ScriptName } from '../types';
+import {
+  DEFAULT_VALIDATION_RULES, SCRIPT_LABELS, loadValidationRules, saveValidationRules, checkValidationRules, compileValidator
+} from '../utils/validation';
+import { ShieldCheck, ChevronDown, ChevronRight, RotateCcw, CheckCircle, XCircle } from 'lucide-react';
+
+interface ValidationPanelProps {
+  disabled?: boolean;
+}
+
+const DEFAULT_SAMPLES = [
+  '这个商品质量很好，物流也很快',
+  '1234567890',
+  'https://example.com/item/42',
+].join('\n');
+
+// Rows failing these rules are quarantined instead of written to the output, because the
+// scoring service rejects the whole file when it meets one. Only valid rule sets are saved.
+export const ValidationPanel: React.FC<ValidationPanelProps> = ({ disabled }) => {
+  const [rules, setRules] = useState<ValidationRules>(() => loadValidationRules());
+  const [expanded, setExpanded] = useState(false);
+  const [samples, setSamples] = useState(DEFAULT_SAMPLES);
+
+  const error = checkValidationRules(rules);
+
+  const update = (patch: Partial<ValidationRules>) => {
+    const next = { ...rules, ...patch };
+    setRules(next);
+    if (!checkValidationRules(next)) saveValidationRules(next);
+  };
+
+  const preview = useMemo(() => {
+    if (error) return [];
+    const validate = compileValidator(rules);
+    return samples.split('\n').filter(Boolean).map(sample => ({ sample, failed: validate(sample) }));
+  }, [rules, samples, error]);
+
+  const renderLimit = (key: 'minLength' | 'maxLength' | 'maxBytes', label: string) => (
+    <label className="flex items-center gap-2 text-sm text-slate-600">
+      {label}
+      <input
+        type="number"
+        min="1"
+        value={rules[key] ?? ''}
+        placeholder="None"
+        onChange={(e) => update({ [key]: e.target.value === '' ? null : Math.max(1, parseInt(e.target.value, 10) || 1) })}
+        disabled={disabled}
+        className="w-24 px-2 py-1 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+      />
+    </label>
+  );
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 p-4 space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="text-sm font-semibold text-slate-700 flex items-center gap-2"
+        >
+          {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+          <ShieldCheck className="w-4 h-4" />
+          Row Validation
+        </button>
+        {expanded && (
+          <button
+            onClick={() => update(DEFAULT_VALIDATION_RULES)}
+            disabled={disabled}
+            className="flex items-center gap-1 text-xs text-slate-500 hover:text-slate-800 font-medium transition-colors disabled:opacity-50"
+          >
+            <RotateCcw className="w-3 h-3" /> Reset
+          </button>
+        )}
+      </div>
+
+      {expanded && (
+        <>
+          <div className="flex flex-wrap items-center gap-x-6 gap-y-3">
+            {renderLimit('minLength', 'Min length')}
+            {renderLimit('maxLength', 'Max length')}
+            {renderLimit('maxBytes', 'Max UTF-8 bytes')}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-x-6 gap-y-3">
+            <label className="flex items-center gap-2 text-sm text-slate-600">
+              Required script
+              <select
+                value={rules.requiredScript ?? ''}
+                onChange={(e) => update({ requiredScript: (e.target.value || null) as ScriptName | null })}
+                disabled={disabled}
+                className="px-2 py-1 text-sm border border-slate-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 outline-none"
+              >
+                <option value="">Any</option>
+                {(Object.keys(SCRIPT_LABELS) as ScriptName[]).map(script => (
+                  <option key={script} value={script}>{SCRIPT_LABELS[script]}</option>
+                ))}
+              </select>
+            </label>
+            <label className={`flex items-center gap-3 text-sm text-slate-600 ${rules.requiredScript ? '' : 'opacity-50'}`}>
+              Min share of letters
+              <input
+                type="range"
+                min="0.05"
+                max="1"
+                step="0.05"
+                value={rules.minScriptRatio}
+                onChange={(e) => update({ minScriptRatio: parseFloat(e.target.value) })}
+                disabled={disabled || !rules.requiredScript}
+                className="w-32 h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+              />
+              <span className="font-mono text-xs w-10">{Math.round(rules.minScriptRatio * 100)}%</span>
+            </label>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">Forbidden patterns (regex, one per line)</label>
+              <textarea
+                value={rules.forbiddenPatterns.join('\n')}
+                onChange={(e) => update({ forbiddenPatterns: e.target.value.split('\n') })}
+                disabled={disabled}
+                rows={4}
+                placeholder={'^\\d+$\n^https?://\\S+$\n^[\\p{P}\\s]+$'}
+                className="w-full px-3 py-1.5 text-sm font-mono border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">Test rows (one per line)</label>
+              <textarea
+                value={samples}
+                onChange={(e) => setSamples(e.target.value)}
+                rows={4}
+                className="w-full px-3 py-1.5 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+            </div>
+          </div>
+
+          {error && <p className="text-xs text-red-600 bg-red-50 p-2 rounded-lg">{error} (changes are not saved until fixed)</p>}
+
+          {preview.length > 0 && (
+            <ul className="text-xs space-y-1">
+              {preview.map((row, i) => (
+                <li key={i} className="flex items-center gap-2">
+                  {row.failed
+                    ? <XCircle className="w-3.5 h-3.5 text-amber-500 flex-shrink-0" />
+                    : <CheckCircle className="w-3.5 h-3.5 text-green-500 flex-shrink-0" />}
+                  <span className="text-slate-700 break-all">{row.sample}</span>
+                  {row.failed && <span className="text-amber-600 whitespace-nowrap">— {row.failed}</span>}
+                </li>
+              ))}
+            </ul>
+          )}
+          <p className="text-xs text-slate-400">
+            Checked after normalization. Failing rows are quarantined per file and can be downloaded separately. Applies to files processed after a change.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,11 @@
+import { useEffect, useState } from 'react';
+
+// Follows `value` once it has stopped changing for `delay` ms (e.g. while typing a search)
+export const useDebouncedValue = <T>(value: T, delay: number): T => {
+  const [debounced, setDebounced] = useState(value);
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+  return debounced;
+};
@@ -1,12 +1,133 @@
 export interface ProcessedRow {
   strategy: string;
   content: string;
+  extra?: string[]; // Values for StrategyConfig.extraColumns, in the same order
+}
+
+export type OutputColumnSource = 'column' | 'fileName';
+
+export interface OutputColumn {
+  header: string;
+  source: OutputColumnSource;
+  column?: string; // Source CSV column when source === 'column'
+}
+
+export interface StrategyConfig {
+  id: string;
+  name: string;
+  strategy: string;
+  strategyColumn?: string; // If set, a non-empty value in this column overrides `strategy`
+  extraColumns: OutputColumn[];
+}
+
+export type EmojiHandling = 'keep' | 'remove' | 'placeholder';
+
+// Rules applied to every content value before dedup and matching (see utils/normalization.ts)
+export interface NormalizationPipeline {
+  stripPrefixes: string[]; // Regex sources, matched at the start of the text
+  stripSuffixes: string[]; // Regex sources, matched at the end of the text
+  unescapeHtml: boolean;
+  nfkc: boolean; // Unicode NFKC: full-width forms and spaces become half-width
+  removeZeroWidth: boolean;
+  emoji: EmojiHandling;
+  maxLength: number | null; // Truncate to this many characters
+}
+
+export type ScriptName = 'Han' | 'Latin' | 'Cyrillic' | 'Arabic' | 'Hangul' | 'Thai';
+
+// Checks on normalized content before it is written to the Batch Processor output
+// (see utils/validation.ts); null disables a limit
+export interface ValidationRules {
+  minLength: number | null; // Characters
+  maxLength: number | null; // Characters
+  maxBytes: number | null; // UTF-8 bytes
+  forbiddenPatterns: string[]; // Regex sources; matching rows are quarantined
+  requiredScript: ScriptName | null;
+  minScriptRatio: number; // Share (0-1) of letters that must be in requiredScript
+}
+
+export interface QuarantinedRow {
+  row: number; // 1-based data row in the input file
+  content: string;
+  reason: string; // The rule that failed
+}
+
+export type TextEncodingName = 'utf-8' | 'utf-16le' | 'utf-16be' | 'gbk' | 'gb18030' | 'big5';
+
+export interface EncodingDetection {
+  encoding: TextEncodingName;
+  confidence: number; // 0-1
+  source: 'bom' | 'detected' | 'manual' | 'workbook'; // 'workbook': read from an Excel file, no decoding involved
+}
+
+export type ColumnRole = 'content' | 'score' | 'riskType' | 'nid' | 'verdict' | 'trueCategory';
+
+// Source column name assigned to each role
+export type ColumnMapping = Partial<Record<ColumnRole, string>>;
+
+export interface ParseOptions {
+  encoding?: TextEncodingName; // Manual override; detected when omitted
+  columnMapping?: ColumnMapping; // Explicit mapping from the column mapping wizard
+  sheet?: string; // Worksheet to read from an Excel workbook (required when it has several)
+  onProgress?: (loaded: number, total: number) => void; // Bytes read so far
+  signal?: AbortSignal; // Cancels parsing
+  dedup?: DedupOptions; // Batch Processor only
+  batchContent?: Map<string, string>; // Batch Processor only: content kept by other files -> file name
+  exportHistory?: Set<string>; // Batch Processor only: hashes of previously exported content
+}
+
+export interface DedupOptions {
+  nearDuplicates: boolean; // Also drop rows that are near-identical to an earlier row
+  similarity: number; // Estimated Jaccard similarity (0-1) above which rows count as near duplicates
+  crossFile: boolean; // Drop rows already kept by another file in the batch
+  againstHistory: boolean; // Drop rows whose content was exported before
+}
+
+export type SkipReason = 'empty' | 'duplicate' | 'near_duplicate' | 'other_file' | 'history';
+
+export interface SkippedRow {
+  row: number; // 1-based data row in the input file
+  reason: SkipReason;
+  content: string; // Normalized content (raw value when empty after cleaning)
+  duplicateOf?: string; // File that kept the content, for 'other_file'; the quarantined row, for repeats of invalid content
+}
+
+export interface ClusterMember {
+  content: string;
+  similarity: number; // Estimated similarity to the representative
+}
+
+export interface DuplicateCluster {
+  representative: string; // The row that was kept
+  members: ClusterMember[]; // Sample of the dropped rows
+  size: number; // Number of dropped rows (may exceed members.length)
+}
+
+export interface FileProgress {
+  id: string;
+  name: string;
+  loaded: number;
+  total: number;
+}
+
+export type ExportFormat = 'txt' | 'csv' | 'csv_gbk' | 'jsonl' | 'xlsx';
+
+// Limits of the platform the output files are uploaded to; null disables a limit
+export interface OutputSplitOptions {
+  maxRows: number | null; // Data rows per part (the header is not counted)
+  maxBytes: number | null; // UTF-8 bytes per part, header included
 }
 
 export interface ProcessingStats {
   totalRows: number;
   validRows: number;
   skippedRows: number;
+  exactDuplicates: number;
+  nearDuplicates: number;
+  crossFileDuplicates: number;
+  historyDuplicates: number;
+  quarantinedRows: number;
+  encoding?: EncodingDetection;
 }
 
 export interface ProcessedFileResult {
@@ -14,14 +135,36 @@ export interface ProcessedFileResult {
   originalName: string;
   data: ProcessedRow[];
   stats: ProcessingStats;
+  config: StrategyConfig; // Config the file was processed with (drives the output columns)
+  file?: File; // Kept so the file can be re-processed (e.g. with an encoding override)
+  clusters?: DuplicateCluster[]; // Near-duplicate clusters, when near-duplicate removal was on
+  skipped?: SkippedRow[]; // Audit of every dropped row
+  quarantine?: QuarantinedRow[]; // Rows that failed validation
   error?: string;
 }
 
+export type ReviewVerdict = 'violation' | 'not_violation' | 'unsure';
+
 export interface RiskAnalysisRow {
   id: number;
   content: string;
   riskScore: number;
   riskType: string;
-  originalRow: Record<string, string>;
+  nid?: string[]; // Every source NID posted with this content
+  nidMatch?: 'exact' | 'fuzzy';
+  sourceFile: string; // Name of the uploaded file the row came from
+  sourceRow: number; // 1-based data row within that file (header excluded)
+  contentHash: string; // Key for persisted reviews
+  // Human review
+  verdict?: ReviewVerdict;
+  correctedRiskType?: string;
+  reviewNote?: string;
+}
+// One human judgement from a labeled ground-truth file. Rows are joined by NID when present,
+// otherwise by normalized content.
+export interface GroundTruthLabel {
+  content?: string;
   nid?: string;
-}
\ No newline at end of file
+  violation: boolean;
+  trueCategory?: string;
+}
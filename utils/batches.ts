@@ -0,0 +1,131 @@
+import { RiskAnalysisRow, ProcessedFileResult, ExportFormat, OutputSplitOptions } from '../types';
+import { dbGet, dbGetAll, dbPut, dbDelete } from './db';
+import { NidMapping } from './nidMatching';
+import { processedOutputName } from './processor';
+import { saveBlob } from './exporters';
+
+// Every batch produced by the Batch Processor is remembered, so that when its scored results
+// come back the analyzer can recognise them, join NIDs and spot rows lost on the way.
+
+export interface BatchRecord {
+  id: string;
+  name: string; // Output file name sent for scoring
+  sourceFile: string;
+  createdAt: number;
+  contents: string[]; // Deduplicated, normalized content in output order
+  nids: [string, string[]][]; // Content -> NIDs from the source file
+}
+
+export interface BatchComparison {
+  scoredAndSent: number;
+  sentNotScored: string[];
+  scoredNotSent: string[];
+}
+
+// Oldest batches are dropped beyond this, to keep IndexedDB usage bounded
+const MAX_BATCHES = 50;
+// Share of a scored file's rows that must appear in a batch for it to be linked automatically
+const MIN_LINK_OVERLAP = 0.5;
+
+export const loadBatches = async (): Promise<BatchRecord[]> => {
+  try {
+    const batches = await dbGetAll<BatchRecord>('batches');
+    return batches.sort((a, b) => b.createdAt - a.createdAt);
+  } catch (err) {
+    console.warn('Failed to load saved batches:', err);
+    return [];
+  }
+};
+
+// Re-processing a file (e.g. with another encoding) keeps its id, so the record is replaced.
+// The name is the download name for the current export format and split settings.
+export const saveBatch = async (
+  result: ProcessedFileResult,
+  nids: Map<string, string[]>,
+  format: ExportFormat,
+  split: OutputSplitOptions
+) => {
+  try {
+    await dbPut<BatchRecord>('batches', {
+      id: result.id,
+      name: processedOutputName(result, format, split),
+      sourceFile: result.originalName,
+      createdAt: Date.now(),
+      contents: result.data.map(row => row.content),
+      nids: Array.from(nids.entries()),
+    });
+    const batches = await loadBatches();
+    await Promise.all(batches.slice(MAX_BATCHES).map(batch => dbDelete('batches', batch.id)));
+  } catch (err) {
+    console.error('Failed to save batch:', err);
+  }
+};
+
+// After a download, so the name matches the file actually sent for scoring
+export const renameBatch = async (id: string, name: string) => {
+  try {
+    const batch = await dbGet<BatchRecord>('batches', id);
+    if (batch && batch.name !== name) await dbPut<BatchRecord>('batches', { ...batch, name });
+  } catch (err) {
+    console.error('Failed to rename batch:', err);
+  }
+};
+
+export const deleteBatch = (id: string) => dbDelete('batches', id);
+
+export const batchToMapping = (batch: BatchRecord): NidMapping => new Map(batch.nids);
+
+// Picks the batch containing the largest share of the rows, if it is large enough
+export const findBatchForRows = (rows: RiskAnalysisRow[], batches: BatchRecord[]): BatchRecord | null => {
+  if (rows.length === 0) return null;
+  let best: BatchRecord | null = null;
+  let bestOverlap = 0;
+  for (const batch of batches) {
+    const contents = new Set(batch.contents);
+    let found = 0;
+    for (const row of rows) if (contents.has(row.content)) found++;
+    const overlap = found / rows.length;
+    if (overlap > bestOverlap) {
+      best = batch;
+      bestOverlap = overlap;
+    }
+  }
+  return bestOverlap >= MIN_LINK_OVERLAP ? best : null;
+};
+
+export const compareWithBatch = (rows: RiskAnalysisRow[], batch: BatchRecord): BatchComparison => {
+  const sent = new Set(batch.contents);
+  const scored = new Set<string>();
+  const scoredNotSent: string[] = [];
+  for (const row of rows) {
+    if (scored.has(row.content)) continue;
+    scored.add(row.content);
+    if (!sent.has(row.content)) scoredNotSent.push(row.content);
+  }
+  const sentNotScored = batch.contents.filter(content => !scored.has(content));
+  return { scoredAndSent: scored.size - scoredNotSent.length, sentNotScored, scoredNotSent };
+};
+
+// Auto-links each scored file (rows grouped by sourceFile) to its best batch
+export const linkBatches = (rows: RiskAnalysisRow[], batches: BatchRecord[]): Record<string, string | null> => {
+  const byFile = groupRowsByFile(rows);
+  const links: Record<string, string | null> = {};
+  byFile.forEach((fileRows, fileName) => {
+    links[fileName] = findBatchForRows(fileRows, batches)?.id ?? null;
+  });
+  return links;
+};
+
+export const groupRowsByFile = (rows: RiskAnalysisRow[]): Map<string, RiskAnalysisRow[]> => {
+  const byFile = new Map<string, RiskAnalysisRow[]>();
+  for (const row of rows) {
+    const list = byFile.get(row.sourceFile);
+    if (list) list.push(row);
+    else byFile.set(row.sourceFile, [row]);
+  }
+  return byFile;
+};
+
+export const downloadContentList = (contents: string[], filename: string) => {
+  saveBlob(new Blob([contents.join('\n')], { type: 'text/plain;charset=utf-8' }), filename);
+};
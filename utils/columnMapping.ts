@@ -0,0 +1,125 @@
+import { ColumnMapping, ColumnRole } from '../types';
+
+const MAPPINGS_KEY = 'risk_review.columnMappings';
+const SAMPLE_ROW_COUNT = 5;
+
+export const COLUMN_ROLE_LABELS: Record<ColumnRole, string> = {
+  content: 'Content',
+  score: 'Risk Score',
+  riskType: 'Risk Type',
+  nid: 'NID',
+  verdict: 'Human Verdict',
+  trueCategory: 'True Category',
+};
+
+// Thrown by the parsers when a required column cannot be identified automatically.
+// Carries everything the mapping wizard needs to let the user assign the roles by hand.
+export class ColumnMappingRequiredError extends Error {
+  constructor(
+    public fileName: string,
+    public fields: string[],
+    public sampleRows: Record<string, string>[],
+    public requiredRoles: ColumnRole[],
+    public optionalRoles: ColumnRole[],
+    public detected: ColumnMapping
+  ) {
+    const missing = requiredRoles.filter(r => !detected[r]).map(r => COLUMN_ROLE_LABELS[r]).join(', ');
+    const available = fields.map(f => `'${f}'`).join(', ');
+    super(`Could not find column(s) for: ${missing}. Found columns: ${available}`);
+    this.name = 'ColumnMappingRequiredError';
+  }
+}
+
+// Auto-detection of the known upstream header names
+const detectors: Record<ColumnRole, (fields: string[]) => string | undefined> = {
+  content: (fields) =>
+    fields.find(f => ['content', '内容'].some(k => f.trim() === k)) ||
+    fields.find(f => f.trim().includes('内容')) ||
+    fields.find(f => f.trim().includes('content')),
+  score: (fields) =>
+    fields.find(f => f.includes('风险得分')) ||
+    fields.find(f => f.includes('文心安全算子') || f.includes('Risk Score')),
+  riskType: (fields) =>
+    fields.find(f => f.trim() === '文心安全算子V2-一级风险类型') ||
+    fields.find(f => f.trim().includes('一级风险类型')),
+  nid: (fields) =>
+    fields.find(f => f.trim().toUpperCase() === 'NID' || f.includes('业务方id')),
+  verdict: (fields) =>
+    fields.find(f => ['verdict', 'label', '标注结果', '人工结论', '是否违规'].some(k => f.trim().toLowerCase() === k)) ||
+    fields.find(f => f.includes('标注') || f.includes('人工')),
+  trueCategory: (fields) =>
+    fields.find(f => ['true_category', 'category', '真实类别', '人工类别'].some(k => f.trim().toLowerCase() === k)),
+};
+
+// Mappings are remembered per header layout, so the same upstream export maps itself next time
+export const getHeaderSignature = (fields: string[]): string => {
+  return fields.map(f => f.trim()).sort().join('\u0001');
+};
+
+export const loadSavedMappings = (): Record<string, ColumnMapping> => {
+  try {
+    const raw = localStorage.getItem(MAPPINGS_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch (err) {
+    console.warn('Failed to load saved column mappings:', err);
+    return {};
+  }
+};
+
+export const saveColumnMapping = (fields: string[], mapping: ColumnMapping) => {
+  const saved = loadSavedMappings();
+  const signature = getHeaderSignature(fields);
+  saved[signature] = { ...saved[signature], ...mapping };
+  localStorage.setItem(MAPPINGS_KEY, JSON.stringify(saved));
+};
+
+// Resolves each role from (in order) the explicit mapping, the saved mapping for this header
+// layout, then auto-detection. Throws ColumnMappingRequiredError if a required role is unresolved.
+// Saved mappings are passed in because this also runs inside the parser worker.
+export const resolveColumns = (
+  fileName: string,
+  fields: string[],
+  rows: Record<string, string>[],
+  requiredRoles: ColumnRole[],
+  optionalRoles: ColumnRole[],
+  savedMappings: Record<string, ColumnMapping>,
+  explicit?: ColumnMapping
+): ColumnMapping => {
+  const saved = savedMappings[getHeaderSignature(fields)] || {};
+  const resolved: ColumnMapping = {};
+
+  [...requiredRoles, ...optionalRoles].forEach(role => {
+    const candidates = [explicit?.[role], saved[role]];
+    resolved[role] = candidates.find(c => c && fields.includes(c)) || detectors[role](fields);
+  });
+
+  if (requiredRoles.some(role => !resolved[role])) {
+    throw new ColumnMappingRequiredError(
+      fileName,
+      fields,
+      rows.slice(0, SAMPLE_ROW_COUNT),
+      requiredRoles,
+      optionalRoles,
+      resolved
+    );
+  }
+  return resolved;
+};
+
+// Runs a parser, asking the user for a column mapping whenever it cannot resolve the columns
+export const parseWithColumnMapping = async <T>(
+  parse: (mapping?: ColumnMapping) => Promise<T>,
+  requestMapping: (error: ColumnMappingRequiredError) => Promise<ColumnMapping | null>
+): Promise<T> => {
+  let mapping: ColumnMapping | undefined;
+  while (true) {
+    try {
+      return await parse(mapping);
+    } catch (err) {
+      if (!(err instanceof ColumnMappingRequiredError)) throw err;
+      const chosen = await requestMapping(err);
+      if (!chosen) throw new Error(`Column mapping cancelled. ${err.message}`);
+      mapping = chosen;
+    }
+  }
+};
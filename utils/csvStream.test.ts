@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { createCsvChunkParser, uniqueHeaders, MAX_RECORD_CHARS } from './csvStream';
+
+// Feeds the text in the given pieces and returns every parsed record
+const parseChunks = (chunks: string[]) => {
+  const rows: string[][] = [];
+  const parser = createCsvChunkParser(batch => rows.push(...batch));
+  chunks.forEach(chunk => parser.push(chunk));
+  parser.finish();
+  return rows;
+};
+
+// Every way of cutting the text in two must give the same records
+const expectSplitInvariant = (text: string, expected: string[][]) => {
+  for (let i = 0; i < text.length; i++) {
+    expect(parseChunks([text.slice(0, i), text.slice(i)]), `split at ${i}`).toEqual(expected);
+  }
+};
+
+describe('createCsvChunkParser', () => {
+  it('keeps a quoted newline inside its field across chunk boundaries', () => {
+    expectSplitInvariant('id,text\n1,"line one\nline two"\n2,plain\n', [
+      ['id', 'text'],
+      ['1', 'line one\nline two'],
+      ['2', 'plain'],
+    ]);
+  });
+
+  it('keeps escaped quotes split across chunks', () => {
+    expectSplitInvariant('a,b\n"say ""hi""",x\n', [
+      ['a', 'b'],
+      ['say "hi"', 'x'],
+    ]);
+  });
+
+  it('treats CRLF and lone CR as record boundaries', () => {
+    expectSplitInvariant('a,b\r\n1,2\r3,4\n5,6', [
+      ['a', 'b'],
+      ['1', '2'],
+      ['3', '4'],
+      ['5', '6'],
+    ]);
+  });
+
+  it('ends the last record at a trailing lone CR', () => {
+    expectSplitInvariant('a,b\r1,2\r', [
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+
+  it('treats a quote in the middle of a field as a literal character', () => {
+    expectSplitInvariant('a,b\n5" screen,x\n2,y\n', [
+      ['a', 'b'],
+      ['5" screen', 'x'],
+      ['2', 'y'],
+    ]);
+  });
+
+  it('uses the delimiter detected in the first chunk for later chunks', () => {
+    expect(parseChunks(['a;b\n1;2\n', '3;4\n'])).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+      ['3', '4'],
+    ]);
+  });
+
+  it('fails clearly when a record never ends', () => {
+    const parser = createCsvChunkParser(() => {});
+    const chunk = 'x'.repeat(1024 * 1024);
+    expect(() => {
+      parser.push('"unclosed');
+      for (let size = 0; size <= MAX_RECORD_CHARS; size += chunk.length) parser.push(chunk);
+    }).toThrow(/longer than/);
+  });
+});
+
+describe('uniqueHeaders', () => {
+  it('renames duplicates without colliding with existing names', () => {
+    expect(uniqueHeaders(['a', 'a_1', 'a', 'b'])).toEqual(['a', 'a_1', 'a_1_1', 'b']);
+    expect(uniqueHeaders(['x', 'x', 'x'])).toEqual(['x', 'x_1', 'x_2']);
+  });
+});
@@ -0,0 +1,131 @@
+import Papa from 'papaparse';
+
+// Incremental CSV parsing for decoded text arriving in chunks.
+// A small scanner finds record boundaries (\n, \r\n or a lone \r outside quoted fields) and Papa
+// parses each run of complete records; the trailing partial record is carried over to the next
+// push. The scan position and quote state are kept across pushes, so each character is scanned once.
+// Papa assumes one line ending per parse, so record terminators are rewritten to \n before
+// each run is parsed; line breaks inside quoted fields are left as they are.
+
+// A record this long almost always means an unclosed quote or a file without line breaks
+export const MAX_RECORD_CHARS = 32 * 1024 * 1024;
+
+const QUOTE = 34; // '"'
+const LF = 10;
+const CR = 13;
+
+const DELIMITER_SAMPLE_CHARS = 64 * 1024;
+
+export const createCsvChunkParser = (onRows: (rows: string[][]) => void) => {
+  let carry = '';
+  let scanned = 0; // Characters of carry already scanned
+  let crBreaks: number[] = []; // Positions in carry of \r that end a record (alone or before \n)
+  let inQuotes = false;
+  let atFieldStart = true;
+  let delimiter: string | undefined;
+  let delimiterCode = -1;
+
+  const parseComplete = (text: string) => {
+    if (!text) return;
+    const result = Papa.parse(text, { delimiter, newline: '\n', skipEmptyLines: true });
+    onRows(result.data as string[][]);
+  };
+
+  // Like Papa, a quote only opens a quoted field at the start of a field; elsewhere it is literal
+  const scan = () => {
+    let boundary = 0;
+    let i = scanned;
+    for (; i < carry.length; i++) {
+      const ch = carry.charCodeAt(i);
+      if (inQuotes) {
+        if (ch !== QUOTE) continue;
+        if (i + 1 === carry.length) break; // "" or closing quote: decided by the next push
+        if (carry.charCodeAt(i + 1) === QUOTE) i++;
+        else inQuotes = false;
+        atFieldStart = false;
+      } else if (ch === LF) {
+        boundary = i + 1;
+        atFieldStart = true;
+      } else if (ch === CR) {
+        if (i + 1 === carry.length) break; // \r\n or a lone \r: decided by the next push
+        if (carry.charCodeAt(i + 1) !== LF) boundary = i + 1;
+        crBreaks.push(i);
+        atFieldStart = true;
+      } else if (ch === QUOTE && atFieldStart) {
+        inQuotes = true;
+        atFieldStart = false;
+      } else {
+        atFieldStart = ch === delimiterCode;
+      }
+    }
+    scanned = i;
+    return boundary;
+  };
+
+  const push = (text: string) => {
+    if (!text) return;
+    if (!delimiter) {
+      // Detected once, so every chunk is split the same way (and the scanner knows field starts)
+      // Blank lines (including the one after a trailing newline) would make every guess look inconsistent
+      const sample = (carry + text).slice(0, DELIMITER_SAMPLE_CHARS);
+      delimiter = Papa.parse(sample, { preview: 20, skipEmptyLines: true }).meta.delimiter;
+      delimiterCode = delimiter.charCodeAt(0);
+    }
+    carry += text;
+    const boundary = scan();
+    if (boundary > 0) {
+      const complete = takeComplete(boundary);
+      carry = carry.slice(boundary);
+      scanned -= boundary;
+      parseComplete(complete);
+    }
+    if (carry.length > MAX_RECORD_CHARS) {
+      throw new Error(
+        `A single record is longer than ${MAX_RECORD_CHARS / 1024 / 1024}M characters. ` +
+        'The file probably has an unclosed quote or no line breaks.'
+      );
+    }
+  };
+
+  // carry up to `end`, with each \r terminator dropped (\r\n) or turned into \n (lone \r)
+  const takeComplete = (end: number) => {
+    let text = '';
+    let from = 0;
+    let used = 0;
+    for (; used < crBreaks.length && crBreaks[used] < end; used++) {
+      const at = crBreaks[used];
+      text += carry.slice(from, at) + (carry.charCodeAt(at + 1) === LF ? '' : '\n');
+      from = at + 1;
+    }
+    crBreaks = crBreaks.slice(used).map(at => at - end);
+    return text + carry.slice(from, end);
+  };
+
+  const finish = () => {
+    // A \r left unscanned at the very end still ends the last record
+    if (carry.endsWith('\r') && !inQuotes) carry = carry.slice(0, -1);
+    const complete = takeComplete(carry.length);
+    carry = '';
+    scanned = 0;
+    crBreaks = [];
+    parseComplete(complete);
+  };
+
+  return { push, finish };
+};
+
+// Duplicate header names get a numeric suffix (name, name_1, name_2, ...) like Papa's header
+// mode, so one column never silently overwrites another
+export const uniqueHeaders = (fields: string[]): string[] => {
+  const used = new Set(fields);
+  const counts = new Map<string, number>();
+  return fields.map(field => {
+    const count = counts.get(field) || 0;
+    counts.set(field, count + 1);
+    if (count === 0) return field;
+    let name = `${field}_${count}`;
+    while (used.has(name)) name = `${name}_${count}`;
+    used.add(name);
+    return name;
+  });
+};
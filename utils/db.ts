@@ -0,0 +1,66 @@
+// Thin promise wrapper over the app's IndexedDB database. Stores are only ever added:
+// bump DB_VERSION together with a new entry in STORES and the upgrade creates it.
+const DB_NAME = 'risk_review';
+const DB_VERSION = 5;
+
+const STORES: { name: string; keyPath: string }[] = [
+  { name: 'reviews', keyPath: 'hash' },
+  { name: 'batches', keyPath: 'id' },
+  { name: 'sessions', keyPath: 'id' },
+  { name: 'exportHistory', keyPath: 'hash' },
+  { name: 'sessionParts', keyPath: 'key' },
+];
+
+export type StoreName = 'reviews' | 'batches' | 'sessions' | 'exportHistory' | 'sessionParts';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        STORES.forEach(store => {
+          if (!db.objectStoreNames.contains(store.name)) db.createObjectStore(store.name, { keyPath: store.keyPath });
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(store: StoreName, mode: IDBTransactionMode, action: (s: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(store, mode).objectStore(store));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const dbGet = <T>(store: StoreName, key: IDBValidKey) => run<T | undefined>(store, 'readonly', s => s.get(key));
+export const dbGetAll = <T>(store: StoreName) => run<T[]>(store, 'readonly', s => s.getAll());
+export const dbGetAllKeys = (store: StoreName) => run<IDBValidKey[]>(store, 'readonly', s => s.getAllKeys());
+export const dbPut = <T>(store: StoreName, value: T) => run<IDBValidKey>(store, 'readwrite', s => s.put(value));
+export const dbDelete = (store: StoreName, key: IDBValidKey) => run<undefined>(store, 'readwrite', s => s.delete(key));
+export const dbCount = (store: StoreName) => run<number>(store, 'readonly', s => s.count());
+export const dbClear = (store: StoreName) => run<undefined>(store, 'readwrite', s => s.clear());
+
+// Many writes in one transaction; resolves once all of them are committed
+export const dbPutMany = async <T>(store: StoreName, values: T[]): Promise<void> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(store, 'readwrite');
+    const objectStore = transaction.objectStore(store);
+    values.forEach(value => objectStore.put(value));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
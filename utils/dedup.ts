@@ -0,0 +1,78 @@
+import { DedupOptions, SkipReason } from '../types';
+import { hashContent } from './hash';
+import { dbGetAll, dbPutMany, dbCount, dbClear } from './db';
+
+const OPTIONS_KEY = 'risk_review.dedupOptions';
+
+// Exact duplicates are always dropped; near-duplicate removal is opt-in
+export const DEFAULT_DEDUP_OPTIONS: DedupOptions = {
+  nearDuplicates: false,
+  similarity: 0.85,
+  crossFile: false,
+  againstHistory: false,
+};
+
+export const SKIP_REASON_LABELS: Record<SkipReason, string> = {
+  empty: 'Empty after cleaning',
+  duplicate: 'Duplicate in same file',
+  near_duplicate: 'Near-duplicate in same file',
+  other_file: 'Duplicate from another file',
+  history: 'Exported before',
+};
+
+export const loadDedupOptions = (): DedupOptions => {
+  try {
+    const raw = localStorage.getItem(OPTIONS_KEY);
+    return raw ? { ...DEFAULT_DEDUP_OPTIONS, ...JSON.parse(raw) } : DEFAULT_DEDUP_OPTIONS;
+  } catch (err) {
+    console.warn('Failed to load dedup options:', err);
+    return DEFAULT_DEDUP_OPTIONS;
+  }
+};
+
+export const saveDedupOptions = (options: DedupOptions) => {
+  localStorage.setItem(OPTIONS_KEY, JSON.stringify(options));
+};
+
+interface ExportHistoryRecord {
+  hash: string;
+  exportedAt: number;
+}
+
+// Content hashes of everything downloaded from the Batch Processor. Kept in IndexedDB without
+// a cap, so nothing exported is ever silently forgotten.
+export const loadExportHistory = async (): Promise<Set<string>> => {
+  try {
+    const records = await dbGetAll<ExportHistoryRecord>('exportHistory');
+    return new Set(records.map(r => r.hash));
+  } catch (err) {
+    console.warn('Failed to load export history:', err);
+    return new Set();
+  }
+};
+
+export const countExportHistory = async (): Promise<number> => {
+  try {
+    return await dbCount('exportHistory');
+  } catch (err) {
+    console.warn('Failed to count export history:', err);
+    return 0;
+  }
+};
+
+// Returns the new history size. Throws when the history could not be written (e.g. storage
+// is full), so the caller can tell the user those rows will not be recognised later.
+export const addToExportHistory = async (contents: string[]): Promise<number> => {
+  const exportedAt = Date.now();
+  const records = new Map<string, ExportHistoryRecord>();
+  for (const content of contents) {
+    const hash = hashContent(content);
+    records.set(hash, { hash, exportedAt });
+  }
+  await dbPutMany<ExportHistoryRecord>('exportHistory', Array.from(records.values()));
+  return dbCount('exportHistory');
+};
+
+export const clearExportHistory = async () => {
+  await dbClear('exportHistory');
+};
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { detectEncoding, decodeBuffer, encodeGbk } from './encoding';
+
+const SIMPLIFIED = 'id,content\n1,这个产品质量很好，我们会再次购买\n2,客服态度不好，发货也很慢\n';
+
+// The same rows in traditional characters, Big5-encoded
+const BIG5_HEX =
+  '69642c636f6e74656e740a312cb36fadd3b2a3ab7ebde8b671abdca66ea141a7daadccb77ca641a6b8c1cab6520a' +
+  '322cabc8aa41ba41abd7a4a3a66ea141b56fb366a45dabdcba430a';
+
+const toBuffer = (bytes: Uint8Array) => bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+
+describe('detectEncoding', () => {
+  it('trusts byte order marks', () => {
+    expect(detectEncoding(toBuffer(Uint8Array.of(0xef, 0xbb, 0xbf, 0x61)))).toEqual({ encoding: 'utf-8', confidence: 1, source: 'bom' });
+    expect(detectEncoding(toBuffer(Uint8Array.of(0xff, 0xfe, 0x61, 0x00)))).toMatchObject({ encoding: 'utf-16le', source: 'bom' });
+    expect(detectEncoding(toBuffer(Uint8Array.of(0xfe, 0xff, 0x00, 0x61)))).toMatchObject({ encoding: 'utf-16be', source: 'bom' });
+  });
+
+  it('recognises UTF-16 without a BOM by its NUL bytes', () => {
+    const le = new Uint8Array(Buffer.from(SIMPLIFIED, 'utf16le'));
+    const be = new Uint8Array(Buffer.from(SIMPLIFIED, 'utf16le').swap16());
+    expect(detectEncoding(toBuffer(le)).encoding).toBe('utf-16le');
+    expect(detectEncoding(toBuffer(be)).encoding).toBe('utf-16be');
+  });
+
+  it('reads ASCII and valid UTF-8 as UTF-8', () => {
+    expect(detectEncoding(toBuffer(new TextEncoder().encode('a,b\n1,2\n')))).toEqual({ encoding: 'utf-8', confidence: 1, source: 'detected' });
+    expect(detectEncoding(toBuffer(new TextEncoder().encode(SIMPLIFIED))).encoding).toBe('utf-8');
+  });
+
+  it('accepts UTF-8 cut in the middle of a character by the sample size', () => {
+    const bytes = new TextEncoder().encode('中'.repeat(30000));
+    expect(detectEncoding(toBuffer(bytes)).encoding).toBe('utf-8');
+  });
+
+  it('tells GBK from Big5', () => {
+    const gbk = detectEncoding(toBuffer(encodeGbk(SIMPLIFIED)));
+    expect(gbk.encoding).toBe('gbk');
+    expect(gbk.confidence).toBeGreaterThan(0.5);
+
+    const big5 = detectEncoding(toBuffer(new Uint8Array(Buffer.from(BIG5_HEX, 'hex'))));
+    expect(big5.encoding).toBe('big5');
+    expect(big5.confidence).toBeGreaterThan(0.5);
+  });
+});
+
+describe('decodeBuffer', () => {
+  it('decodes with the detected encoding unless one is given', () => {
+    const bytes = toBuffer(encodeGbk(SIMPLIFIED));
+    expect(decodeBuffer(bytes).text).toBe(SIMPLIFIED);
+    expect(decodeBuffer(bytes, 'gbk').encoding).toEqual({ encoding: 'gbk', confidence: 1, source: 'manual' });
+  });
+});
@@ -0,0 +1,180 @@
+import { EncodingDetection, TextEncodingName } from '../types';
+
+export const ENCODING_OPTIONS: { value: TextEncodingName; label: string }[] = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'gbk', label: 'GBK' },
+  { value: 'gb18030', label: 'GB18030' },
+  { value: 'big5', label: 'Big5' },
+  { value: 'utf-16le', label: 'UTF-16 LE' },
+  { value: 'utf-16be', label: 'UTF-16 BE' },
+];
+
+// Only the head of the file is inspected; large exports are homogeneous
+const SAMPLE_BYTES = 64 * 1024;
+
+// High-frequency Han characters (simplified + traditional). Correctly decoded Chinese text
+// is dominated by these, while text decoded with the wrong legacy codepage is not.
+const COMMON_HAN = new Set(
+  '的一是不了在人有我他这个们中来上大为和国地到以说时要就出会可也你对生能而子那得于着下自之年过发后作里用道行所然家种事成方多经么去法学如都同现当没动面起看定天分还进好小部其些主样理心她本前开但因只从想实日军者意无力它与长把机十民第公此已工使情明性知全三又关点正业外将两高间由问很最重并物手应战向头文体政美相见被利什二等产或新己制身果加西月话合回特代内信表化老给世位次度门任常先海通教儿原东声提立及比员解水名真论处走义各入几口认条平系气题活更别打女变四神总何电数安少报才结反受目太量再感建务做接必场件计管期市直资命山金指许统区保至队形社便空决治展马科司五基眼书非则听白却界达光放强即像难且权思象完设色路记南品住告类求据程北边死张该交规万取望觉领共确传师观清今切让识候带导争运笑飞风步改收根干造言联持组每济车亲极服快办议往证近失转令准始怎呢存未远叫台单影具字爱击流备连调深商算质团集百需价花华城级整离况请技际约示复病息究线似官火断精满支视消越器容照须增研写称功吗包片史委查轻易早除农找装广显吧标谈吃图念引历首医局突专费号尽另周较注语仅考落青随选列红响虽推势参希古众构房半节土投案黑维划致律足态护兴派孩验责营星够章音跟志底站严例防族供效续施留讲型料终答紧黄绝奇察母京段依批群项故按河米围江织害双境客纪采举杀攻父密低朝友诉止细愿千值仍男钱破网热助倒育属坐限船脸职速刻乐否刚威毛状率甚独球般普怕弹校苦创假久错承印晚试股拿脑预谁益阳若哪微继送急血惊伤素药适波夜省初喜卫源食险待述陆习置居劳财环排福纳欢警获模充负云停木游龙树疑层冷射略范竟句室异激演简卡罪判担静退既衣您宗积余痛检差富灵协角占配征修皮胜降阶审沉坚善妈读啊超免压银买养怀执副乱抗犯追帮宣岁航优怪香著田铁控税左右份穿艺背阵草脚概恶块顿敢守酒户烈款靠评版宝座释景顾弟登货互付慢换闻危忙核暗姐介坏讨丽良序升监临亮露永呼味野架域掉括鱼杂误减编肯测败屋跑梦散温困渐封救贵缺楼尚毫移朋画班智亦耳恩短掌恐遗固席松秘谢遇康虑幸均销钟诗藏赶剧票损忽巨旧端探湖录叶春乡附吸予礼港雨呀板庭妇归睛饭额含顺输摇招婚脱补谓督毒油疗旅材灭逐莫笔亡鲜词择寻厂睡授诺岸卖载健堂旁宫喝借君禁阴园谋避抓荣姑孙逃牙束跳顶玉镇雪午练迫篇肉嘴馆遍凡础洞卷坦牛宁纸诸训私庄祖丝翻暴森默握戏隐熟骨访弱歌店鬼软典欲伙遭盘爸扩盖弄雄稳忘亿刺拥徒杨齐赛趣曲刀床迎冰虚玩析窗醒妻透购替休虎扬途侵刑绿兄迅套贸毕唯谷轮库迹尤竞街促延震弃甲伟麻川申缓潜闪售灯针哲络抵抱鼓植纯夏忍页杰筑折尊秀混雅振染盛怒舞圆搞狂措姓残秋培迷诚宽宇猛摆梅毁伸摩盟末乃悲拍' +
+  '這們來為國說時會對發後裡們麼學現當沒動還進樣開從實軍無與長機將兩間問體見產製話內給兒東聲員論處義幾認條氣題爾別變總電數報結務場計資區隊決馬書則聽卻達強難權設記邊張萬覺術領確傳師觀讓識帶導爭運飛風幹聯組濟車親極辦議證轉準單愛擊備調質團價華級離況請際約復視滿須寫稱嗎歷醫專費號盡較語僅隨選紅響雖勢參眾構節維劃態護興驗責營夠嚴項圍織雙紀採舉殺蘇訴細願錢網熱屬臉職樂剛狀獨彈創錯藥適陸習勞財環納歡獲雲遊龍樹層範異簡擔靜餘檢靈協徵勝階審堅媽讀壓銀買養懷執亂幫歲優鐵稅藝陣腳惡塊頓島評寶釋顧貨換聞壞討麗監臨雜誤減編測敗夢溫漸貴樓畫遺謝慮銷鐘詩劇損舊錄葉鄉禮婦歸飯額順輸搖補謂療澤滅筆鮮詞擇尋廠諾賣載園謀榮孫鎮練館礎莊絲戲隱訪軟盤擴蓋穩億擁楊齊賽虛購揚綠貿畢輪庫跡競棄偉緩潛閃燈針絡純頁傑築鄭貝尊圓殘誠寬擺毀'
+);
+
+const hasBom = (bytes: Uint8Array, bom: number[]) => bom.every((b, i) => bytes[i] === b);
+
+const isAscii = (bytes: Uint8Array) => {
+  for (let i = 0; i < bytes.length; i++) {
+    if (bytes[i] >= 0x80) return false;
+  }
+  return true;
+};
+
+// UTF-16 without BOM: ASCII code units (delimiters, digits, newlines) leave one byte of each
+// pair as 0x00, while text in single/double-byte encodings never contains NUL bytes
+const detectUtf16 = (bytes: Uint8Array): TextEncodingName | null => {
+  let evenZeros = 0;
+  let oddZeros = 0;
+  const len = bytes.length - (bytes.length % 2);
+  for (let i = 0; i < len; i += 2) {
+    if (bytes[i] === 0) evenZeros++;
+    if (bytes[i + 1] === 0) oddZeros++;
+  }
+  const pairs = len / 2 || 1;
+  if (oddZeros / pairs > 0.05 && evenZeros < oddZeros * 0.1) return 'utf-16le';
+  if (evenZeros / pairs > 0.05 && oddZeros < evenZeros * 0.1) return 'utf-16be';
+  return null;
+};
+
+// GB18030 four-byte sequences: [81-FE][30-39][81-FE][30-39]
+const hasGb18030FourByte = (bytes: Uint8Array) => {
+  for (let i = 0; i + 3 < bytes.length; i++) {
+    if (bytes[i] >= 0x81 && bytes[i + 1] >= 0x30 && bytes[i + 1] <= 0x39 &&
+        bytes[i + 2] >= 0x81 && bytes[i + 3] >= 0x30 && bytes[i + 3] <= 0x39) {
+      return true;
+    }
+  }
+  return false;
+};
+
+// Scores decoded text by the share of common Han characters among non-ASCII characters,
+// penalising replacement characters (undecodable byte sequences)
+const scoreDecoded = (text: string): number => {
+  let nonAscii = 0;
+  let common = 0;
+  let errors = 0;
+  for (const ch of text) {
+    const code = ch.codePointAt(0)!;
+    if (code < 0x80) continue;
+    nonAscii++;
+    if (ch === '\uFFFD') errors++;
+    else if (COMMON_HAN.has(ch)) common++;
+    // Full-width punctuation is common in Chinese text but not a signal on its own
+    else if (code >= 0x3000 && code <= 0x303F || code >= 0xFF00 && code <= 0xFFEF) common += 0.5;
+  }
+  if (nonAscii === 0) return 0;
+  return Math.max(0, (common - errors * 3) / nonAscii);
+};
+
+const isValidUtf8 = (bytes: Uint8Array) => {
+  try {
+    // stream: true tolerates a multi-byte sequence cut off by the sample boundary
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const detectEncoding = (buffer: ArrayBuffer): EncodingDetection => {
+  const bytes = new Uint8Array(buffer, 0, Math.min(buffer.byteLength, SAMPLE_BYTES));
+
+  // 1. Byte order marks are authoritative
+  if (hasBom(bytes, [0xEF, 0xBB, 0xBF])) return { encoding: 'utf-8', confidence: 1, source: 'bom' };
+  if (hasBom(bytes, [0xFF, 0xFE])) return { encoding: 'utf-16le', confidence: 1, source: 'bom' };
+  if (hasBom(bytes, [0xFE, 0xFF])) return { encoding: 'utf-16be', confidence: 1, source: 'bom' };
+
+  // 2. BOM-less UTF-16
+  const utf16 = detectUtf16(bytes);
+  if (utf16) return { encoding: utf16, confidence: 0.9, source: 'detected' };
+
+  // 3. Pure ASCII decodes identically everywhere
+  if (isAscii(bytes)) return { encoding: 'utf-8', confidence: 1, source: 'detected' };
+
+  // 4. Legacy double-byte Chinese text is almost never valid UTF-8
+  if (isValidUtf8(bytes)) {
+    const score = scoreDecoded(new TextDecoder('utf-8').decode(bytes, { stream: true }));
+    return { encoding: 'utf-8', confidence: Math.max(0.95, Math.min(1, 0.9 + score)), source: 'detected' };
+  }
+
+  // 5. Score the legacy Chinese codepages
+  const gbName: TextEncodingName = hasGb18030FourByte(bytes) ? 'gb18030' : 'gbk';
+  const candidates: TextEncodingName[] = [gbName, 'big5'];
+  const scored = candidates.map(encoding => ({
+    encoding,
+    score: scoreDecoded(new TextDecoder(encoding).decode(bytes, { stream: true })),
+  }));
+  scored.sort((a, b) => b.score - a.score);
+
+  const [best, runnerUp] = scored;
+  // Confidence blends the absolute score with the margin over the runner-up
+  const margin = best.score - runnerUp.score;
+  const confidence = Math.max(0.1, Math.min(0.99, best.score * 0.6 + margin * 0.4));
+  return { encoding: best.encoding, confidence, source: 'detected' };
+};
+
+// Decodes a whole file buffer, honouring a manual override when given
+export const decodeBuffer = (
+  buffer: ArrayBuffer,
+  override?: TextEncodingName
+): { text: string; encoding: EncodingDetection } => {
+  const encoding: EncodingDetection = override
+    ? { encoding: override, confidence: 1, source: 'manual' }
+    : detectEncoding(buffer);
+  const text = new TextDecoder(encoding.encoding).decode(buffer);
+  return { text, encoding };
+};
+
+export const formatEncoding = (detection: EncodingDetection): string => {
+  const label = ENCODING_OPTIONS.find(o => o.value === detection.encoding)?.label || detection.encoding;
+  if (detection.source === 'workbook') return 'Excel';
+  if (detection.source === 'manual') return `${label} (manual)`;
+  if (detection.source === 'bom') return `${label} (BOM)`;
+  return `${label} ${Math.round(detection.confidence * 100)}%`;
+};
+
+// TextEncoder only writes UTF-8, so the GBK table is rebuilt from the decoder on first use
+let gbkTable: Map<string, number> | null = null;
+
+const buildGbkTable = () => {
+  const table = new Map<string, number>();
+  const decoder = new TextDecoder('gbk');
+  for (let lead = 0x81; lead <= 0xfe; lead++) {
+    for (let trail = 0x40; trail <= 0xfe; trail++) {
+      if (trail === 0x7f) continue;
+      const char = decoder.decode(Uint8Array.of(lead, trail));
+      if (char.length === 1 && char !== '\ufffd' && !table.has(char)) table.set(char, (lead << 8) | trail);
+    }
+  }
+  return table;
+};
+
+// Characters GBK cannot represent (most emoji, rare CJK extensions) become '?'
+export const encodeGbk = (text: string): Uint8Array => {
+  if (!gbkTable) gbkTable = buildGbkTable();
+  const bytes = new Uint8Array(text.length * 2);
+  let length = 0;
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (code < 0x80) {
+      bytes[length++] = code;
+      continue;
+    }
+    const pair = gbkTable.get(char);
+    if (pair === undefined) {
+      bytes[length++] = 0x3f;
+    } else {
+      bytes[length++] = pair >> 8;
+      bytes[length++] = pair & 0xff;
+    }
+  }
+  return bytes.subarray(0, length);
+};
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { RiskAnalysisRow } from '../types';
+import { LabeledRow, buildCurve, downsampleCurve, rocAuc, suggestThreshold } from './evaluation';
+
+const labeled = (score: number, violation: boolean, id = 0): LabeledRow => ({
+  row: {
+    id,
+    content: `row ${id}`,
+    riskScore: score,
+    riskType: 'spam',
+    sourceFile: 'scores.csv',
+    sourceRow: id + 1,
+    contentHash: `hash-${id}`,
+  } as RiskAnalysisRow,
+  label: { violation },
+});
+
+describe('buildCurve', () => {
+  it('emits one point per distinct score, from high to low', () => {
+    const curve = buildCurve([labeled(0.9, true), labeled(0.9, false), labeled(0.5, true), labeled(0.1, false)]);
+    expect(curve.map(p => p.threshold)).toEqual([0.9, 0.5, 0.1]);
+    expect(curve[0]).toEqual({ threshold: 0.9, precision: 0.5, recall: 0.5, fpr: 0.5 });
+    expect(curve[2]).toMatchObject({ recall: 1, fpr: 1 });
+  });
+
+  it('keeps every point; only downsampleCurve reduces them', () => {
+    const rows = Array.from({ length: 1000 }, (_, i) => labeled(i / 1000, i % 3 === 0, i));
+    const curve = buildCurve(rows);
+    expect(curve).toHaveLength(1000);
+    const chart = downsampleCurve(curve, 50);
+    expect(chart).toHaveLength(50);
+    expect(chart[0]).toBe(curve[0]);
+    expect(chart[49]).toBe(curve[999]);
+  });
+});
+
+describe('rocAuc', () => {
+  it('is 1 for a perfect ranking and 0.5 for a tie', () => {
+    expect(rocAuc(buildCurve([labeled(0.9, true), labeled(0.8, true), labeled(0.2, false), labeled(0.1, false)]))).toBe(1);
+    expect(rocAuc(buildCurve([labeled(0.5, true), labeled(0.5, false)]))).toBe(0.5);
+  });
+
+  it('is 0 for an inverted ranking', () => {
+    expect(rocAuc(buildCurve([labeled(0.9, false), labeled(0.1, true)]))).toBe(0);
+  });
+});
+
+describe('suggestThreshold', () => {
+  const curve = buildCurve([
+    labeled(0.9, true, 0),
+    labeled(0.8, true, 1),
+    labeled(0.7, false, 2),
+    labeled(0.6, true, 3),
+    labeled(0.2, false, 4),
+  ]);
+
+  it('picks the lowest threshold that still meets the target precision', () => {
+    expect(suggestThreshold(curve, 1)?.threshold).toBe(0.8);
+    expect(suggestThreshold(curve, 0.75)?.threshold).toBe(0.6);
+  });
+
+  it('returns null when no threshold reaches the target', () => {
+    expect(suggestThreshold(buildCurve([labeled(0.9, false), labeled(0.1, true)]), 0.9)).toBeNull();
+  });
+});
@@ -0,0 +1,157 @@
+import { RiskAnalysisRow, GroundTruthLabel } from '../types';
+import { ThresholdSet, thresholdFor } from './thresholds';
+
+// Scoring of the loaded rows against human-labeled ground truth
+
+export interface LabeledRow {
+  row: RiskAnalysisRow;
+  label: GroundTruthLabel;
+}
+
+export interface LabelJoin {
+  rows: LabeledRow[];
+  unmatchedLabels: number; // Labels that matched no loaded row
+}
+
+export interface Confusion {
+  tp: number;
+  fp: number;
+  fn: number;
+  tn: number;
+}
+
+export interface TypeEvaluation extends Confusion {
+  riskType: string;
+  categoryLabeled: number; // Flagged true violations that carry a true category
+  categoryCorrect: number; // ... whose true category equals the model's risk type
+}
+
+export interface CurvePoint {
+  threshold: number;
+  precision: number;
+  recall: number;
+  fpr: number;
+}
+
+// Rows are joined by any of their NIDs first (stable across re-exports), then by normalized content
+export const joinLabels = (rows: RiskAnalysisRow[], labels: GroundTruthLabel[]): LabelJoin => {
+  const byNid = new Map<string, GroundTruthLabel>();
+  const byContent = new Map<string, GroundTruthLabel>();
+  for (const label of labels) {
+    if (label.nid) byNid.set(label.nid, label);
+    if (label.content) byContent.set(label.content, label);
+  }
+
+  const used = new Set<GroundTruthLabel>();
+  const joined: LabeledRow[] = [];
+  for (const row of rows) {
+    const nidLabel = row.nid?.map(nid => byNid.get(nid)).find(Boolean);
+    const label = nidLabel || byContent.get(row.content);
+    if (label) {
+      joined.push({ row, label });
+      used.add(label);
+    }
+  }
+  return { rows: joined, unmatchedLabels: labels.length - used.size };
+};
+
+const emptyConfusion = (): Confusion => ({ tp: 0, fp: 0, fn: 0, tn: 0 });
+
+// Null when undefined (no predicted / actual positives), so the UI can show '-' instead of 0
+export const precisionOf = (c: Confusion): number | null => (c.tp + c.fp > 0 ? c.tp / (c.tp + c.fp) : null);
+export const recallOf = (c: Confusion): number | null => (c.tp + c.fn > 0 ? c.tp / (c.tp + c.fn) : null);
+export const f1Of = (c: Confusion): number | null => {
+  const p = precisionOf(c);
+  const r = recallOf(c);
+  return p !== null && r !== null && p + r > 0 ? (2 * p * r) / (p + r) : null;
+};
+
+const tally = (c: Confusion, predicted: boolean, actual: boolean) => {
+  if (predicted && actual) c.tp++;
+  else if (predicted) c.fp++;
+  else if (actual) c.fn++;
+  else c.tn++;
+};
+
+// Uses the same per-type cutoffs as the analyzer filter
+export const evaluate = (rows: LabeledRow[], thresholds: ThresholdSet) => {
+  const overall = emptyConfusion();
+  const byType = new Map<string, TypeEvaluation>();
+
+  for (const { row, label } of rows) {
+    const predicted = row.riskScore >= thresholdFor(thresholds, row.riskType);
+    tally(overall, predicted, label.violation);
+
+    let entry = byType.get(row.riskType);
+    if (!entry) {
+      entry = { riskType: row.riskType, ...emptyConfusion(), categoryLabeled: 0, categoryCorrect: 0 };
+      byType.set(row.riskType, entry);
+    }
+    tally(entry, predicted, label.violation);
+    if (predicted && label.violation && label.trueCategory) {
+      entry.categoryLabeled++;
+      if (label.trueCategory === row.riskType) entry.categoryCorrect++;
+    }
+  }
+
+  const types = Array.from(byType.values()).sort((a, b) => (b.tp + b.fp + b.fn + b.tn) - (a.tp + a.fp + a.fn + a.tn));
+  return { overall, byType: types };
+};
+
+const MAX_CURVE_POINTS = 200;
+
+// One point per distinct score, sweeping a single global threshold from high to low
+export const buildCurve = (rows: LabeledRow[]): CurvePoint[] => {
+  const sorted = rows.map(r => ({ score: r.row.riskScore, actual: r.label.violation })).sort((a, b) => b.score - a.score);
+  let positives = 0;
+  for (const r of sorted) if (r.actual) positives++;
+  const negatives = sorted.length - positives;
+
+  const points: CurvePoint[] = [];
+  let tp = 0;
+  let fp = 0;
+  for (let i = 0; i < sorted.length; i++) {
+    if (sorted[i].actual) tp++;
+    else fp++;
+    // Emit once all rows sharing this score are counted
+    if (i === sorted.length - 1 || sorted[i + 1].score !== sorted[i].score) {
+      points.push({
+        threshold: sorted[i].score,
+        precision: tp / (tp + fp),
+        recall: positives > 0 ? tp / positives : 0,
+        fpr: negatives > 0 ? fp / negatives : 0,
+      });
+    }
+  }
+
+  return points;
+};
+
+// Evenly spaced subset for drawing; AUC and the suggestion use the full curve
+export const downsampleCurve = (curve: CurvePoint[], maxPoints = MAX_CURVE_POINTS): CurvePoint[] => {
+  if (curve.length <= maxPoints) return curve;
+  const step = (curve.length - 1) / (maxPoints - 1);
+  return Array.from({ length: maxPoints }, (_, i) => curve[Math.round(i * step)]);
+};
+
+// Trapezoidal area under the ROC curve (from (0,0) to (1,1))
+export const rocAuc = (curve: CurvePoint[]): number => {
+  let area = 0;
+  let prevFpr = 0;
+  let prevRecall = 0;
+  for (const point of [...curve, { fpr: 1, recall: 1 }]) {
+    area += (point.fpr - prevFpr) * (point.recall + prevRecall) / 2;
+    prevFpr = point.fpr;
+    prevRecall = point.recall;
+  }
+  return area;
+};
+
+// Lowest threshold (i.e. highest recall) whose precision still meets the target
+export const suggestThreshold = (curve: CurvePoint[], targetPrecision: number): CurvePoint | null => {
+  let best: CurvePoint | null = null;
+  for (const point of curve) {
+    if (point.precision >= targetPrecision && (!best || point.recall > best.recall)) best = point;
+  }
+  return best;
+};
@@ -0,0 +1,199 @@
+import JSZip from 'jszip';
+import { ExportFormat } from '../types';
+import { encodeGbk } from './encoding';
+import { sanitizeCell } from './parsers';
+
+// Every download goes through one of these writers, so the Batch Processor output and the
+// analyzer exports support the same formats and escape values the same way.
+
+export type ExportValue = string | number | null | undefined;
+
+export interface ExportTable {
+  headers: string[];
+  rows: ExportValue[][];
+  sheetName?: string; // XLSX only
+}
+
+export interface Exporter {
+  label: string;
+  extension: string;
+  // Encoded size of the header and of one row, used to split output by byte limits
+  // (exact for text formats, an uncompressed estimate for XLSX)
+  headerBytes: (headers: string[]) => number;
+  rowBytes: (row: ExportValue[], headers: string[]) => number;
+  maxRows?: number; // Data rows one file can hold, where the format has a limit
+  write: (table: ExportTable) => Promise<Blob>;
+}
+
+const encoder = new TextEncoder();
+const utf8Length = (text: string) => encoder.encode(text).length;
+
+const gbkLength = (text: string) => {
+  let bytes = 0;
+  for (const char of text) bytes += char.charCodeAt(0) < 0x80 ? 1 : 2;
+  return bytes;
+};
+
+const toText = (value: ExportValue) => (value === null || value === undefined ? '' : String(value));
+
+// --- TXT: the tab-separated format the scoring platform accepts ---
+
+const txtLine = (values: ExportValue[]) => values.map(v => sanitizeCell(toText(v))).join('\t');
+
+const txtExporter: Exporter = {
+  label: 'TXT (tab-separated)',
+  extension: 'txt',
+  headerBytes: headers => utf8Length(txtLine(headers)),
+  rowBytes: row => utf8Length(txtLine(row)) + 1,
+  write: async ({ headers, rows }) => {
+    const text = [txtLine(headers), ...rows.map(txtLine)].join('\n');
+    return new Blob([text], { type: 'text/plain;charset=utf-8' });
+  },
+};
+
+// --- CSV (RFC 4180): values with commas, quotes or line breaks are quoted ---
+
+const csvCell = (value: ExportValue) => {
+  if (typeof value === 'number') return String(value);
+  const text = toText(value);
+  return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvLine = (values: ExportValue[]) => values.map(csvCell).join(',');
+const csvText = ({ headers, rows }: ExportTable) => [csvLine(headers), ...rows.map(csvLine)].join('\r\n');
+
+const csvExporter: Exporter = {
+  label: 'CSV (UTF-8, Excel)',
+  extension: 'csv',
+  headerBytes: headers => 3 + utf8Length(csvLine(headers)), // BOM included
+  rowBytes: row => utf8Length(csvLine(row)) + 2,
+  // BOM so Excel opens the file as UTF-8
+  write: async table => new Blob(['\uFEFF' + csvText(table)], { type: 'text/csv;charset=utf-8' }),
+};
+
+const csvGbkExporter: Exporter = {
+  label: 'CSV (GBK)',
+  extension: 'csv',
+  headerBytes: headers => gbkLength(csvLine(headers)),
+  rowBytes: row => gbkLength(csvLine(row)) + 2,
+  write: async table => new Blob([encodeGbk(csvText(table))], { type: 'text/csv;charset=gbk' }),
+};
+
+// --- JSONL: one object per row keyed by the headers, numbers kept as numbers ---
+
+const jsonLine = (row: ExportValue[], headers: string[]) => {
+  const record: Record<string, string | number | null> = {};
+  headers.forEach((header, i) => { record[header] = row[i] ?? null; });
+  return JSON.stringify(record);
+};
+
+const jsonlExporter: Exporter = {
+  label: 'JSONL',
+  extension: 'jsonl',
+  headerBytes: () => 0,
+  rowBytes: (row, headers) => utf8Length(jsonLine(row, headers)) + 1,
+  write: async ({ headers, rows }) => {
+    const text = rows.map(row => jsonLine(row, headers) + '\n').join('');
+    return new Blob([text], { type: 'application/x-ndjson;charset=utf-8' });
+  },
+};
+
+// --- XLSX: a minimal workbook written with JSZip (inline strings, bold frozen header) ---
+
+// Control characters make the XML invalid, and Excel refuses cells over 32767 characters
+const MAX_CELL_LENGTH = 32767;
+// Excel opens at most 1,048,576 rows per sheet, the header included
+const MAX_SHEET_ROWS = 1048576;
+const XML_INVALID = /[\u0000-\u0008\u000b\u000c\u000e-\u001f\ufffe\uffff]/g;
+
+const escapeXml = (text: string) =>
+  text.replace(XML_INVALID, '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const columnName = (index: number) => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  return name;
+};
+
+const xlsxCell = (value: ExportValue, ref: string, style = 0) => {
+  const s = style ? ` s="${style}"` : '';
+  if (typeof value === 'number' && isFinite(value)) return `<c r="${ref}"${s}><v>${value}</v></c>`;
+  const text = escapeXml(toText(value).slice(0, MAX_CELL_LENGTH));
+  return `<c r="${ref}"${s} t="inlineStr"><is><t xml:space="preserve">${text}</t></is></c>`;
+};
+
+const xlsxRow = (values: ExportValue[], rowIndex: number, style = 0) =>
+  `<row r="${rowIndex}">${values.map((v, i) => xlsxCell(v, `${columnName(i)}${rowIndex}`, style)).join('')}</row>`;
+
+// Excel limits sheet names to 31 characters and forbids a few symbols
+const sheetNameOf = (name: string | undefined) => (name || 'Sheet1').replace(/[\\/?*[\]:]/g, '_').slice(0, 31) || 'Sheet1';
+
+const XLSX_CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/></Types>`;
+
+const XLSX_ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`;
+
+const XLSX_WORKBOOK_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`;
+
+// Style 1 is the bold header
+const XLSX_STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs></styleSheet>`;
+
+const xlsxExporter: Exporter = {
+  label: 'Excel (XLSX)',
+  extension: 'xlsx',
+  headerBytes: headers => utf8Length(xlsxRow(headers, 1, 1)),
+  rowBytes: row => utf8Length(xlsxRow(row, 1)),
+  maxRows: MAX_SHEET_ROWS - 1,
+  write: async ({ headers, rows, sheetName }) => {
+    if (rows.length > MAX_SHEET_ROWS - 1) {
+      throw new Error(
+        `Excel sheets hold at most ${(MAX_SHEET_ROWS - 1).toLocaleString()} data rows; this export has ${rows.length.toLocaleString()}. ` +
+        'Export as CSV or TXT, or split the output.'
+      );
+    }
+    const sheet = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews><sheetData>${xlsxRow(headers, 1, 1)}${rows.map((row, i) => xlsxRow(row, i + 2)).join('')}</sheetData></worksheet>`;
+    const workbook = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="${escapeXml(sheetNameOf(sheetName))}" sheetId="1" r:id="rId1"/></sheets></workbook>`;
+
+    const zip = new JSZip();
+    zip.file('[Content_Types].xml', XLSX_CONTENT_TYPES);
+    zip.file('_rels/.rels', XLSX_ROOT_RELS);
+    zip.file('xl/workbook.xml', workbook);
+    zip.file('xl/_rels/workbook.xml.rels', XLSX_WORKBOOK_RELS);
+    zip.file('xl/styles.xml', XLSX_STYLES);
+    zip.file('xl/worksheets/sheet1.xml', sheet);
+    return zip.generateAsync({
+      type: 'blob',
+      compression: 'DEFLATE',
+      mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    });
+  },
+};
+
+export const EXPORTERS: Record<ExportFormat, Exporter> = {
+  txt: txtExporter,
+  csv: csvExporter,
+  csv_gbk: csvGbkExporter,
+  jsonl: jsonlExporter,
+  xlsx: xlsxExporter,
+};
+
+export const EXPORT_FORMATS = Object.keys(EXPORTERS) as ExportFormat[];
+
+// The browser may still be reading the Blob when click() returns, so the URL is released later
+const REVOKE_DELAY_MS = 60_000;
+
+export const saveBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.setAttribute('download', filename);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
@@ -0,0 +1,193 @@
+import { RiskAnalysisRow } from '../types';
+import { ThresholdSet, DEFAULT_THRESHOLDS, thresholdFor } from './thresholds';
+import { formatNids } from './nidMatching';
+
+export type SortKey = 'score' | 'riskType' | 'nid' | 'contentLength' | 'sourceFile';
+export type SortDirection = 'asc' | 'desc';
+
+export interface SortState {
+  key: SortKey;
+  direction: SortDirection;
+}
+
+export type ColumnFilterKey = 'nid' | 'riskType' | 'content' | 'sourceFile';
+export type ColumnFilters = Partial<Record<ColumnFilterKey, string>>;
+
+export const DEFAULT_SORT: SortState = { key: 'score', direction: 'desc' };
+
+const columnValue = (row: RiskAnalysisRow, key: ColumnFilterKey): string => {
+  switch (key) {
+    case 'nid': return formatNids(row);
+    case 'riskType': return row.riskType;
+    case 'content': return row.content;
+    case 'sourceFile': return row.sourceFile;
+  }
+};
+
+// Case-insensitive substring match of the free-text search against content and NID
+export const matchesSearch = (row: RiskAnalysisRow, search: string): boolean => {
+  const query = search.trim().toLowerCase();
+  if (!query) return true;
+  return row.content.toLowerCase().includes(query) || formatNids(row).toLowerCase().includes(query);
+};
+
+export const matchesColumnFilters = (row: RiskAnalysisRow, filters: ColumnFilters): boolean => {
+  return (Object.keys(filters) as ColumnFilterKey[]).every(key => {
+    const query = filters[key]?.trim().toLowerCase();
+    return !query || columnValue(row, key).toLowerCase().includes(query);
+  });
+};
+
+const compareBy: Record<SortKey, (a: RiskAnalysisRow, b: RiskAnalysisRow) => number> = {
+  score: (a, b) => a.riskScore - b.riskScore,
+  riskType: (a, b) => a.riskType.localeCompare(b.riskType),
+  nid: (a, b) => formatNids(a).localeCompare(formatNids(b)),
+  contentLength: (a, b) => a.content.length - b.content.length,
+  sourceFile: (a, b) => a.sourceFile.localeCompare(b.sourceFile) || a.sourceRow - b.sourceRow,
+};
+
+// Sorts in place; ties fall back to load order so the view is stable
+export const sortRows = (rows: RiskAnalysisRow[], sort: SortState): RiskAnalysisRow[] => {
+  const compare = compareBy[sort.key];
+  const sign = sort.direction === 'asc' ? 1 : -1;
+  return rows.sort((a, b) => sign * compare(a, b) || a.id - b.id);
+};
+
+export type NidMatchFilter = 'any' | 'matched' | 'unmatched' | 'fuzzy' | 'ambiguous';
+
+const NID_MATCH_FILTERS: NidMatchFilter[] = ['any', 'matched', 'unmatched', 'fuzzy', 'ambiguous'];
+
+// Everything that narrows the analyzer view. The report, export and match counter all read
+// the rows that pass this model, and it round-trips through the URL query string.
+export interface FilterModel {
+  thresholds: ThresholdSet; // Minimum score, per risk type
+  maxScore: number | null;
+  riskTypes: string[]; // Empty = all
+  nidMatch: NidMatchFilter;
+  sourceFiles: string[]; // Empty = all
+  include: string; // Content must match (comma-separated keywords, or a regex)
+  exclude: string; // Content must not match
+  useRegex: boolean;
+  search: string;
+  columns: ColumnFilters;
+}
+
+export const DEFAULT_FILTER: FilterModel = {
+  thresholds: DEFAULT_THRESHOLDS,
+  maxScore: null,
+  riskTypes: [],
+  nidMatch: 'any',
+  sourceFiles: [],
+  include: '',
+  exclude: '',
+  useRegex: false,
+  search: '',
+  columns: {},
+};
+
+const buildTextMatcher = (pattern: string, useRegex: boolean): ((text: string) => boolean) | null => {
+  if (!pattern.trim()) return null;
+  if (useRegex) {
+    const regex = new RegExp(pattern, 'i');
+    return (text) => regex.test(text);
+  }
+  const keywords = pattern.split(/[,，]/).map(k => k.trim().toLowerCase()).filter(Boolean);
+  return (text) => {
+    const lower = text.toLowerCase();
+    return keywords.some(k => lower.includes(k));
+  };
+};
+
+// Compiles the model once into a row predicate. An invalid regex is reported and its clause ignored.
+export const compileFilter = (model: FilterModel): { predicate: (row: RiskAnalysisRow) => boolean; error: string | null } => {
+  let error: string | null = null;
+  let include: ((text: string) => boolean) | null = null;
+  let exclude: ((text: string) => boolean) | null = null;
+  try {
+    include = buildTextMatcher(model.include, model.useRegex);
+    exclude = buildTextMatcher(model.exclude, model.useRegex);
+  } catch (err: any) {
+    error = `Invalid regular expression: ${err.message}`;
+  }
+
+  const riskTypes = model.riskTypes.length > 0 ? new Set(model.riskTypes) : null;
+  const sourceFiles = model.sourceFiles.length > 0 ? new Set(model.sourceFiles) : null;
+
+  const predicate = (row: RiskAnalysisRow) => {
+    if (row.riskScore < thresholdFor(model.thresholds, row.riskType)) return false;
+    if (model.maxScore !== null && row.riskScore > model.maxScore) return false;
+    if (riskTypes && !riskTypes.has(row.riskType)) return false;
+    if (sourceFiles && !sourceFiles.has(row.sourceFile)) return false;
+    if (model.nidMatch === 'matched' && !row.nid) return false;
+    if (model.nidMatch === 'unmatched' && row.nid) return false;
+    if (model.nidMatch === 'fuzzy' && row.nidMatch !== 'fuzzy') return false;
+    if (model.nidMatch === 'ambiguous' && !(row.nid && row.nid.length > 1)) return false;
+    if (include && !include(row.content)) return false;
+    if (exclude && exclude(row.content)) return false;
+    return matchesSearch(row, model.search) && matchesColumnFilters(row, model.columns);
+  };
+
+  return { predicate, error };
+};
+
+const COLUMN_PARAMS: Record<ColumnFilterKey, string> = {
+  nid: 'f_nid',
+  riskType: 'f_type',
+  content: 'f_content',
+  sourceFile: 'f_source',
+};
+
+// Only non-default values are written, so shared links stay short
+export const filterToQuery = (model: FilterModel): string => {
+  const params = new URLSearchParams();
+  const { defaultThreshold, byType } = model.thresholds;
+  if (defaultThreshold !== DEFAULT_THRESHOLDS.defaultThreshold) params.set('t', String(defaultThreshold));
+  Object.entries(byType).forEach(([type, value]) => params.append('tt', `${type}=${value}`));
+  if (model.maxScore !== null) params.set('max', String(model.maxScore));
+  model.riskTypes.forEach(t => params.append('type', t));
+  if (model.nidMatch !== 'any') params.set('nid', model.nidMatch);
+  model.sourceFiles.forEach(f => params.append('file', f));
+  if (model.include) params.set('inc', model.include);
+  if (model.exclude) params.set('exc', model.exclude);
+  if (model.useRegex) params.set('re', '1');
+  if (model.search) params.set('q', model.search);
+  (Object.keys(COLUMN_PARAMS) as ColumnFilterKey[]).forEach(key => {
+    const value = model.columns[key];
+    if (value) params.set(COLUMN_PARAMS[key], value);
+  });
+  return params.toString();
+};
+
+export const filterFromQuery = (query: string): FilterModel => {
+  const params = new URLSearchParams(query);
+  const number = (key: string) => {
+    const value = params.get(key);
+    const parsed = value === null ? NaN : parseFloat(value);
+    return isNaN(parsed) ? null : parsed;
+  };
+  const nid = params.get('nid');
+  const byType: Record<string, number> = {};
+  params.getAll('tt').forEach(entry => {
+    const split = entry.lastIndexOf('=');
+    const value = parseFloat(entry.slice(split + 1));
+    if (split > 0 && !isNaN(value)) byType[entry.slice(0, split)] = value;
+  });
+  const columns: ColumnFilters = {};
+  (Object.keys(COLUMN_PARAMS) as ColumnFilterKey[]).forEach(key => {
+    const value = params.get(COLUMN_PARAMS[key]);
+    if (value) columns[key] = value;
+  });
+
+  return {
+    thresholds: { defaultThreshold: number('t') ?? DEFAULT_THRESHOLDS.defaultThreshold, byType },
+    maxScore: number('max'),
+    riskTypes: params.getAll('type'),
+    nidMatch: NID_MATCH_FILTERS.includes(nid as NidMatchFilter) ? nid as NidMatchFilter : 'any',
+    sourceFiles: params.getAll('file'),
+    include: params.get('inc') || '',
+    exclude: params.get('exc') || '',
+    useRegex: params.get('re') === '1',
+    search: params.get('q') || '',
+    columns,
+  };
+};
@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { hashContent } from './hash';
+
+describe('hashContent', () => {
+  // Stored reviews and the export history are keyed by these values, so they must never change
+  it('gives the reference cyrb53 values', () => {
+    expect(parseInt(hashContent(''), 16)).toBe(3338908027751811);
+    expect(hashContent('这个产品很好')).toBe('017471181396d0');
+  });
+
+  it('always writes 14 hex digits', () => {
+    for (const text of ['', 'a', 'hello world', '👍'.repeat(100)]) expect(hashContent(text)).toMatch(/^[0-9a-f]{14}$/);
+  });
+
+  it('tells apart texts that differ by one character', () => {
+    const texts = Array.from({ length: 10000 }, (_, i) => `row ${i}`);
+    expect(new Set(texts.map(hashContent)).size).toBe(texts.length);
+    expect(hashContent('Great product')).not.toBe(hashContent('Great product!'));
+  });
+});
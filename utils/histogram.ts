@@ -0,0 +1,90 @@
+import { RiskAnalysisRow } from '../types';
+
+// Scores below this are drawn in the first bin on the log scale (log10(0) is undefined)
+export const LOG_FLOOR = 1e-7;
+
+export interface ScoreScale {
+  min: number;
+  max: number;
+  log: boolean;
+}
+
+export interface Histogram {
+  scale: ScoreScale;
+  edges: number[]; // bins + 1 score values
+  types: string[]; // Stack order; the last entry may be 'Other'
+  counts: number[][]; // [bin][typeIndex]
+  totals: number[]; // Rows per bin
+  above: number[]; // Rows with score >= edges[i]
+  maxBinTotal: number;
+  rowCount: number;
+}
+
+export const OTHER_TYPE = 'Other';
+
+// Position of a score on the axis, 0-1
+export const scoreToPosition = (score: number, scale: ScoreScale): number => {
+  if (scale.log) {
+    const lmin = Math.log10(scale.min);
+    const lmax = Math.log10(scale.max);
+    if (lmax <= lmin) return 0;
+    return Math.min(1, Math.max(0, (Math.log10(Math.max(score, scale.min)) - lmin) / (lmax - lmin)));
+  }
+  if (scale.max <= scale.min) return 0;
+  return Math.min(1, Math.max(0, (score - scale.min) / (scale.max - scale.min)));
+};
+
+export const positionToScore = (position: number, scale: ScoreScale): number => {
+  const p = Math.min(1, Math.max(0, position));
+  if (scale.log) {
+    const lmin = Math.log10(scale.min);
+    const lmax = Math.log10(scale.max);
+    return Math.pow(10, lmin + p * (lmax - lmin));
+  }
+  return scale.min + p * (scale.max - scale.min);
+};
+
+// Single pass over the rows for min/max and type counts, a second for binning.
+// Only the most frequent types get their own stack segment; the rest are merged into 'Other'.
+export const buildHistogram = (
+  rows: RiskAnalysisRow[],
+  options: { bins: number; log: boolean; maxTypes: number }
+): Histogram => {
+  let max = 0;
+  let minPositive = Infinity;
+  const typeCounts = new Map<string, number>();
+  for (const row of rows) {
+    if (row.riskScore > max) max = row.riskScore;
+    if (row.riskScore > 0 && row.riskScore < minPositive) minPositive = row.riskScore;
+    typeCounts.set(row.riskType, (typeCounts.get(row.riskType) || 0) + 1);
+  }
+
+  const scale: ScoreScale = options.log
+    ? { min: Math.max(LOG_FLOOR, Math.min(minPositive, max)), max: Math.max(max, LOG_FLOOR * 10), log: true }
+    : { min: 0, max: max > 0 ? max : 1, log: false };
+
+  const ranked = Array.from(typeCounts.entries()).sort((a, b) => b[1] - a[1]).map(([type]) => type);
+  const types = ranked.length > options.maxTypes ? [...ranked.slice(0, options.maxTypes - 1), OTHER_TYPE] : ranked;
+  const typeIndex = new Map<string, number>();
+  ranked.forEach((type, i) => typeIndex.set(type, Math.min(i, types.length - 1)));
+
+  const edges: number[] = [];
+  for (let i = 0; i <= options.bins; i++) edges.push(positionToScore(i / options.bins, scale));
+
+  const counts = Array.from({ length: options.bins }, () => new Array(types.length).fill(0));
+  const totals = new Array(options.bins).fill(0);
+  for (const row of rows) {
+    const bin = Math.min(options.bins - 1, Math.floor(scoreToPosition(row.riskScore, scale) * options.bins));
+    counts[bin][typeIndex.get(row.riskType)!]++;
+    totals[bin]++;
+  }
+
+  // above[i] = rows in bins i..end, i.e. scoring at or above the bin's lower edge
+  const above = new Array(options.bins + 1).fill(0);
+  for (let i = options.bins - 1; i >= 0; i--) above[i] = above[i + 1] + totals[i];
+
+  let maxBinTotal = 0;
+  for (const total of totals) if (total > maxBinTotal) maxBinTotal = total;
+
+  return { scale, edges, types, counts, totals, above, maxBinTotal, rowCount: rows.length };
+};
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { createNearDuplicateIndex } from './nearDuplicates';
+
+describe('createNearDuplicateIndex', () => {
+  it('keeps the first row and drops later rows that differ only slightly', () => {
+    const index = createNearDuplicateIndex(0.7);
+    expect(index.check('这个产品质量非常好，物流也很快，下次还会再来购买')).toBe(false);
+    expect(index.check('这个产品质量非常好，物流也很快，下次还会再来购买！')).toBe(true);
+    expect(index.check('这个产品质量非常好，物流也很快，下次还会再来购买吧')).toBe(true);
+
+    const [cluster] = index.getClusters();
+    expect(cluster.representative).toBe('这个产品质量非常好，物流也很快，下次还会再来购买');
+    expect(cluster.size).toBe(2);
+    expect(cluster.members[0].similarity).toBeGreaterThanOrEqual(0.7);
+  });
+
+  it('keeps unrelated texts', () => {
+    const index = createNearDuplicateIndex(0.7);
+    expect(index.check('The delivery was fast and the packaging was intact')).toBe(false);
+    expect(index.check('Customer service never answered my refund request')).toBe(false);
+    expect(index.getClusters()).toEqual([]);
+  });
+
+  it('ignores whitespace differences', () => {
+    const index = createNearDuplicateIndex(0.9);
+    index.check('limited offer click the link now');
+    expect(index.check('limited  offer\nclick the link   now')).toBe(true);
+  });
+
+  it('never goes below the minimum similarity', () => {
+    const index = createNearDuplicateIndex(0);
+    index.check('the quick brown fox jumps over the lazy dog');
+    expect(index.check('pack my box with five dozen liquor jugs')).toBe(false);
+  });
+
+  it('lists the largest clusters first', () => {
+    const index = createNearDuplicateIndex(0.7);
+    ['aaa bbb ccc ddd eee fff ggg', 'zzz yyy xxx www vvv uuu ttt'].forEach(text => index.check(text));
+    index.check('aaa bbb ccc ddd eee fff ggg!');
+    index.check('zzz yyy xxx www vvv uuu ttt!');
+    index.check('zzz yyy xxx www vvv uuu ttt?');
+    expect(index.getClusters().map(c => [c.representative, c.size])).toEqual([
+      ['zzz yyy xxx www vvv uuu ttt', 2],
+      ['aaa bbb ccc ddd eee fff ggg', 1],
+    ]);
+  });
+});
@@ -0,0 +1,122 @@
+import { DuplicateCluster } from '../types';
+
+// Streaming near-duplicate detection: MinHash signatures over character 3-grams, bucketed with
+// locality-sensitive hashing so each new row is only compared against likely matches.
+// The first row of a cluster is its representative; later rows similar enough to it are dropped.
+
+const SHINGLE_SIZE = 3;
+const BANDS = 16;
+const ROWS_PER_BAND = 4;
+const NUM_HASHES = BANDS * ROWS_PER_BAND; // LSH catches pairs above roughly (1/16)^(1/4) = 0.5 similarity
+
+// Similarity below the LSH sensitivity would silently miss most pairs
+export const MIN_SIMILARITY = 0.5;
+
+const MAX_LISTED_MEMBERS = 50;
+
+// Murmur3 finalizer: cheap, well-mixed 32-bit hashing
+const fmix32 = (h: number) => {
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+};
+
+const hashString = (text: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) h = Math.imul(h ^ text.charCodeAt(i), 0x01000193);
+  return h >>> 0;
+};
+
+const SEEDS = Array.from({ length: NUM_HASHES }, (_, i) => fmix32(i + 1));
+
+const signatureOf = (text: string): Uint32Array => {
+  const chars = Array.from(text.replace(/\s+/g, ''));
+  const shingles = new Set<number>();
+  if (chars.length <= SHINGLE_SIZE) {
+    shingles.add(hashString(chars.join('')));
+  } else {
+    for (let i = 0; i <= chars.length - SHINGLE_SIZE; i++) {
+      shingles.add(hashString(chars.slice(i, i + SHINGLE_SIZE).join('')));
+    }
+  }
+
+  const signature = new Uint32Array(NUM_HASHES).fill(0xffffffff);
+  shingles.forEach(shingle => {
+    for (let i = 0; i < NUM_HASHES; i++) {
+      const h = fmix32(shingle ^ SEEDS[i]);
+      if (h < signature[i]) signature[i] = h;
+    }
+  });
+  return signature;
+};
+
+const estimateSimilarity = (a: Uint32Array, b: Uint32Array) => {
+  let same = 0;
+  for (let i = 0; i < NUM_HASHES; i++) if (a[i] === b[i]) same++;
+  return same / NUM_HASHES;
+};
+
+export const createNearDuplicateIndex = (similarity: number) => {
+  const threshold = Math.max(MIN_SIMILARITY, similarity);
+  const buckets = new Map<string, number[]>(); // "band:hash" -> cluster ids
+  const signatures: Uint32Array[] = [];
+  const clusters: DuplicateCluster[] = [];
+
+  const bandKeys = (signature: Uint32Array) => {
+    const keys: string[] = [];
+    for (let band = 0; band < BANDS; band++) {
+      let h = band;
+      for (let r = 0; r < ROWS_PER_BAND; r++) h = fmix32(h ^ signature[band * ROWS_PER_BAND + r]);
+      keys.push(`${band}:${h}`);
+    }
+    return keys;
+  };
+
+  // Returns true if the content is a near duplicate of an earlier representative (and records it);
+  // otherwise registers it as a new representative.
+  const check = (content: string): boolean => {
+    const signature = signatureOf(content);
+    const keys = bandKeys(signature);
+
+    let bestId = -1;
+    let bestSimilarity = 0;
+    const seen = new Set<number>();
+    for (const key of keys) {
+      for (const id of buckets.get(key) || []) {
+        if (seen.has(id)) continue;
+        seen.add(id);
+        const s = estimateSimilarity(signature, signatures[id]);
+        if (s > bestSimilarity) {
+          bestSimilarity = s;
+          bestId = id;
+        }
+      }
+    }
+
+    if (bestId >= 0 && bestSimilarity >= threshold) {
+      const cluster = clusters[bestId];
+      cluster.size++;
+      // Only a sample of members is kept, to keep the worker result small
+      if (cluster.members.length < MAX_LISTED_MEMBERS) cluster.members.push({ content, similarity: bestSimilarity });
+      return true;
+    }
+
+    const id = signatures.length;
+    signatures.push(signature);
+    clusters.push({ representative: content, members: [], size: 0 });
+    keys.forEach(key => {
+      const ids = buckets.get(key);
+      if (ids) ids.push(id);
+      else buckets.set(key, [id]);
+    });
+    return false;
+  };
+
+  // Only clusters that actually absorbed rows, largest first
+  const getClusters = () => clusters.filter(c => c.size > 0).sort((a, b) => b.size - a.size);
+
+  return { check, getClusters };
+};
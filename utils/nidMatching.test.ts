@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { RiskAnalysisRow } from '../types';
+import { matchNids, foldForMatch, mergeNidMappings, computeMatchStats, NidMapping } from './nidMatching';
+
+const row = (id: number, content: string): RiskAnalysisRow => ({
+  id,
+  content,
+  riskScore: 0.5,
+  riskType: 'spam',
+  sourceFile: 'scores.csv',
+  sourceRow: id + 1,
+  contentHash: `hash-${id}`,
+});
+
+const mapping: NidMapping = new Map([
+  ['Great product, fast delivery!', ['N1']],
+  ['Great product, fast delivery!!', ['N2']],
+  ['Terrible service, never again', ['N3', 'N4']],
+  ['ok', ['N5']],
+]);
+
+describe('foldForMatch', () => {
+  it('folds width, case, punctuation and emoji', () => {
+    expect(foldForMatch('ＨＥＬＬＯ, World! 👍')).toBe('helloworld');
+  });
+});
+
+describe('matchNids', () => {
+  it('matches exact content only when fuzzy matching is off', () => {
+    const [exact, other] = matchNids(
+      [row(0, 'Terrible service, never again'), row(1, 'terrible service never again')],
+      mapping,
+      { fuzzy: false, maxEditDistance: 0 }
+    );
+    expect(exact.nid).toEqual(['N3', 'N4']);
+    expect(exact.nidMatch).toBe('exact');
+    expect(other.nid).toBeUndefined();
+  });
+
+  it('matches folded text and merges the NIDs of every source that folds the same', () => {
+    const [matched] = matchNids([row(0, 'GREAT product fast delivery')], mapping, { fuzzy: true, maxEditDistance: 0 });
+    expect(matched.nidMatch).toBe('fuzzy');
+    expect(matched.nid).toEqual(['N1', 'N2']);
+  });
+
+  it('matches within the edit distance but never short texts', () => {
+    const options = { fuzzy: true, maxEditDistance: 2 };
+    const [typo, far, short] = matchNids(
+      [row(0, 'Terible servise, never again'), row(1, 'Terrible food, never again'), row(2, 'oh')],
+      mapping,
+      options
+    );
+    expect(typo.nid).toEqual(['N3', 'N4']);
+    expect(typo.nidMatch).toBe('fuzzy');
+    expect(far.nid).toBeUndefined();
+    expect(short.nid).toBeUndefined();
+  });
+
+  it('counts matches by kind', () => {
+    const rows = matchNids(
+      [row(0, 'ok'), row(1, 'Terrible service, never again'), row(2, 'OK!'), row(3, 'unrelated text')],
+      mapping,
+      { fuzzy: true, maxEditDistance: 0 }
+    );
+    expect(computeMatchStats(rows)).toEqual({ exact: 2, fuzzy: 1, ambiguous: 1, unmatched: 1 });
+  });
+});
+
+describe('mergeNidMappings', () => {
+  it('unions the NIDs of the same content', () => {
+    const merged = mergeNidMappings([new Map([['a', ['N1']]]), new Map([['a', ['N1', 'N2']], ['b', ['N3']]])]);
+    expect(merged.get('a')).toEqual(['N1', 'N2']);
+    expect(merged.get('b')).toEqual(['N3']);
+  });
+});
@@ -0,0 +1,167 @@
+import { RiskAnalysisRow } from '../types';
+
+// Joins scored rows to source NIDs by content. Content -> NIDs is one-to-many: the same text
+// posted under several NIDs keeps all of them. Optional fuzzy stages run only for rows without
+// an exact match: folded comparison (width, case, punctuation, emoji), then edit distance.
+
+export type NidMapping = Map<string, string[]>;
+
+export interface NidMatchOptions {
+  fuzzy: boolean; // Compare folded text when the exact content does not match
+  maxEditDistance: number; // 0 disables edit-distance matching (on folded text)
+}
+
+export interface NidMatchStats {
+  exact: number;
+  fuzzy: number;
+  ambiguous: number; // Matched rows with more than one NID (subset of exact + fuzzy)
+  unmatched: number;
+}
+
+export const DEFAULT_NID_MATCH_OPTIONS: NidMatchOptions = { fuzzy: false, maxEditDistance: 0 };
+
+// Folded text shorter than this is never edit-distance matched: a couple of edits would make
+// unrelated short comments collide
+const MIN_EDIT_LENGTH = 8;
+
+const union = (lists: string[][]): string[] => Array.from(new Set(lists.flat()));
+
+export const mergeNidMappings = (mappings: NidMapping[]): NidMapping => {
+  const merged: NidMapping = new Map();
+  mappings.forEach(mapping => mapping.forEach((nids, content) => {
+    const existing = merged.get(content);
+    merged.set(content, existing ? union([existing, nids]) : nids);
+  }));
+  return merged;
+};
+
+export const formatNids = (row: RiskAnalysisRow): string => (row.nid || []).join(', ');
+
+// NFKC folds full-width forms to half-width; punctuation, symbols (including emoji),
+// whitespace and joiners are dropped
+export const foldForMatch = (text: string): string => {
+  return text.normalize('NFKC').toLowerCase().replace(/[\p{P}\p{S}\p{Z}\s\u200d\ufe0f]/gu, '');
+};
+
+// Levenshtein distance, giving up (returning max + 1) once it must exceed max
+const boundedEditDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+      if (curr[j] < rowMin) rowMin = curr[j];
+    }
+    if (rowMin > max) return max + 1;
+    prev = curr;
+  }
+  return prev[b.length];
+};
+
+// Pigeonhole index: split each folded source text into k + 1 segments. A query within k edits
+// contains at least one segment unchanged, shifted by at most k, so only texts sharing a
+// segment at a nearby offset need the full distance check.
+const segmentBounds = (length: number, k: number) => {
+  const size = Math.floor(length / (k + 1));
+  return Array.from({ length: k + 1 }, (_, i) => ({
+    start: i * size,
+    length: i === k ? length - i * size : size,
+  }));
+};
+
+const buildEditIndex = (folded: string[], k: number) => {
+  const index = new Map<string, number[]>();
+  folded.forEach((text, id) => {
+    if (text.length < MIN_EDIT_LENGTH) return;
+    segmentBounds(text.length, k).forEach((seg, i) => {
+      const key = `${text.length}|${i}|${text.substr(seg.start, seg.length)}`;
+      const ids = index.get(key);
+      if (ids) ids.push(id);
+      else index.set(key, [id]);
+    });
+  });
+  return index;
+};
+
+const findWithinDistance = (query: string, folded: string[], index: Map<string, number[]>, k: number): number[] => {
+  if (query.length < MIN_EDIT_LENGTH) return [];
+  const candidates = new Set<number>();
+  for (let length = query.length - k; length <= query.length + k; length++) {
+    if (length < MIN_EDIT_LENGTH) continue;
+    segmentBounds(length, k).forEach((seg, i) => {
+      for (let shift = -k; shift <= k; shift++) {
+        const start = seg.start + shift;
+        if (start < 0 || start + seg.length > query.length) continue;
+        index.get(`${length}|${i}|${query.substr(start, seg.length)}`)?.forEach(id => candidates.add(id));
+      }
+    });
+  }
+
+  // Keep only the closest texts
+  let best = k + 1;
+  let matches: number[] = [];
+  candidates.forEach(id => {
+    const distance = boundedEditDistance(query, folded[id], best);
+    if (distance < best) {
+      best = distance;
+      matches = [id];
+    } else if (distance === best && distance <= k) {
+      matches.push(id);
+    }
+  });
+  return matches;
+};
+
+export const matchNids = (rows: RiskAnalysisRow[], mapping: NidMapping, options: NidMatchOptions): RiskAnalysisRow[] => {
+  // Folded lookups are only built when needed
+  let foldedMap: NidMapping | null = null;
+  let foldedKeys: string[] = [];
+  let editIndex: Map<string, number[]> | null = null;
+
+  if (options.fuzzy) {
+    foldedMap = new Map();
+    mapping.forEach((nids, content) => {
+      const key = foldForMatch(content);
+      if (!key) return;
+      const existing = foldedMap!.get(key);
+      foldedMap!.set(key, existing ? union([existing, nids]) : nids);
+    });
+    if (options.maxEditDistance > 0) {
+      foldedKeys = Array.from(foldedMap.keys());
+      editIndex = buildEditIndex(foldedKeys, options.maxEditDistance);
+    }
+  }
+
+  return rows.map(row => {
+    const exact = mapping.get(row.content);
+    if (exact) return { ...row, nid: exact, nidMatch: 'exact' as const };
+
+    if (foldedMap) {
+      const key = foldForMatch(row.content);
+      const folded = foldedMap.get(key);
+      if (folded) return { ...row, nid: folded, nidMatch: 'fuzzy' as const };
+
+      if (editIndex) {
+        const ids = findWithinDistance(key, foldedKeys, editIndex, options.maxEditDistance);
+        if (ids.length > 0) {
+          return { ...row, nid: union(ids.map(id => foldedMap!.get(foldedKeys[id])!)), nidMatch: 'fuzzy' as const };
+        }
+      }
+    }
+    return { ...row, nid: undefined, nidMatch: undefined };
+  });
+};
+
+export const computeMatchStats = (rows: RiskAnalysisRow[]): NidMatchStats => {
+  const stats: NidMatchStats = { exact: 0, fuzzy: 0, ambiguous: 0, unmatched: 0 };
+  for (const row of rows) {
+    if (row.nidMatch === 'exact') stats.exact++;
+    else if (row.nidMatch === 'fuzzy') stats.fuzzy++;
+    else stats.unmatched++;
+    if (row.nid && row.nid.length > 1) stats.ambiguous++;
+  }
+  return stats;
+};
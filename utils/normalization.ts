@@ -0,0 +1,89 @@
+import { NormalizationPipeline } from '../types';
+
+const PIPELINE_KEY = 'risk_review.normalization';
+
+// Reproduces the original hard-coded behaviour (strip the review prefix, collapse line breaks)
+export const DEFAULT_NORMALIZATION: NormalizationPipeline = {
+  stripPrefixes: ['用户评价文本[:：]?\\s*'],
+  stripSuffixes: [],
+  unescapeHtml: false,
+  nfkc: false,
+  removeZeroWidth: false,
+  emoji: 'keep',
+  maxLength: null,
+};
+
+export const EMOJI_PLACEHOLDER = '[emoji]';
+
+export const loadNormalization = (): NormalizationPipeline => {
+  try {
+    const raw = localStorage.getItem(PIPELINE_KEY);
+    return raw ? { ...DEFAULT_NORMALIZATION, ...JSON.parse(raw) } : DEFAULT_NORMALIZATION;
+  } catch (err) {
+    console.warn('Failed to load normalization rules:', err);
+    return DEFAULT_NORMALIZATION;
+  }
+};
+
+export const saveNormalization = (pipeline: NormalizationPipeline) => {
+  localStorage.setItem(PIPELINE_KEY, JSON.stringify(pipeline));
+};
+
+// Returns the first invalid pattern as an error message, or null
+export const validateNormalization = (pipeline: NormalizationPipeline): string | null => {
+  for (const pattern of [...pipeline.stripPrefixes, ...pipeline.stripSuffixes]) {
+    try {
+      new RegExp(pattern, 'u');
+    } catch (err: any) {
+      return `Invalid pattern '${pattern}': ${err.message}`;
+    }
+  }
+  return null;
+};
+
+// DOMParser is not available in the parser worker, so entities are decoded by hand
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', hellip: '…', mdash: '—', ndash: '–',
+  ldquo: '“', rdquo: '”', lsquo: '‘', rsquo: '’', middot: '·', copy: '©', reg: '®',
+};
+
+const unescapeHtml = (text: string): string => {
+  return text
+    .replace(/<br\s*\/?>/gi, ' ')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, body: string) => {
+      if (body[0] === '#') {
+        const code = body[1] === 'x' || body[1] === 'X' ? parseInt(body.slice(2), 16) : parseInt(body.slice(1), 10);
+        return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+      }
+      return NAMED_ENTITIES[body.toLowerCase()] ?? entity;
+    });
+};
+
+const ZERO_WIDTH = /[\u200b-\u200f\u2060\ufeff\u00ad]/g;
+// An emoji with its variation selectors, skin tones and ZWJ sequences
+const EMOJI = /\p{Extended_Pictographic}(?:[\ufe0f\u{1f3fb}-\u{1f3ff}]|\u200d\p{Extended_Pictographic})*/gu;
+
+// Compiles the rules once into a function applied to every row. Order: HTML entities first (they
+// may hide zero-width or full-width characters), then Unicode cleanup, prefixes/suffixes,
+// emoji, whitespace and finally truncation.
+export const compileNormalizer = (pipeline: NormalizationPipeline): ((text: string) => string) => {
+  const prefixes = pipeline.stripPrefixes.filter(Boolean).map(p => new RegExp(`^(?:${p})`, 'u'));
+  const suffixes = pipeline.stripSuffixes.filter(Boolean).map(p => new RegExp(`(?:${p})$`, 'u'));
+
+  return (text: string) => {
+    if (!text) return '';
+    let clean = text;
+    if (pipeline.unescapeHtml) clean = unescapeHtml(clean);
+    if (pipeline.nfkc) clean = clean.normalize('NFKC');
+    if (pipeline.removeZeroWidth) clean = clean.replace(ZERO_WIDTH, '');
+    clean = clean.trim();
+    prefixes.forEach(regex => { clean = clean.replace(regex, ''); });
+    suffixes.forEach(regex => { clean = clean.replace(regex, ''); });
+    if (pipeline.emoji === 'remove') clean = clean.replace(EMOJI, '');
+    else if (pipeline.emoji === 'placeholder') clean = clean.replace(EMOJI, EMOJI_PLACEHOLDER);
+    // Normalize whitespace (tabs/newlines -> space)
+    clean = clean.replace(/[\t\n\r]+/g, ' ').trim();
+    if (pipeline.maxLength !== null && pipeline.maxLength > 0) clean = Array.from(clean).slice(0, pipeline.maxLength).join('');
+    return clean;
+  };
+};
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { ExportTable } from './exporters';
+import { exportParts, countParts, partName, buildManifest } from './outputSplit';
+
+const table = (count: number): ExportTable => ({
+  headers: ['strategy', 'content'],
+  rows: Array.from({ length: count }, (_, i) => ['s', `row ${i}`]),
+});
+
+const NO_LIMITS = { maxRows: null, maxBytes: null };
+
+describe('exportParts', () => {
+  it('writes a single file when no limit is set', async () => {
+    const parts = await exportParts('out', table(5), 'csv', NO_LIMITS);
+    expect(parts.map(p => [p.name, p.rows])).toEqual([['out.csv', 5]]);
+  });
+
+  it('splits by row count and repeats the header in every part', async () => {
+    const parts = await exportParts('out', table(5), 'csv', { maxRows: 2, maxBytes: null });
+    expect(parts.map(p => [p.name, p.rows])).toEqual([['out_part001.csv', 2], ['out_part002.csv', 2], ['out_part003.csv', 1]]);
+    for (const part of parts) expect((await part.blob.text()).split('\r\n')[0]).toBe('strategy,content');
+    expect(await parts[2].blob.text()).toContain('row 4');
+  });
+
+  it('keeps every part within the byte limit', async () => {
+    const maxBytes = 60;
+    const parts = await exportParts('out', table(20), 'csv', { maxRows: null, maxBytes });
+    expect(parts.length).toBeGreaterThan(1);
+    expect(parts.reduce((sum, p) => sum + p.rows, 0)).toBe(20);
+    for (const part of parts) expect(part.blob.size).toBeLessThanOrEqual(maxBytes);
+  });
+
+  it('gives a row larger than the byte limit a part of its own', async () => {
+    const big: ExportTable = { headers: ['content'], rows: [['a'], ['x'.repeat(100)], ['b']] };
+    const parts = await exportParts('out', big, 'csv', { maxRows: null, maxBytes: 20 });
+    expect(parts.map(p => p.rows)).toEqual([1, 1, 1]);
+  });
+});
+
+describe('countParts', () => {
+  it('matches the number of parts written', async () => {
+    for (const options of [NO_LIMITS, { maxRows: 3, maxBytes: null }, { maxRows: null, maxBytes: 50 }, { maxRows: 4, maxBytes: 50 }]) {
+      const parts = await exportParts('out', table(10), 'jsonl', options);
+      expect(countParts(table(10), 'jsonl', options)).toBe(parts.length);
+    }
+  });
+});
+
+describe('partName', () => {
+  it('numbers parts only when there are several, padded to the count', () => {
+    expect(partName('out', 'csv', 0, 1)).toBe('out.csv');
+    expect(partName('out', 'csv', 9, 12)).toBe('out_part010.csv');
+    expect(partName('out', 'txt', 41, 1200)).toBe('out_part0042.txt');
+  });
+});
+
+describe('buildManifest', () => {
+  it('lists every part with its size and checksum, and the totals', async () => {
+    const parts = await exportParts('out', table(5), 'csv', { maxRows: 2, maxBytes: null });
+    const manifest = JSON.parse(await buildManifest([{ source: 'input.csv', parts }], { maxRows: 2, maxBytes: null }));
+    expect(manifest.totalParts).toBe(3);
+    expect(manifest.totalRows).toBe(5);
+    expect(manifest.files[0].source).toBe('input.csv');
+    expect(manifest.files[0].parts[0]).toMatchObject({ name: 'out_part001.csv', rows: 2, bytes: parts[0].blob.size });
+    expect(manifest.files[0].parts[0].sha256).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
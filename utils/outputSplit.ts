@@ -0,0 +1,117 @@
+import { OutputSplitOptions, ExportFormat } from '../types';
+import { EXPORTERS, Exporter, ExportTable, ExportValue } from './exporters';
+
+const SPLIT_KEY = 'risk_review.outputSplit';
+
+export const DEFAULT_SPLIT_OPTIONS: OutputSplitOptions = { maxRows: null, maxBytes: null };
+
+export interface OutputPart {
+  name: string;
+  blob: Blob;
+  rows: number;
+}
+
+export interface ManifestEntry {
+  source: string; // Input file the parts were produced from
+  parts: OutputPart[];
+}
+
+export const loadSplitOptions = (): OutputSplitOptions => {
+  try {
+    const raw = localStorage.getItem(SPLIT_KEY);
+    return raw ? { ...DEFAULT_SPLIT_OPTIONS, ...JSON.parse(raw) } : DEFAULT_SPLIT_OPTIONS;
+  } catch (err) {
+    console.warn('Failed to load output split options:', err);
+    return DEFAULT_SPLIT_OPTIONS;
+  }
+};
+
+export const saveSplitOptions = (options: OutputSplitOptions) => {
+  localStorage.setItem(SPLIT_KEY, JSON.stringify(options));
+};
+
+// Groups rows into parts within the limits. A single row larger than maxBytes still gets a
+// part of its own, since rows are never broken up.
+const splitRows = (
+  table: ExportTable,
+  exporter: Exporter,
+  options: OutputSplitOptions
+): ExportValue[][][] => {
+  const headerBytes = exporter.headerBytes(table.headers);
+  // A format's own row limit (XLSX) splits the output even when no limit is set
+  const maxRows = Math.min(options.maxRows ?? Infinity, exporter.maxRows ?? Infinity);
+  const groups: ExportValue[][][] = [];
+  let current: ExportValue[][] = [];
+  let bytes = headerBytes;
+
+  for (const row of table.rows) {
+    const rowBytes = options.maxBytes !== null ? exporter.rowBytes(row, table.headers) : 0;
+    const full =
+      current.length >= maxRows ||
+      (options.maxBytes !== null && bytes + rowBytes > options.maxBytes);
+    if (full && current.length > 0) {
+      groups.push(current);
+      current = [];
+      bytes = headerBytes;
+    }
+    current.push(row);
+    bytes += rowBytes;
+  }
+  groups.push(current);
+  return groups;
+};
+
+// Number of parts exportParts would write, without writing them
+export const countParts = (table: ExportTable, format: ExportFormat, options: OutputSplitOptions): number => {
+  const exporter = EXPORTERS[format];
+  const noRowLimit = options.maxRows === null && (exporter.maxRows === undefined || table.rows.length <= exporter.maxRows);
+  if (noRowLimit && options.maxBytes === null) return 1;
+  return splitRows(table, exporter, options).length;
+};
+
+export const partName = (baseName: string, extension: string, index: number, count: number) => {
+  if (count === 1) return `${baseName}.${extension}`;
+  const digits = Math.max(3, String(count).length);
+  return `${baseName}_part${String(index + 1).padStart(digits, '0')}.${extension}`;
+};
+
+// Writes the table as numbered parts in the chosen format, each with its own header
+export const exportParts = async (
+  baseName: string,
+  table: ExportTable,
+  format: ExportFormat,
+  options: OutputSplitOptions
+): Promise<OutputPart[]> => {
+  const exporter = EXPORTERS[format];
+  const groups = splitRows(table, exporter, options);
+  return Promise.all(groups.map(async (rows, i) => ({
+    name: partName(baseName, exporter.extension, i, groups.length),
+    blob: await exporter.write({ ...table, rows }),
+    rows: rows.length,
+  })));
+};
+
+const sha256 = async (blob: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// JSON manifest written next to the parts so the upload can be checked for completeness
+export const buildManifest = async (entries: ManifestEntry[], options: OutputSplitOptions): Promise<string> => {
+  const files = await Promise.all(entries.map(async entry => ({
+    source: entry.source,
+    parts: await Promise.all(entry.parts.map(async part => ({
+      name: part.name,
+      rows: part.rows,
+      bytes: part.blob.size,
+      sha256: await sha256(part.blob),
+    }))),
+  })));
+  let totalRows = 0;
+  let totalParts = 0;
+  for (const file of files) {
+    totalParts += file.parts.length;
+    for (const part of file.parts) totalRows += part.rows;
+  }
+  return JSON.stringify({ createdAt: new Date().toISOString(), split: options, totalParts, totalRows, files }, null, 2);
+};
@@ -0,0 +1,114 @@
+import { EncodingDetection } from '../types';
+import { detectEncoding } from './encoding';
+import { createCsvChunkParser, uniqueHeaders } from './csvStream';
+import { ColumnMappingRequiredError } from './columnMapping';
+import { isWorkbookFile, isLegacyWorkbookFile, legacyWorkbookMessage, readWorkbookRows, SheetSelectionRequiredError } from './workbook';
+import { ParserJob, RowSink, createRowSink } from './parsers';
+
+// Parses one file off the main thread: reads it in slices, decodes incrementally (multi-byte
+// sequences split across slices are handled by the streaming TextDecoder) and feeds the rows
+// to the sink for the job kind. Excel workbooks are read whole and their rows fed the same way.
+
+export type ParserWorkerMessage =
+  | { type: 'progress'; loaded: number; total: number }
+  | { type: 'result'; result: unknown }
+  | {
+      type: 'error';
+      message: string;
+      mappingRequest?: Omit<ColumnMappingRequiredError, 'name' | 'message' | 'stack'>;
+      sheetRequest?: { fileName: string; sheets: string[] };
+    };
+
+const CHUNK_SIZE = 4 * 1024 * 1024;
+const SAMPLE_ROW_COUNT = 5;
+
+const scope = self as unknown as {
+  onmessage: (event: MessageEvent<ParserJob>) => void;
+  postMessage: (message: ParserWorkerMessage) => void;
+};
+
+const parseFile = async (job: ParserJob) => {
+  const { file } = job;
+  let encoding: EncodingDetection | undefined;
+  let decoder: TextDecoder | undefined;
+
+  let fields: string[] | null = null;
+  let sink: RowSink<unknown> | null = null;
+  let rowIndex = 0;
+  const pending: Record<string, string>[] = [];
+
+  const startSink = () => {
+    sink = createRowSink(job, fields || [], pending);
+    pending.forEach(row => sink!.onRow(row, rowIndex++));
+    pending.length = 0;
+  };
+
+  const onRows = (rows: string[][]) => {
+    for (const cells of rows) {
+      if (!fields) {
+        fields = uniqueHeaders(cells);
+        continue;
+      }
+      const record: Record<string, string> = {};
+      fields.forEach((field, i) => { record[field] = cells[i]; });
+
+      if (sink) {
+        sink.onRow(record, rowIndex++);
+      } else {
+        // Hold back the first rows: they are the samples shown by the column mapping wizard
+        pending.push(record);
+        if (pending.length >= SAMPLE_ROW_COUNT) startSink();
+      }
+    }
+  };
+
+  // Otherwise the binary file would be decoded as text and produce garbage rows
+  if (isLegacyWorkbookFile(file.name)) throw new Error(legacyWorkbookMessage(file.name));
+
+  if (isWorkbookFile(file.name)) {
+    const rows = await readWorkbookRows(await file.arrayBuffer(), file.name, job.sheet);
+    scope.postMessage({ type: 'progress', loaded: file.size, total: file.size });
+    onRows(rows);
+    if (!sink) startSink();
+    return sink!.finish({ encoding: 'utf-8', confidence: 1, source: 'workbook' });
+  }
+
+  const parser = createCsvChunkParser(onRows);
+
+  for (let offset = 0; offset < file.size; offset += CHUNK_SIZE) {
+    const buffer = await file.slice(offset, offset + CHUNK_SIZE).arrayBuffer();
+    if (!decoder) {
+      encoding = job.encoding
+        ? { encoding: job.encoding, confidence: 1, source: 'manual' }
+        : detectEncoding(buffer);
+      decoder = new TextDecoder(encoding.encoding);
+    }
+    parser.push(decoder.decode(buffer, { stream: true }));
+    scope.postMessage({ type: 'progress', loaded: Math.min(offset + CHUNK_SIZE, file.size), total: file.size });
+  }
+  if (decoder) parser.push(decoder.decode());
+  parser.finish();
+
+  if (!sink) startSink();
+  return sink!.finish(encoding || { encoding: 'utf-8', confidence: 1, source: 'detected' });
+};
+
+scope.onmessage = async (event) => {
+  try {
+    const result = await parseFile(event.data);
+    scope.postMessage({ type: 'result', result });
+  } catch (err: any) {
+    if (err instanceof SheetSelectionRequiredError) {
+      scope.postMessage({ type: 'error', message: err.message, sheetRequest: { fileName: err.fileName, sheets: err.sheets } });
+    } else if (err instanceof ColumnMappingRequiredError) {
+      const { fileName, fields, sampleRows, requiredRoles, optionalRoles, detected } = err;
+      scope.postMessage({
+        type: 'error',
+        message: err.message,
+        mappingRequest: { fileName, fields, sampleRows, requiredRoles, optionalRoles, detected },
+      });
+    } else {
+      scope.postMessage({ type: 'error', message: err?.message || 'Failed to parse file' });
+    }
+  }
+};
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { ValidationRules } from '../types';
+import { BatchParseResult, createRowSink } from './parsers';
+import { DEFAULT_NORMALIZATION } from './normalization';
+import { DEFAULT_VALIDATION_RULES } from './validation';
+
+const parseBatch = (contents: string[], validation: ValidationRules): BatchParseResult => {
+  const sink = createRowSink(
+    {
+      kind: 'batch',
+      file: new File([''], 'input.csv'),
+      savedMappings: {},
+      normalization: DEFAULT_NORMALIZATION,
+      config: { id: 'c', name: 'Default', strategy: 'default', extraColumns: [] },
+      validation,
+    },
+    ['content'],
+    contents.slice(0, 5).map(content => ({ content }))
+  );
+  contents.forEach((content, i) => sink.onRow({ content }, i));
+  return sink.finish({ encoding: 'utf-8', confidence: 1, source: 'detected' }) as BatchParseResult;
+};
+
+describe('batch sink', () => {
+  it('quarantines invalid content once and counts its repeats as duplicates', () => {
+    const result = parseBatch(['ab', 'hello', 'ab', 'hello', 'ab'], { ...DEFAULT_VALIDATION_RULES, minLength: 3 });
+    expect(result.quarantine).toEqual([{ row: 1, content: 'ab', reason: 'Shorter than 3 characters' }]);
+    expect(result.skipped).toEqual([
+      { row: 3, reason: 'duplicate', content: 'ab', duplicateOf: 'row 1 (quarantined)' },
+      { row: 4, reason: 'duplicate', content: 'hello', duplicateOf: undefined },
+      { row: 5, reason: 'duplicate', content: 'ab', duplicateOf: 'row 1 (quarantined)' },
+    ]);
+    expect(result.data.map(row => row.content)).toEqual(['hello']);
+    expect(result.stats).toMatchObject({ totalRows: 5, validRows: 1, exactDuplicates: 3, quarantinedRows: 1 });
+  });
+});
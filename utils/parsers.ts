@@ -0,0 +1,315 @@
+import {
+  ProcessedRow, ProcessingStats, RiskAnalysisRow, StrategyConfig, EncodingDetection,
+  ColumnMapping, TextEncodingName, GroundTruthLabel, NormalizationPipeline, DedupOptions, DuplicateCluster,
+  SkippedRow, SkipReason, ValidationRules, QuarantinedRow
+} from '../types';
+import { resolveColumns, ColumnMappingRequiredError } from './columnMapping';
+import { hashContent } from './hash';
+import { compileNormalizer } from './normalization';
+import { createNearDuplicateIndex } from './nearDuplicates';
+import { compileValidator } from './validation';
+
+// Row-level parsing logic shared by the parser worker. Each sink receives the header and a few
+// sample rows up front (to resolve columns), then every data row in order.
+
+// Pass-through values must not break the tab-separated output
+export const sanitizeCell = (value: string | undefined): string => {
+  if (!value) return '';
+  return value.replace(/[\t\n\r]+/g, ' ').trim();
+};
+
+export type ParserKind = 'batch' | 'risk' | 'source' | 'labels';
+
+export interface ParserJob {
+  kind: ParserKind;
+  file: File;
+  encoding?: TextEncodingName;
+  columnMapping?: ColumnMapping;
+  sheet?: string; // Excel workbooks only
+  savedMappings: Record<string, ColumnMapping>; // Workers cannot read localStorage
+  normalization: NormalizationPipeline; // Shared by every kind so content matches across files
+  config?: StrategyConfig; // batch only
+  dedup?: DedupOptions; // batch only
+  batchContent?: Map<string, string>; // batch only
+  exportHistory?: Set<string>; // batch only
+  validation?: ValidationRules; // batch only
+}
+
+export interface BatchParseResult {
+  data: ProcessedRow[];
+  stats: ProcessingStats;
+  nids: Map<string, string[]>;
+  clusters?: DuplicateCluster[];
+  skipped: SkippedRow[];
+  quarantine: QuarantinedRow[];
+}
+export interface RiskParseResult { data: RiskAnalysisRow[]; encoding: EncodingDetection }
+export interface SourceParseResult { mapping: Map<string, string[]>; encoding: EncodingDetection }
+export interface LabelParseResult { labels: GroundTruthLabel[]; unsureRows: number; encoding: EncodingDetection }
+
+export interface RowSink<T> {
+  onRow: (row: Record<string, string>, index: number) => void;
+  finish: (encoding: EncodingDetection) => T;
+}
+
+const createBatchSink = (
+  job: ParserJob,
+  fields: string[],
+  sampleRows: Record<string, string>[]
+): RowSink<BatchParseResult> => {
+  const config = job.config!;
+  const processedData: ProcessedRow[] = [];
+  const normalizeContent = compileNormalizer(job.normalization);
+  let totalCount = 0;
+  let validCount = 0;
+  let skippedCount = 0;
+  let exactCount = 0;
+  let nearCount = 0;
+  let crossFileCount = 0;
+  let historyCount = 0;
+  const skipped: SkippedRow[] = [];
+  const quarantine: QuarantinedRow[] = [];
+  const validate = job.validation ? compileValidator(job.validation) : null;
+
+  // Set to track duplicates
+  const seenContent = new Set<string>();
+  // Quarantined content -> its row, so repeats are counted as duplicates instead of quarantined again
+  const quarantinedRows = new Map<string, number>();
+  const nearIndex = job.dedup?.nearDuplicates ? createNearDuplicateIndex(job.dedup.similarity) : null;
+  // NIDs of every input row (duplicates included), remembered with the batch for the analyzer
+  const nids = new Map<string, string[]>();
+
+  // Find the correct column name for content
+  const { content: contentKey, nid: nidKey } =
+    resolveColumns(job.file.name, fields, sampleRows, ['content'], ['nid'], job.savedMappings, job.columnMapping);
+
+  // Columns referenced by the strategy config must exist in this file
+  const configColumns = [
+    config.strategyColumn,
+    ...config.extraColumns.filter(c => c.source === 'column').map(c => c.column),
+  ].filter((c): c is string => !!c);
+  const missingColumn = configColumns.find(c => !fields.includes(c));
+  if (missingColumn) {
+    throw new Error(`Column '${missingColumn}' required by strategy config '${config.name}' was not found.`);
+  }
+
+  const skip = (index: number, reason: SkipReason, content: string, duplicateOf?: string) => {
+    skippedCount++;
+    skipped.push({ row: index + 1, reason, content, duplicateOf });
+  };
+
+  const onRow = (row: Record<string, string>, index: number) => {
+    totalCount++;
+    const contentValue = row[contentKey!];
+
+    if (contentValue) {
+      const cleanContent = normalizeContent(contentValue);
+      const nid = nidKey ? (row[nidKey] || '').trim() : '';
+      if (cleanContent && nid) {
+        const list = nids.get(cleanContent);
+        if (!list) nids.set(cleanContent, [nid]);
+        else if (!list.includes(nid)) list.push(nid);
+      }
+
+      // Rows the scoring service would reject are set aside before they can shadow valid duplicates
+      const failedRule = cleanContent && validate && !quarantinedRows.has(cleanContent) ? validate(cleanContent) : null;
+
+      // 3. Deduplication Check
+      // Every first occurrence is remembered, so later repeats in this file count as exact duplicates
+      if (!cleanContent) {
+        skip(index, 'empty', contentValue);
+      } else if (quarantinedRows.has(cleanContent)) {
+        exactCount++;
+        skip(index, 'duplicate', cleanContent, `row ${quarantinedRows.get(cleanContent)} (quarantined)`);
+      } else if (failedRule) {
+        quarantinedRows.set(cleanContent, index + 1);
+        quarantine.push({ row: index + 1, content: cleanContent, reason: failedRule });
+      } else if (seenContent.has(cleanContent)) {
+        exactCount++;
+        skip(index, 'duplicate', cleanContent);
+      } else if (job.batchContent?.has(cleanContent)) {
+        seenContent.add(cleanContent);
+        crossFileCount++;
+        skip(index, 'other_file', cleanContent, job.batchContent.get(cleanContent));
+      } else if (job.exportHistory?.has(hashContent(cleanContent))) {
+        seenContent.add(cleanContent);
+        historyCount++;
+        skip(index, 'history', cleanContent);
+      } else if (nearIndex && nearIndex.check(cleanContent)) {
+        seenContent.add(cleanContent);
+        nearCount++;
+        skip(index, 'near_duplicate', cleanContent);
+      } else {
+        seenContent.add(cleanContent);
+        const strategyValue = config.strategyColumn ? sanitizeCell(row[config.strategyColumn]) : '';
+        processedData.push({
+          strategy: strategyValue || config.strategy,
+          content: cleanContent,
+          extra: config.extraColumns.map(c =>
+            c.source === 'fileName' ? sanitizeCell(job.file.name) : sanitizeCell(row[c.column!])
+          ),
+        });
+        validCount++;
+      }
+    } else {
+      skip(index, 'empty', '');
+    }
+  };
+
+  const finish = (encoding: EncodingDetection) => ({
+    data: processedData,
+    stats: {
+      totalRows: totalCount,
+      validRows: validCount,
+      skippedRows: skippedCount,
+      exactDuplicates: exactCount,
+      nearDuplicates: nearCount,
+      crossFileDuplicates: crossFileCount,
+      historyDuplicates: historyCount,
+      quarantinedRows: quarantine.length,
+      encoding
+    },
+    nids,
+    clusters: nearIndex?.getClusters(),
+    skipped,
+    quarantine
+  });
+
+  return { onRow, finish };
+};
+
+const createRiskSink = (
+  job: ParserJob,
+  fields: string[],
+  sampleRows: Record<string, string>[]
+): RowSink<RiskParseResult> => {
+  const riskData: RiskAnalysisRow[] = [];
+  const normalizeContent = compileNormalizer(job.normalization);
+
+  // Score is required; content and risk type fall back to empty / 'N/A'
+  const { score: scoreKey, content: contentKey, riskType: typeKey } =
+    resolveColumns(job.file.name, fields, sampleRows, ['score'], ['content', 'riskType'], job.savedMappings, job.columnMapping);
+
+  const onRow = (row: Record<string, string>, index: number) => {
+    const scoreRaw = row[scoreKey!];
+    if (!scoreRaw) return;
+
+    const score = parseFloat(scoreRaw);
+
+    if (!isNaN(score)) {
+      // Normalize content for potential matching later
+      const rawContent = contentKey ? row[contentKey] : '';
+      const normalizedContent = normalizeContent(rawContent);
+
+      const content = normalizedContent || rawContent; // Use normalized if possible, else raw
+      riskData.push({
+        id: index,
+        content,
+        contentHash: hashContent(content),
+        sourceFile: job.file.name,
+        sourceRow: index + 1,
+        riskScore: score,
+        riskType: typeKey ? row[typeKey] : 'N/A',
+      });
+    }
+  };
+
+  return { onRow, finish: (encoding) => ({ data: riskData, encoding }) };
+};
+
+const createSourceSink = (
+  job: ParserJob,
+  fields: string[],
+  sampleRows: Record<string, string>[]
+): RowSink<SourceParseResult> => {
+  const mapping = new Map<string, string[]>(); // Content -> every NID it was posted under
+  const normalizeContent = compileNormalizer(job.normalization);
+
+  // Both the NID and the content column are needed to build the mapping
+  const { nid: nidKey, content: contentKey } =
+    resolveColumns(job.file.name, fields, sampleRows, ['nid', 'content'], [], job.savedMappings, job.columnMapping);
+
+  const onRow = (row: Record<string, string>) => {
+    const nid = row[nidKey!];
+    const content = row[contentKey!];
+    if (nid && content) {
+      // Normalize content to match the processed format (remove prefix, etc)
+      const cleanContent = normalizeContent(content);
+      if (cleanContent) {
+        const nids = mapping.get(cleanContent);
+        if (!nids) mapping.set(cleanContent, [nid]);
+        else if (!nids.includes(nid)) nids.push(nid);
+      }
+    }
+  };
+
+  const finish = (encoding: EncodingDetection) => {
+    console.log(`Mapped ${mapping.size} NIDs from source file.`);
+    return { mapping, encoding };
+  };
+
+  return { onRow, finish };
+};
+
+// Verdict values used by the labeling teams; anything else counts as "unsure" and is left out
+const VIOLATION_VALUES = ['1', 'true', 'yes', 'y', 'violation', 'positive', '违规', '是', '有风险'];
+const CLEAN_VALUES = ['0', 'false', 'no', 'n', 'not violation', 'negative', '不违规', '否', '正常', '无风险'];
+
+export const parseVerdict = (value: string | undefined): boolean | null => {
+  const v = (value || '').trim().toLowerCase();
+  if (VIOLATION_VALUES.includes(v)) return true;
+  if (CLEAN_VALUES.includes(v)) return false;
+  return null;
+};
+
+const createLabelSink = (
+  job: ParserJob,
+  fields: string[],
+  sampleRows: Record<string, string>[]
+): RowSink<LabelParseResult> => {
+  const labels: GroundTruthLabel[] = [];
+  const normalizeContent = compileNormalizer(job.normalization);
+  let unsureRows = 0;
+
+  // The verdict is required, plus at least one of content / NID to join on
+  const resolved = resolveColumns(
+    job.file.name, fields, sampleRows, ['verdict'], ['content', 'nid', 'trueCategory'], job.savedMappings, job.columnMapping
+  );
+  if (!resolved.content && !resolved.nid) {
+    throw new ColumnMappingRequiredError(job.file.name, fields, sampleRows, ['verdict', 'content'], ['nid', 'trueCategory'], resolved);
+  }
+  const { verdict: verdictKey, content: contentKey, nid: nidKey, trueCategory: categoryKey } = resolved;
+
+  const onRow = (row: Record<string, string>) => {
+    const violation = parseVerdict(row[verdictKey!]);
+    if (violation === null) {
+      unsureRows++;
+      return;
+    }
+    const content = contentKey ? normalizeContent(row[contentKey]) : '';
+    const nid = nidKey ? (row[nidKey] || '').trim() : '';
+    if (!content && !nid) return;
+
+    labels.push({
+      content: content || undefined,
+      nid: nid || undefined,
+      violation,
+      trueCategory: categoryKey ? sanitizeCell(row[categoryKey]) || undefined : undefined,
+    });
+  };
+
+  return { onRow, finish: (encoding) => ({ labels, unsureRows, encoding }) };
+};
+
+export const createRowSink = (
+  job: ParserJob,
+  fields: string[],
+  sampleRows: Record<string, string>[]
+): RowSink<BatchParseResult | RiskParseResult | SourceParseResult | LabelParseResult> => {
+  switch (job.kind) {
+    case 'batch': return createBatchSink(job, fields, sampleRows);
+    case 'risk': return createRiskSink(job, fields, sampleRows);
+    case 'source': return createSourceSink(job, fields, sampleRows);
+    case 'labels': return createLabelSink(job, fields, sampleRows);
+  }
+};
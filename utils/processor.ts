@@ -1,307 +1,214 @@
-import Papa from 'papaparse';
 import JSZip from 'jszip';
-import { ProcessedRow, ProcessingStats, RiskAnalysisRow, ProcessedFileResult } from '../types';
-
-// Helper to normalize content for matching (removes prefix, handles whitespace)
-const normalizeContent = (text: string): string => {
-  if (!text) return '';
-  // 1. Remove specific prefix
-  let clean = text.trim().replace(/^用户评价文本[:：]?\s*/, '');
-  // 2. Normalize whitespace (tabs/newlines -> space)
-  clean = clean.replace(/[\t\n\r]+/g, ' ').trim();
-  return clean;
+import { RiskAnalysisRow, ProcessedFileResult, StrategyConfig, ParseOptions, OutputSplitOptions, ExportFormat } from '../types';
+import { DEFAULT_STRATEGY_CONFIG, getOutputHeaders } from './strategyPresets';
+import { ColumnMappingRequiredError, loadSavedMappings } from './columnMapping';
+import { loadNormalization } from './normalization';
+import { SheetSelectionRequiredError } from './workbook';
+import { formatNids } from './nidMatching';
+import { SKIP_REASON_LABELS } from './dedup';
+import { RunComparison, CHANGE_LABELS } from './runComparison';
+import { loadValidationRules } from './validation';
+import { DEFAULT_SPLIT_OPTIONS, ManifestEntry, exportParts, countParts, partName, buildManifest } from './outputSplit';
+import { EXPORTERS, ExportTable, ExportValue, saveBlob } from './exporters';
+import { ParserJob, BatchParseResult, RiskParseResult, SourceParseResult, LabelParseResult } from './parsers';
+import type { ParserWorkerMessage } from './parser.worker';
+
+export const isAbortError = (err: unknown): boolean => {
+  return err instanceof DOMException && err.name === 'AbortError';
 };
 
-export const processCSV = (file: File): Promise<{ data: ProcessedRow[]; stats: ProcessingStats }> => {
+// Runs one parse job in a dedicated worker so large files never block the UI.
+// Aborting the signal terminates the worker immediately.
+const runParserJob = <T>(job: Omit<ParserJob, 'savedMappings' | 'normalization'>, options: ParseOptions): Promise<T> => {
   return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-
-    reader.onload = (event) => {
-      try {
-        const buffer = event.target?.result as ArrayBuffer;
-        // Critical: Decode as GBK to handle Chinese characters correctly
-        const decoder = new TextDecoder('gbk');
-        const csvString = decoder.decode(buffer);
-
-        Papa.parse(csvString, {
-          header: true,
-          skipEmptyLines: true,
-          complete: (results) => {
-            const rows = results.data as Record<string, string>[];
-            const processedData: ProcessedRow[] = [];
-            let validCount = 0;
-            let skippedCount = 0;
-            const fields = results.meta.fields || [];
-            
-            // Set to track duplicates
-            const seenContent = new Set<string>();
-
-            // Find the correct column name for content
-            const contentKey = fields.find(f => {
-                const clean = f.trim();
-                return clean === '内容' || clean === 'content';
-            });
-
-            if (!contentKey) {
-              reject(new Error("Could not find the column named '内容' or 'content' in the CSV file."));
-              return;
-            }
+    const worker = new Worker(new URL('./parser.worker.ts', import.meta.url), { type: 'module' });
 
-            rows.forEach((row) => {
-              const contentValue = row[contentKey];
-              
-              if (contentValue) {
-                const cleanContent = normalizeContent(contentValue);
-
-                // 3. Deduplication Check
-                if (cleanContent && !seenContent.has(cleanContent)) {
-                    seenContent.add(cleanContent);
-                    processedData.push({
-                      strategy: 'service_safe_cate_v2', // Constant value as requested
-                      content: cleanContent,
-                    });
-                    validCount++;
-                } else {
-                    // Duplicate or empty after cleaning
-                    skippedCount++;
-                }
-              } else {
-                skippedCount++;
-              }
-            });
+    const cleanup = () => {
+      worker.terminate();
+      options.signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(new DOMException(`Parsing of ${job.file.name} was cancelled`, 'AbortError'));
+    };
 
-            resolve({
-              data: processedData,
-              stats: {
-                totalRows: rows.length,
-                validRows: validCount,
-                skippedRows: skippedCount
-              }
-            });
-          },
-          error: (error: Error) => {
-            reject(error);
-          }
-        });
-      } catch (err) {
-        reject(err);
+    if (options.signal?.aborted) {
+      onAbort();
+      return;
+    }
+    options.signal?.addEventListener('abort', onAbort);
+
+    worker.onmessage = (event: MessageEvent<ParserWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        options.onProgress?.(message.loaded, message.total);
+      } else if (message.type === 'result') {
+        cleanup();
+        resolve(message.result as T);
+      } else {
+        cleanup();
+        const req = message.mappingRequest;
+        const sheetReq = message.sheetRequest;
+        reject(sheetReq
+          ? new SheetSelectionRequiredError(sheetReq.fileName, sheetReq.sheets)
+          : req
+          ? new ColumnMappingRequiredError(req.fileName, req.fields, req.sampleRows, req.requiredRoles, req.optionalRoles, req.detected)
+          : new Error(message.message));
       }
     };
 
-    reader.onerror = () => {
-      reject(new Error("Failed to read file"));
+    worker.onerror = (event) => {
+      cleanup();
+      reject(new Error(event.message || `Failed to read ${job.file.name}`));
     };
 
-    // Read as ArrayBuffer to allow manual decoding
-    reader.readAsArrayBuffer(file);
+    worker.postMessage({ ...job, savedMappings: loadSavedMappings(), normalization: loadNormalization() } as ParserJob);
   });
 };
 
-export const processRiskCSV = (file: File): Promise<RiskAnalysisRow[]> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-
-    reader.onload = (event) => {
-      try {
-        const buffer = event.target?.result as ArrayBuffer;
-        
-        // Strategy: Try GBK first (User request), if that fails to find columns, try UTF-8.
-        let decoder = new TextDecoder('gbk');
-        let csvString = decoder.decode(buffer);
-        
-        let parseResult = Papa.parse(csvString, { header: true, skipEmptyLines: true });
-        let fields = parseResult.meta.fields || [];
-        
-        // Check if we found the score column with GBK
-        const isColumnFound = (f: string) => f.includes('风险得分') || f.includes('文心安全算子') || f.includes('Risk Score');
-        let scoreKey = fields.find(isColumnFound);
-
-        // If not found, try UTF-8
-        if (!scoreKey) {
-             console.warn("GBK decoding failed to find expected columns. Retrying with UTF-8.");
-             decoder = new TextDecoder('utf-8');
-             csvString = decoder.decode(buffer);
-             parseResult = Papa.parse(csvString, { header: true, skipEmptyLines: true });
-             fields = parseResult.meta.fields || [];
-             scoreKey = fields.find(isColumnFound);
-        }
-
-        if (!scoreKey) {
-          const available = fields.map(f => `'${f}'`).join(', ');
-          reject(new Error(`Could not find column '文心安全算子V2-风险得分' (or similar). Found columns: ${available}`));
-          return;
-        }
-
-        const rows = parseResult.data as Record<string, string>[];
-        const riskData: RiskAnalysisRow[] = [];
-
-        // Helper to find column with flexible matching
-        const findColumn = (target: string) => {
-            return fields.find(f => f.trim().includes(target));
-        };
-        
-        // Try to find content column
-        const contentKey = fields.find(f => ['content', '内容'].some(k => f.trim() === k)) || findColumn('内容') || findColumn('content');
-        
-        // Try specific full matches first, then partials for Risk Type
-        let typeKey = fields.find(f => f.trim() === '文心安全算子V2-一级风险类型');
-        if (!typeKey) typeKey = findColumn('一级风险类型');
-
-        rows.forEach((row, index) => {
-          const scoreRaw = row[scoreKey!]; 
-          if (!scoreRaw) return;
-
-          const score = parseFloat(scoreRaw);
-
-          if (!isNaN(score)) {
-            // Normalize content for potential matching later
-            const rawContent = contentKey ? row[contentKey] : '';
-            const normalizedContent = normalizeContent(rawContent);
+export const processCSV = (
+  file: File,
+  config: StrategyConfig = DEFAULT_STRATEGY_CONFIG,
+  options: ParseOptions = {}
+): Promise<BatchParseResult> => {
+  return runParserJob(
+    {
+      kind: 'batch', file, config, encoding: options.encoding, columnMapping: options.columnMapping, sheet: options.sheet,
+      dedup: options.dedup, batchContent: options.batchContent, exportHistory: options.exportHistory,
+      validation: loadValidationRules()
+    },
+    options
+  );
+};
 
-            riskData.push({
-              id: index,
-              content: normalizedContent || rawContent, // Use normalized if possible, else raw
-              riskScore: score,
-              riskType: typeKey ? row[typeKey] : 'N/A',
-              originalRow: row
-            });
-          }
-        });
+export const processRiskCSV = (file: File, options: ParseOptions = {}): Promise<RiskParseResult> => {
+  return runParserJob({ kind: 'risk', file, encoding: options.encoding, columnMapping: options.columnMapping, sheet: options.sheet }, options);
+};
 
-        resolve(riskData);
+export const processSourceMapping = (file: File, options: ParseOptions = {}): Promise<SourceParseResult> => {
+  return runParserJob({ kind: 'source', file, encoding: options.encoding, columnMapping: options.columnMapping, sheet: options.sheet }, options);
+};
 
-      } catch (err) {
-        reject(err);
-      }
-    };
-    reader.onerror = () => reject(new Error("Failed to read file"));
-    reader.readAsArrayBuffer(file);
-  });
+export const processLabels = (file: File, options: ParseOptions = {}): Promise<LabelParseResult> => {
+  return runParserJob({ kind: 'labels', file, encoding: options.encoding, columnMapping: options.columnMapping, sheet: options.sheet }, options);
 };
 
-export const processSourceMapping = (file: File): Promise<Map<string, string>> => {
-    return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onload = (event) => {
-            try {
-                const buffer = event.target?.result as ArrayBuffer;
-                // Try GBK first as per usual requirement, fallback to UTF-8 handled if key columns missing
-                let decoder = new TextDecoder('gbk');
-                let csvString = decoder.decode(buffer);
-                
-                let parseResult = Papa.parse(csvString, { header: true, skipEmptyLines: true });
-                let fields = parseResult.meta.fields || [];
-                
-                // Check for NID column
-                let nidKey = fields.find(f => f.trim().toUpperCase() === 'NID' || f.includes('业务方id'));
-                
-                if (!nidKey) {
-                    // Try UTF-8 Fallback
-                    decoder = new TextDecoder('utf-8');
-                    csvString = decoder.decode(buffer);
-                    parseResult = Papa.parse(csvString, { header: true, skipEmptyLines: true });
-                    fields = parseResult.meta.fields || [];
-                    nidKey = fields.find(f => f.trim().toUpperCase() === 'NID' || f.includes('业务方id'));
-                }
+const processedTable = (file: ProcessedFileResult): ExportTable => ({
+    headers: getOutputHeaders(file.config),
+    rows: file.data.map(row => [row.strategy, row.content, ...(row.extra || [])]),
+    sheetName: file.config.strategy,
+});
 
-                if (!nidKey) {
-                    reject(new Error("Could not find 'NID' column in source file."));
-                    return;
-                }
+const formatFileParts = (file: ProcessedFileResult, format: ExportFormat, split: OutputSplitOptions) => {
+    return exportParts(`${safeBaseName(file.originalName)}_processed`, processedTable(file), format, split);
+};
 
-                // Find content column
-                const contentKey = fields.find(f => ['content', '内容'].some(k => f.trim() === k)) || fields.find(f => f.includes('内容'));
-                 if (!contentKey) {
-                    reject(new Error("Could not find 'Content' column in source file."));
-                    return;
-                }
+const safeBaseName = (filename: string) => filename.replace(/\.(csv|txt|xlsx|xlsm|xls)$/i, '');
+
+// Name of the file downloadProcessedFile saves: the single part, or the ZIP holding all parts
+export const processedOutputName = (
+  file: ProcessedFileResult,
+  format: ExportFormat = 'txt',
+  split: OutputSplitOptions = DEFAULT_SPLIT_OPTIONS
+) => {
+    const baseName = `${safeBaseName(file.originalName)}_processed`;
+    const count = countParts(processedTable(file), format, split);
+    return count === 1 ? partName(baseName, EXPORTERS[format].extension, 0, 1) : `${baseName}_parts.zip`;
+};
 
-                const mapping = new Map<string, string>();
-                const rows = parseResult.data as Record<string, string>[];
+const zipWithManifest = async (entries: ManifestEntry[], split: OutputSplitOptions): Promise<Blob> => {
+    const zip = new JSZip();
+    entries.forEach(entry => entry.parts.forEach(part => zip.file(part.name, part.blob)));
+    zip.file('manifest.json', await buildManifest(entries, split));
+    return zip.generateAsync({ type: 'blob' });
+};
 
-                rows.forEach(row => {
-                    const nid = row[nidKey!];
-                    const content = row[contentKey!];
-                    if (nid && content) {
-                        // Normalize content to match the processed format (remove prefix, etc)
-                        const cleanContent = normalizeContent(content);
-                        if (cleanContent) {
-                            mapping.set(cleanContent, nid);
-                        }
-                    }
-                });
-                
-                console.log(`Mapped ${mapping.size} NIDs from source file.`);
-                resolve(mapping);
+// A file that needs several parts is downloaded as a ZIP of the parts plus their manifest
+export const downloadProcessedFile = async (
+  file: ProcessedFileResult,
+  format: ExportFormat = 'txt',
+  split: OutputSplitOptions = DEFAULT_SPLIT_OPTIONS
+) => {
+  const parts = await formatFileParts(file, format, split);
+  if (parts.length === 1) {
+    saveBlob(parts[0].blob, parts[0].name);
+    return;
+  }
+  const blob = await zipWithManifest([{ source: file.originalName, parts }], split);
+  saveBlob(blob, `${safeBaseName(file.originalName)}_processed_parts.zip`);
+};
 
-            } catch (err) {
-                reject(err);
-            }
-        };
-        reader.onerror = () => reject(new Error("Failed to read source file"));
-        reader.readAsArrayBuffer(file);
-    });
+export const downloadZip = async (
+  files: ProcessedFileResult[],
+  format: ExportFormat = 'txt',
+  split: OutputSplitOptions = DEFAULT_SPLIT_OPTIONS
+) => {
+    const valid = files.filter(file => !file.error && file.data.length > 0);
+    const entries: ManifestEntry[] = await Promise.all(valid.map(async file => ({
+        source: file.originalName,
+        parts: await formatFileParts(file, format, split),
+    })));
+
+    const blob = await zipWithManifest(entries, split);
+    saveBlob(blob, 'batch_processed_files.zip');
 };
 
-const formatFileContent = (data: ProcessedRow[]) => {
-    const header = "strategy\tcontent";
-    const rows = data.map(row => {
-        return `${row.strategy}\t${row.content}`;
-    }).join('\n');
-    return `${header}\n${rows}`;
+// A table over the format's row limit (XLSX) is saved as a ZIP of parts instead of failing
+const downloadSplitTable = async (table: ExportTable, baseName: string, format: ExportFormat) => {
+    const parts = await exportParts(baseName, table, format, DEFAULT_SPLIT_OPTIONS);
+    if (parts.length === 1) {
+        saveBlob(parts[0].blob, parts[0].name);
+        return;
+    }
+    const blob = await zipWithManifest([{ source: baseName, parts }], DEFAULT_SPLIT_OPTIONS);
+    saveBlob(blob, `${baseName}_parts.zip`);
 };
 
-export const downloadTXT = (data: ProcessedRow[], filename: string) => {
-  const fileContent = formatFileContent(data);
-  const blob = new Blob([fileContent], { type: 'text/plain;charset=utf-8' });
-  const url = URL.createObjectURL(blob);
-  const link = document.createElement('a');
-  link.href = url;
-  
-  let safeName = filename.replace(/\.(csv|txt)$/i, '');
-  link.setAttribute('download', `${safeName}_processed.txt`);
-  
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
+export const downloadRiskData = (data: RiskAnalysisRow[], format: ExportFormat = 'csv') => {
+    const table: ExportTable = {
+        headers: ['nid', 'risk_score', 'risk_type', 'content', 'source_file', 'source_row', 'verdict', 'corrected_risk_type', 'review_note'],
+        rows: data.map(row => [
+            formatNids(row), row.riskScore, row.riskType, row.content, row.sourceFile, row.sourceRow,
+            row.verdict, row.correctedRiskType, row.reviewNote
+        ]),
+        sheetName: 'Risk Analysis',
+    };
+    return downloadSplitTable(table, 'risk_analysis_export', format);
 };
 
-export const downloadZip = async (files: ProcessedFileResult[]) => {
-    const zip = new JSZip();
-    
+// One table covering every file, so dropped rows can be checked in a spreadsheet
+export const downloadSkippedRows = (files: ProcessedFileResult[], format: ExportFormat = 'csv') => {
+    const rows: ExportValue[][] = [];
     files.forEach(file => {
-        if (file.error || file.data.length === 0) return;
-        const content = formatFileContent(file.data);
-        const safeName = file.originalName.replace(/\.(csv|txt)$/i, '');
-        zip.file(`${safeName}_processed.txt`, content);
+        (file.skipped || []).forEach(skipped => {
+            rows.push([file.originalName, skipped.row, SKIP_REASON_LABELS[skipped.reason], skipped.duplicateOf, skipped.content]);
+        });
     });
-
-    const blob = await zip.generateAsync({ type: 'blob' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.setAttribute('download', 'batch_processed_files.zip');
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    const headers = ['file', 'row', 'reason', 'duplicate_of', 'content'];
+    return downloadSplitTable({ headers, rows, sheetName: 'Skipped Rows' }, 'skipped_rows_audit', format);
 };
 
-export const downloadRiskData = (data: RiskAnalysisRow[]) => {
-    // Add BOM for Excel utf-8 compatibility
-    const BOM = "\uFEFF";
-    const header = "nid,risk_score,risk_type,content";
-    const csvContent = data.map(row => {
-        // Escape quotes in content
-        const safeContent = row.content.replace(/"/g, '""');
-        return `${row.nid || ''},${row.riskScore},${row.riskType},"${safeContent}"`;
-    }).join('\n');
+export const downloadQuarantine = (file: ProcessedFileResult, format: ExportFormat = 'csv') => {
+    const table: ExportTable = {
+        headers: ['row', 'reason', 'content'],
+        rows: (file.quarantine || []).map(row => [row.row, row.reason, row.content]),
+        sheetName: 'Quarantine',
+    };
+    return downloadSplitTable(table, `${safeBaseName(file.originalName)}_quarantine`, format);
+};
 
-    const blob = new Blob([BOM + header + '\n' + csvContent], { type: 'text/csv;charset=utf-8' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.setAttribute('download', 'risk_analysis_export.csv');
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-};
\ No newline at end of file
+export const downloadRunComparison = (comparison: RunComparison, format: ExportFormat = 'csv') => {
+    const table: ExportTable = {
+        headers: [
+            'change', 'nid', 'content', 'baseline_score', 'current_score', 'score_delta',
+            'baseline_risk_type', 'current_risk_type', 'baseline_flagged', 'current_flagged'
+        ],
+        rows: comparison.rows.map(row => [
+            CHANGE_LABELS[row.change], formatNids(row.current) || formatNids(row.baseline), row.current.content,
+            row.baseline.riskScore, row.current.riskScore, row.delta,
+            row.baseline.riskType, row.current.riskType, row.baselineFlagged ? 1 : 0, row.currentFlagged ? 1 : 0
+        ]),
+        sheetName: 'Run Comparison',
+    };
+    return downloadSplitTable(table, 'run_comparison', format);
+};
@@ -0,0 +1,307 @@
+import { RiskAnalysisRow } from '../types';
+import { dbGet, dbGetAll, dbGetAllKeys, dbPut, dbDelete } from './db';
+import { SessionSnapshot } from './session';
+import { ReviewPatch } from './reviews';
+
+// Sessions autosaved in this browser, so an accidentally closed tab loses nothing. The large
+// parts of a session (processed files, scored rows, uploads) are stored in records of their
+// own and only rewritten when they change; an autosave otherwise writes just the small state,
+// verdicts included. Nothing is serialized or compressed: IndexedDB stores Files and Maps as is.
+
+export interface SessionRecord {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  fileNames: string[]; // Uploads of both modules, for the list
+  processedFiles: number;
+  analyzerRows: number;
+  reviewedRows: number;
+  size: number; // Estimated bytes of the stored parts
+  partSizes: Record<string, number>; // Part name -> estimated bytes
+  state: SessionSnapshot; // Without the large parts
+  batchFileIds: string[]; // Order of the processed files, stored as parts
+  reviews: [number, ReviewPatch][]; // Row id -> review; the stored rows have none
+}
+
+interface SessionPart {
+  key: string;
+  value: unknown;
+}
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+// Older sessions are dropped beyond these limits, or when the origin's storage runs low
+export const MAX_SESSIONS = 10;
+export const MAX_SESSION_AGE_DAYS = 30;
+const MAX_QUOTA_SHARE = 0.8;
+
+// Rough per-row cost on top of the content, for the size shown in the list
+const ROW_OVERHEAD_BYTES = 200;
+const MAPPING_ENTRY_BYTES = 100;
+
+export const newSessionId = () => `session-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`;
+
+export const isEmptySession = (snapshot: SessionSnapshot) =>
+  snapshot.batch.files.length === 0 && snapshot.analyzer.data.length === 0;
+
+const fileNamesOf = (snapshot: SessionSnapshot) => {
+  const names = [
+    ...snapshot.batch.files.map(f => f.originalName),
+    ...snapshot.analyzer.riskFiles.map(f => f.file.name),
+    ...snapshot.analyzer.mappingFiles.map(f => f.file.name),
+  ];
+  return Array.from(new Set(names));
+};
+
+const defaultName = (fileNames: string[]) => {
+  if (fileNames.length === 0) return 'Untitled session';
+  return fileNames.length === 1 ? fileNames[0] : `${fileNames[0]} +${fileNames.length - 1} more`;
+};
+
+// --- Parts ---
+
+const partKey = (sessionId: string, name: string) => `${sessionId}|${name}`;
+const sessionIdOfPart = (key: string) => key.slice(0, key.lastIndexOf('|'));
+
+const REVIEW_FIELDS = new Set(['verdict', 'correctedRiskType', 'reviewNote']);
+
+const withoutReview = ({ verdict, correctedRiskType, reviewNote, ...row }: RiskAnalysisRow) => row;
+
+// Verdicts change the row objects, but only the review fields; those are saved with the state
+const sameRowsApartFromReviews = (a: RiskAnalysisRow[], b: RiskAnalysisRow[]) => {
+  if (a === b) return true;
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) {
+    const x = a[i];
+    const y = b[i];
+    if (x === y) continue;
+    for (const key in y) if (!REVIEW_FIELDS.has(key) && x[key] !== y[key]) return false;
+    for (const key in x) if (!REVIEW_FIELDS.has(key) && !(key in y)) return false;
+  }
+  return true;
+};
+
+const sameItems = (previous: unknown, current: unknown[]) =>
+  Array.isArray(previous) && previous.length === current.length && previous.every((item, i) => item === current[i]);
+
+const contentBytes = (rows: { content: string }[]) => {
+  let bytes = 0;
+  for (const row of rows) bytes += row.content.length * 2 + ROW_OVERHEAD_BYTES;
+  return bytes;
+};
+
+interface PartSpec {
+  name: string;
+  value: unknown; // What the next autosave compares against
+  unchanged: (previous: unknown) => boolean;
+  stored: () => unknown;
+  bytes: () => number;
+}
+
+const partsOf = ({ batch, analyzer }: SessionSnapshot): PartSpec[] => [
+  ...batch.files.map(file => ({
+    name: `batch/${file.id}`,
+    value: file,
+    unchanged: (previous: unknown) => previous === file, // Re-processing replaces the object
+    stored: () => file,
+    bytes: () => (file.file?.size || 0) + contentBytes(file.data),
+  })),
+  {
+    name: 'analyzer/rows',
+    value: analyzer.data,
+    unchanged: previous => Array.isArray(previous) && sameRowsApartFromReviews(previous, analyzer.data),
+    stored: () => analyzer.data.map(withoutReview),
+    bytes: () => contentBytes(analyzer.data),
+  },
+  {
+    name: 'analyzer/riskFiles',
+    value: analyzer.riskFiles,
+    unchanged: previous => sameItems(previous, analyzer.riskFiles),
+    stored: () => analyzer.riskFiles,
+    bytes: () => analyzer.riskFiles.reduce((sum, f) => sum + f.file.size, 0),
+  },
+  {
+    name: 'analyzer/mappingFiles',
+    value: analyzer.mappingFiles,
+    unchanged: previous => sameItems(previous, analyzer.mappingFiles),
+    stored: () => analyzer.mappingFiles,
+    bytes: () => analyzer.mappingFiles.reduce((sum, f) => sum + f.file.size + f.mapping.size * MAPPING_ENTRY_BYTES, 0),
+  },
+  {
+    name: 'analyzer/batches',
+    value: analyzer.batches,
+    unchanged: previous => sameItems(previous, analyzer.batches),
+    stored: () => analyzer.batches,
+    bytes: () => analyzer.batches.reduce((sum, b) => sum + contentBytes(b.contents.map(content => ({ content }))), 0),
+  },
+];
+
+// Parts last written for the session being worked on, compared by reference on the next autosave
+let written: { sessionId: string; values: Map<string, unknown> } | null = null;
+
+// --- Records ---
+
+export const listSessions = async (): Promise<SessionRecord[]> => {
+  try {
+    const records = await dbGetAll<SessionRecord>('sessions');
+    return records.sort((a, b) => b.updatedAt - a.updatedAt);
+  } catch (err) {
+    console.warn('Failed to load recent sessions:', err);
+    return [];
+  }
+};
+
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  try {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return quota > 0 ? { usage, quota } : null;
+  } catch {
+    return null;
+  }
+};
+
+const deleteRecord = async (record: SessionRecord) => {
+  await Promise.all(Object.keys(record.partSizes).map(name => dbDelete('sessionParts', partKey(record.id, name))));
+  await dbDelete('sessions', record.id);
+};
+
+// Drops sessions that are too old or too many, then the oldest ones while storage is nearly full,
+// and parts left behind by an interrupted save. The session being worked on is never dropped.
+export const pruneSessions = async (keepId: string | null) => {
+  const cutoff = Date.now() - MAX_SESSION_AGE_DAYS * 24 * 60 * 60 * 1000;
+  const sessions = await listSessions();
+  const others = sessions.filter(r => r.id !== keepId);
+  const kept = others.slice(0, MAX_SESSIONS - (keepId ? 1 : 0)).filter(r => r.updatedAt >= cutoff);
+  const dropped = others.filter(r => !kept.includes(r));
+
+  const storage = await getStorageUsage();
+  if (storage) {
+    let usage = storage.usage - dropped.reduce((sum, r) => sum + r.size, 0);
+    while (kept.length > 0 && usage > storage.quota * MAX_QUOTA_SHARE) {
+      const oldest = kept.pop()!;
+      usage -= oldest.size;
+      dropped.push(oldest);
+    }
+  }
+
+  await Promise.all(dropped.map(deleteRecord));
+
+  const live = new Set(sessions.filter(r => !dropped.includes(r)).map(r => r.id));
+  if (keepId) live.add(keepId);
+  const orphans = (await dbGetAllKeys('sessionParts')).filter(key => !live.has(sessionIdOfPart(String(key))));
+  await Promise.all(orphans.map(key => dbDelete('sessionParts', key)));
+  return dropped.length;
+};
+
+// A failed write (usually the quota) is retried once if pruning freed anything
+const writeOrPrune = async (sessionId: string, write: () => Promise<unknown>) => {
+  try {
+    await write();
+  } catch (err) {
+    console.warn('Autosave write failed, pruning older sessions:', err);
+    if ((await pruneSessions(sessionId)) === 0) throw err;
+    await write();
+  }
+};
+
+// Keeps a name given by the user. Throws when the session could not be stored.
+export const autosaveSession = async (id: string, snapshot: SessionSnapshot) => {
+  const existing = await dbGet<SessionRecord>('sessions', id);
+  const previous = written?.sessionId === id && existing?.partSizes ? written.values : new Map<string, unknown>();
+  const values = new Map<string, unknown>();
+  const partSizes: Record<string, number> = {};
+
+  for (const part of partsOf(snapshot)) {
+    const size = existing?.partSizes?.[part.name];
+    if (size !== undefined && previous.has(part.name) && part.unchanged(previous.get(part.name))) {
+      partSizes[part.name] = size;
+    } else {
+      await writeOrPrune(id, () => dbPut<SessionPart>('sessionParts', { key: partKey(id, part.name), value: part.stored() }));
+      partSizes[part.name] = part.bytes();
+    }
+    values.set(part.name, part.value);
+  }
+  written = { sessionId: id, values };
+
+  const { batch, analyzer } = snapshot;
+  const reviews: [number, ReviewPatch][] = [];
+  for (const row of analyzer.data) {
+    if (row.verdict || row.correctedRiskType || row.reviewNote) {
+      reviews.push([row.id, { verdict: row.verdict, correctedRiskType: row.correctedRiskType, reviewNote: row.reviewNote }]);
+    }
+  }
+  const fileNames = fileNamesOf(snapshot);
+  const record: SessionRecord = {
+    id,
+    name: existing?.name || defaultName(fileNames),
+    createdAt: existing?.createdAt || snapshot.savedAt,
+    updatedAt: snapshot.savedAt,
+    fileNames,
+    processedFiles: batch.files.length,
+    analyzerRows: analyzer.data.length,
+    reviewedRows: reviews.filter(([, review]) => review.verdict).length,
+    size: Object.values(partSizes).reduce((sum, size) => sum + size, 0),
+    partSizes,
+    state: {
+      ...snapshot,
+      batch: { ...batch, files: [] },
+      analyzer: { ...analyzer, data: [], riskFiles: [], mappingFiles: [], batches: [] },
+    },
+    batchFileIds: batch.files.map(f => f.id),
+    reviews,
+  };
+  await writeOrPrune(id, () => dbPut<SessionRecord>('sessions', record));
+
+  // Parts of files removed since the last save
+  const stale = Object.keys(existing?.partSizes || {}).filter(name => !(name in partSizes));
+  await Promise.all(stale.map(name => dbDelete('sessionParts', partKey(id, name))));
+  await pruneSessions(id);
+};
+
+export const loadRecentSession = async (id: string): Promise<SessionSnapshot> => {
+  const record = await dbGet<SessionRecord>('sessions', id);
+  if (!record) throw new Error('This session no longer exists.');
+
+  const values = new Map<string, unknown>();
+  await Promise.all(Object.keys(record.partSizes).map(async name => {
+    const part = await dbGet<SessionPart>('sessionParts', partKey(id, name));
+    if (!part) throw new Error('This session is incomplete and cannot be restored.');
+    values.set(name, part.value);
+  }));
+
+  const reviews = new Map(record.reviews);
+  const rows = (values.get('analyzer/rows') as RiskAnalysisRow[] | undefined) || [];
+  const data = reviews.size > 0 ? rows.map(row => (reviews.has(row.id) ? { ...row, ...reviews.get(row.id) } : row)) : rows;
+  values.set('analyzer/rows', data);
+
+  const { state } = record;
+  const snapshot: SessionSnapshot = {
+    ...state,
+    batch: { ...state.batch, files: record.batchFileIds.map(fileId => values.get(`batch/${fileId}`) as SessionSnapshot['batch']['files'][number]) },
+    analyzer: {
+      ...state.analyzer,
+      data,
+      riskFiles: (values.get('analyzer/riskFiles') as SessionSnapshot['analyzer']['riskFiles']) || [],
+      mappingFiles: (values.get('analyzer/mappingFiles') as SessionSnapshot['analyzer']['mappingFiles']) || [],
+      batches: (values.get('analyzer/batches') as SessionSnapshot['analyzer']['batches']) || [],
+    },
+  };
+  // Resuming continues this session, so unchanged parts are not written again
+  written = { sessionId: id, values };
+  return snapshot;
+};
+
+export const renameSession = async (id: string, name: string) => {
+  const record = await dbGet<SessionRecord>('sessions', id);
+  if (record) await dbPut<SessionRecord>('sessions', { ...record, name });
+};
+
+export const deleteSession = async (id: string) => {
+  const record = await dbGet<SessionRecord>('sessions', id);
+  if (record) await deleteRecord(record);
+};
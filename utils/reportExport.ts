@@ -0,0 +1,245 @@
+import { RiskAnalysisRow } from '../types';
+import { ThresholdSet, thresholdFor } from './thresholds';
+import { buildHistogram } from './histogram';
+import { ReportContext, buildReportContext } from './reportTemplates';
+import { saveBlob } from './exporters';
+
+// Structured Risk Summary Report for wiki pages, e-mail and PDF. Unlike the text templates this
+// always carries the full picture: per-type table, score distribution, thresholds, sources and
+// examples with NIDs.
+
+export interface RichReport {
+  title: string;
+  generatedAt: string; // Local time, YYYY-MM-DD HH:mm
+  selectionOnly: boolean;
+  sourceFiles: { name: string; rows: number }[];
+  nidSourceFiles: string[];
+  context: ReportContext;
+  thresholds: { defaultThreshold: number; byType: [string, number][] };
+  typeThresholds: Record<string, number>; // Effective threshold per reported type
+  distribution: { from: number; to: number; count: number }[]; // All loaded rows
+}
+
+const DISTRIBUTION_BINS = 10;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const formatTimestamp = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+// Short, stable labels for score bins (scores are usually probabilities)
+const formatScore = (score: number) => (score === 0 ? '0' : score >= 0.01 ? String(+score.toFixed(3)) : score.toExponential(1));
+
+export const buildRichReport = (
+  allRows: RiskAnalysisRow[],
+  reportRows: RiskAnalysisRow[],
+  options: { selectionOnly: boolean; thresholds: ThresholdSet; maxExamples: number; nidSourceFiles: string[] }
+): RichReport => {
+  const context = buildReportContext(allRows, reportRows, options.selectionOnly, options.maxExamples);
+
+  const fileRows = new Map<string, number>();
+  for (const row of allRows) fileRows.set(row.sourceFile, (fileRows.get(row.sourceFile) || 0) + 1);
+
+  const histogram = buildHistogram(allRows, { bins: DISTRIBUTION_BINS, log: false, maxTypes: 1 });
+  const distribution = histogram.totals.map((count, i) => ({ from: histogram.edges[i], to: histogram.edges[i + 1], count }));
+
+  const typeThresholds: Record<string, number> = {};
+  for (const group of context.types) typeThresholds[group.type] = thresholdFor(options.thresholds, group.type);
+
+  return {
+    title: 'Risk Summary Report',
+    generatedAt: formatTimestamp(new Date()),
+    selectionOnly: options.selectionOnly,
+    sourceFiles: Array.from(fileRows.entries(), ([name, rows]) => ({ name, rows })),
+    nidSourceFiles: options.nidSourceFiles,
+    context,
+    thresholds: {
+      defaultThreshold: options.thresholds.defaultThreshold,
+      byType: Object.entries(options.thresholds.byType),
+    },
+    typeThresholds,
+    distribution,
+  };
+};
+
+// --- Markdown ---
+
+const mdCell = (value: string | number) => String(value).replace(/\|/g, '\\|').replace(/[\r\n]+/g, ' ');
+const mdRow = (cells: (string | number)[]) => `| ${cells.map(mdCell).join(' | ')} |`;
+const mdTable = (headers: string[], rows: (string | number)[][]) =>
+  [mdRow(headers), `|${headers.map(() => ' --- |').join('')}`, ...rows.map(mdRow)].join('\n');
+
+const bar = (count: number, max: number, width: number) => '█'.repeat(max > 0 ? Math.round((count / max) * width) : 0);
+
+const maxCountOf = (report: RichReport) => {
+  let max = 0;
+  for (const bin of report.distribution) if (bin.count > max) max = bin.count;
+  return max;
+};
+
+export const reportToMarkdown = (report: RichReport): string => {
+  const { context } = report;
+  const maxCount = maxCountOf(report);
+  const lines: string[] = [
+    `# ${report.title}`,
+    '',
+    `Generated ${report.generatedAt}${report.selectionOnly ? ' (selected items only)' : ''}`,
+    '',
+    '## Summary',
+    '',
+    mdTable(['Metric', 'Value'], [
+      ['Samples', context.total],
+      ['Flagged', `${context.flagged} (${context.flaggedPercent}%)`],
+      ['Flagged, unique content', context.unique],
+      ['Risk types', context.typeCount],
+    ]),
+    '',
+    '## Risk Types',
+    '',
+    mdTable(['#', 'Risk type', 'Rows', 'Unique', 'Share', 'Threshold'], context.types.map(group => [
+      group.index, group.type, group.count, group.unique, `${group.percent}%`, report.typeThresholds[group.type],
+    ])),
+    '',
+    '## Score Distribution',
+    '',
+    mdTable(['Score', 'Rows', ''], report.distribution.map(bin => [
+      `${formatScore(bin.from)} – ${formatScore(bin.to)}`, bin.count, bar(bin.count, maxCount, 30),
+    ])),
+    '',
+    '## Thresholds',
+    '',
+    `- Default: ${report.thresholds.defaultThreshold}`,
+    ...report.thresholds.byType.map(([type, value]) => `- ${type}: ${value}`),
+    '',
+    '## Sources',
+    '',
+    ...report.sourceFiles.map(file => `- ${file.name} (${file.rows} rows)`),
+    ...report.nidSourceFiles.map(name => `- ${name} (NID source)`),
+    '',
+    '## Examples',
+  ];
+  for (const group of context.types) {
+    lines.push('', `### ${group.index}. ${group.type}`, '');
+    lines.push(mdTable(['#', 'Score', 'NID', 'Content'], group.examples.map(ex => [ex.index, ex.score, ex.nid || '-', ex.content])));
+    if (group.more > 0) lines.push('', `_…and ${group.more} more_`);
+  }
+  return lines.join('\n') + '\n';
+};
+
+// --- HTML (self-contained: inline styles and an inline SVG chart, no external assets) ---
+
+const escapeHtml = (value: string | number) =>
+  String(value).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const htmlTable = (headers: string[], rows: (string | number)[][], numeric: boolean[] = []) =>
+  `<table><thead><tr>${headers.map((h, i) => `<th${numeric[i] ? ' class="num"' : ''}>${escapeHtml(h)}</th>`).join('')}</tr></thead>` +
+  `<tbody>${rows.map(row => `<tr>${row.map((cell, i) => `<td${numeric[i] ? ' class="num"' : ''}>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('')}</tbody></table>`;
+
+const distributionSvg = (report: RichReport) => {
+  const width = 640;
+  const height = 180;
+  const padding = { top: 10, bottom: 30, left: 10, right: 10 };
+  const maxCount = maxCountOf(report);
+  const slot = (width - padding.left - padding.right) / report.distribution.length;
+  const plotHeight = height - padding.top - padding.bottom;
+
+  const bars = report.distribution.map((bin, i) => {
+    const h = maxCount > 0 ? (bin.count / maxCount) * plotHeight : 0;
+    const x = padding.left + i * slot;
+    const y = padding.top + plotHeight - h;
+    return `<rect x="${x + 2}" y="${y}" width="${slot - 4}" height="${h}" fill="#6366f1"><title>${escapeHtml(`${formatScore(bin.from)} – ${formatScore(bin.to)}: ${bin.count}`)}</title></rect>` +
+      `<text x="${x + slot / 2}" y="${Math.max(padding.top + 10, y - 3)}" text-anchor="middle" font-size="10" fill="#475569">${bin.count}</text>` +
+      `<text x="${x + slot / 2}" y="${height - 12}" text-anchor="middle" font-size="9" fill="#64748b">${escapeHtml(formatScore(bin.from))}</text>`;
+  }).join('');
+  return `<svg viewBox="0 0 ${width} ${height}" width="100%" role="img" aria-label="Score distribution">${bars}` +
+    `<line x1="${padding.left}" x2="${width - padding.right}" y1="${padding.top + plotHeight}" y2="${padding.top + plotHeight}" stroke="#cbd5e1"/></svg>`;
+};
+
+const HTML_STYLE = `
+body { font-family: -apple-system, "Segoe UI", "PingFang SC", "Microsoft YaHei", sans-serif; color: #1e293b; max-width: 960px; margin: 2rem auto; padding: 0 1.5rem; line-height: 1.5; }
+h1 { font-size: 1.6rem; margin-bottom: 0.25rem; }
+h2 { font-size: 1.15rem; margin-top: 2rem; border-bottom: 1px solid #e2e8f0; padding-bottom: 0.25rem; }
+h3 { font-size: 1rem; margin-top: 1.25rem; }
+.meta { color: #64748b; font-size: 0.9rem; }
+table { border-collapse: collapse; width: 100%; font-size: 0.85rem; margin: 0.5rem 0; }
+th, td { border: 1px solid #e2e8f0; padding: 0.35rem 0.6rem; text-align: left; vertical-align: top; }
+th { background: #f8fafc; font-weight: 600; }
+td.num, th.num { text-align: right; white-space: nowrap; font-variant-numeric: tabular-nums; }
+.summary { display: flex; flex-wrap: wrap; gap: 1rem; }
+.summary div { border: 1px solid #e2e8f0; border-radius: 8px; padding: 0.5rem 1rem; }
+.summary b { display: block; font-size: 1.3rem; color: #4f46e5; }
+.more { color: #64748b; font-size: 0.8rem; }
+@media print {
+  body { margin: 0; max-width: none; font-size: 11pt; }
+  h2 { break-after: avoid; }
+  table, svg, .summary { break-inside: avoid; }
+  tr { break-inside: avoid; }
+  @page { size: A4; margin: 15mm; }
+}`;
+
+export const reportToHtml = (report: RichReport): string => {
+  const { context } = report;
+  const examples = context.types.map(group =>
+    `<h3>${group.index}. ${escapeHtml(group.type)}</h3>` +
+    htmlTable(['#', 'Score', 'NID', 'Content'], group.examples.map(ex => [ex.index, ex.score, ex.nid || '-', ex.content]), [true, true]) +
+    (group.more > 0 ? `<p class="more">…and ${group.more} more</p>` : '')
+  ).join('');
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(report.title)} ${escapeHtml(report.generatedAt)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<h1>${escapeHtml(report.title)}</h1>
+<p class="meta">Generated ${escapeHtml(report.generatedAt)}${report.selectionOnly ? ' · selected items only' : ''}</p>
+<div class="summary">
+<div><b>${context.total}</b>Samples</div>
+<div><b>${context.flagged}</b>Flagged (${context.flaggedPercent}%)</div>
+<div><b>${context.unique}</b>Unique flagged</div>
+<div><b>${context.typeCount}</b>Risk types</div>
+</div>
+<h2>Risk Types</h2>
+${htmlTable(['#', 'Risk type', 'Rows', 'Unique', 'Share', 'Threshold'], context.types.map(group => [
+    group.index, group.type, group.count, group.unique, `${group.percent}%`, report.typeThresholds[group.type],
+  ]), [true, false, true, true, true, true])}
+<h2>Score Distribution</h2>
+${distributionSvg(report)}
+<h2>Thresholds</h2>
+${htmlTable(['Risk type', 'Threshold'], [['Default', report.thresholds.defaultThreshold], ...report.thresholds.byType], [false, true])}
+<h2>Sources</h2>
+${htmlTable(['File', 'Rows'], [
+    ...report.sourceFiles.map(file => [file.name, file.rows]),
+    ...report.nidSourceFiles.map(name => [`${name} (NID source)`, '-']),
+  ], [false, true])}
+<h2>Examples</h2>
+${examples}
+</body>
+</html>
+`;
+};
+
+const fileStamp = (report: RichReport) => report.generatedAt.replace(/[-: ]/g, '').slice(0, 12);
+
+export const downloadReportMarkdown = (report: RichReport) => {
+  saveBlob(new Blob([reportToMarkdown(report)], { type: 'text/markdown;charset=utf-8' }), `risk_report_${fileStamp(report)}.md`);
+};
+
+export const downloadReportHtml = (report: RichReport) => {
+  saveBlob(new Blob([reportToHtml(report)], { type: 'text/html;charset=utf-8' }), `risk_report_${fileStamp(report)}.html`);
+};
+
+// Opens the HTML report in a new window and starts printing; "Save as PDF" in the print
+// dialog produces the PDF. Returns false when the popup was blocked.
+export const printReport = (report: RichReport): boolean => {
+  const win = window.open('', '_blank');
+  if (!win) return false;
+  win.document.open();
+  win.document.write(reportToHtml(report));
+  win.document.close();
+  win.focus();
+  // Give the new document a moment to lay out before the dialog freezes it
+  setTimeout(() => win.print(), 250);
+  return true;
+};
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { RiskAnalysisRow } from '../types';
+import { BUILT_IN_TEMPLATES, TemplateSyntaxError, buildReportContext, renderReport } from './reportTemplates';
+
+const row = (id: number, content: string, riskType: string, nid?: string[]): RiskAnalysisRow => ({
+  id,
+  content,
+  riskScore: 0.9,
+  riskType,
+  nid,
+  sourceFile: 'scores.csv',
+  sourceRow: id + 1,
+  contentHash: `hash-${id}`,
+});
+
+const rows = [
+  row(0, 'buy now', 'spam', ['N1', 'N2']),
+  row(1, 'insult', 'abuse'),
+  row(2, 'buy now', 'spam'),
+  row(3, 'cheap pills', 'spam'),
+  row(4, 'free money', 'spam'),
+];
+
+describe('buildReportContext', () => {
+  it('groups rows by type in order of first appearance, with distinct examples', () => {
+    const context = buildReportContext([...rows, row(5, 'fine', 'N/A')], rows, false, 2);
+    expect(context).toMatchObject({ total: 6, flagged: 5, flaggedPercent: '83.33', unique: 4, typeCount: 2 });
+    const [spam, abuse] = context.types;
+    expect(spam).toMatchObject({ index: 1, type: 'spam', count: 4, unique: 3, percent: '80.0', more: 1, first: true, last: false });
+    expect(spam.examples.map(e => e.content)).toEqual(['buy now', 'cheap pills']);
+    expect(spam.examples[0]).toMatchObject({ nid: 'N1, N2', first: true, last: false });
+    expect(abuse).toMatchObject({ type: 'abuse', more: 0, last: true });
+  });
+
+  it('reports zero percentages for an empty run', () => {
+    expect(buildReportContext([], [], false, 5)).toMatchObject({ flaggedPercent: '0.00', typeCount: 0, types: [] });
+  });
+});
+
+describe('renderReport', () => {
+  const context = buildReportContext(rows, rows, true, 1);
+
+  it('repeats loops and resolves names from enclosing scopes', () => {
+    const body = '{{#types}}{{index}}. {{type}} ({{count}}/{{flagged}}){{#examples}}: {{content}}{{/examples}}{{^last}}; {{/last}}{{/types}}';
+    expect(renderReport(body, context)).toBe('1. spam (4/5): buy now; 2. abuse (1/5): insult');
+  });
+
+  it('renders conditional and inverted sections', () => {
+    expect(renderReport('{{#selectionOnly}}selection{{/selectionOnly}}{{^selectionOnly}}all{{/selectionOnly}}', context)).toBe('selection');
+    expect(renderReport('{{^missing}}none{{/missing}}{{missing}}', context)).toBe('none');
+  });
+
+  it('rejects unbalanced sections', () => {
+    expect(() => renderReport('{{#types}}{{type}}', context)).toThrow(TemplateSyntaxError);
+    expect(() => renderReport('{{#types}}{{/examples}}', context)).toThrow(/expected \{\{\/types\}\}/);
+    expect(() => renderReport('{{/types}}', context)).toThrow(TemplateSyntaxError);
+  });
+
+  it('renders every built-in template', () => {
+    for (const template of BUILT_IN_TEMPLATES) {
+      const full = buildReportContext(rows, rows, false, template.maxExamples);
+      expect(renderReport(template.body, full)).toContain('spam');
+    }
+  });
+});
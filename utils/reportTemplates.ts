@@ -0,0 +1,251 @@
+import { RiskAnalysisRow } from '../types';
+import { formatNids } from './nidMatching';
+
+// Risk Summary Report templates. The syntax is a small Mustache subset:
+//   {{name}}                  value from the current loop item or any enclosing scope
+//   {{#list}}...{{/list}}     repeats for every item of a list (types, examples)
+//   {{#flag}}...{{/flag}}     renders when the value is truthy; {{^flag}}...{{/flag}} when falsy
+
+export interface ReportTemplate {
+  id: string;
+  name: string;
+  body: string;
+  maxExamples: number; // Examples listed per risk type
+  builtIn?: boolean;
+}
+
+export interface ReportExample {
+  index: number;
+  content: string;
+  nid: string;
+  score: number;
+  first: boolean;
+  last: boolean;
+}
+
+export interface ReportTypeGroup {
+  index: number;
+  type: string;
+  count: number; // Rows of this type
+  unique: number; // Distinct contents of this type
+  percent: string; // Share of the reported rows
+  examples: ReportExample[];
+  more: number; // Distinct contents not listed
+  first: boolean;
+  last: boolean;
+}
+
+export interface ReportContext {
+  total: number; // All loaded rows
+  flagged: number; // Reported rows (filtered view or selection)
+  flaggedPercent: string;
+  unique: number;
+  selectionOnly: boolean;
+  date: string;
+  typeCount: number;
+  types: ReportTypeGroup[];
+}
+
+const TEMPLATES_KEY = 'risk_review.reportTemplates';
+const SELECTED_KEY = 'risk_review.reportTemplateId';
+
+export const BUILT_IN_TEMPLATES: ReportTemplate[] = [
+  {
+    id: 'builtin-zh',
+    name: '违规摘要 (default)',
+    maxExamples: 5,
+    builtIn: true,
+    body:
+      '样本数量：{{total}}个\n' +
+      '违规样本：{{flagged}}个（{{flaggedPercent}}%）{{#selectionOnly}}(Selected Items Only){{/selectionOnly}}\n' +
+      '（去重后{{unique}}个）\n' +
+      '违规case\n' +
+      '{{#types}}{{index}}.{{type}}：{{#examples}}{{content}}{{^last}}、{{/last}}{{/examples}}{{#more}}...{{/more}}\n{{/types}}',
+  },
+  {
+    id: 'builtin-weekly-en',
+    name: 'Weekly summary (English)',
+    maxExamples: 3,
+    builtIn: true,
+    body:
+      'Risk summary for {{date}}\n' +
+      '\n' +
+      'Samples reviewed: {{total}}\n' +
+      'Flagged: {{flagged}} ({{flaggedPercent}}%), {{unique}} unique{{#selectionOnly}} (selected items only){{/selectionOnly}}\n' +
+      'Risk types: {{typeCount}}\n' +
+      '\n' +
+      '{{#types}}{{index}}. {{type}}: {{count}} rows ({{percent}}%), {{unique}} unique\n' +
+      '{{#examples}}   - {{content}}\n{{/examples}}{{#more}}   ... and {{more}} more\n{{/more}}{{/types}}',
+  },
+  {
+    id: 'builtin-examples-nid',
+    name: 'Examples with NID and score',
+    maxExamples: 10,
+    builtIn: true,
+    body:
+      '{{#types}}【{{type}}】{{count}}条（{{percent}}%）\n' +
+      '{{#examples}}{{index}}. [{{score}}] {{content}}{{#nid}}  (NID: {{nid}}){{/nid}}\n{{/examples}}\n{{/types}}',
+  },
+];
+
+export const loadCustomTemplates = (): ReportTemplate[] => {
+  try {
+    const raw = localStorage.getItem(TEMPLATES_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch (err) {
+    console.warn('Failed to load report templates:', err);
+    return [];
+  }
+};
+
+export const saveCustomTemplates = (templates: ReportTemplate[]) => {
+  localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates.map(({ builtIn, ...t }) => t)));
+};
+
+export const loadSelectedTemplateId = (): string => localStorage.getItem(SELECTED_KEY) || BUILT_IN_TEMPLATES[0].id;
+
+export const saveSelectedTemplateId = (id: string) => {
+  localStorage.setItem(SELECTED_KEY, id);
+};
+
+// Groups follow the order in which each risk type first appears in the rows
+export const buildReportContext = (
+  allRows: RiskAnalysisRow[],
+  reportRows: RiskAnalysisRow[],
+  selectionOnly: boolean,
+  maxExamples: number
+): ReportContext => {
+  const byType = new Map<string, { count: number; rows: Map<string, RiskAnalysisRow> }>();
+  const unique = new Set<string>();
+  for (const row of reportRows) {
+    unique.add(row.content);
+    let group = byType.get(row.riskType);
+    if (!group) {
+      group = { count: 0, rows: new Map() };
+      byType.set(row.riskType, group);
+    }
+    group.count++;
+    if (!group.rows.has(row.content)) group.rows.set(row.content, row);
+  }
+
+  const percentOf = (count: number, total: number, digits: number) => (total > 0 ? ((count / total) * 100).toFixed(digits) : (0).toFixed(digits));
+
+  const types: ReportTypeGroup[] = Array.from(byType.entries()).map(([type, group], i) => {
+    const listed = Array.from(group.rows.values()).slice(0, maxExamples);
+    return {
+      index: i + 1,
+      type,
+      count: group.count,
+      unique: group.rows.size,
+      percent: percentOf(group.count, reportRows.length, 1),
+      examples: listed.map((row, j) => ({
+        index: j + 1,
+        content: row.content,
+        nid: formatNids(row),
+        score: row.riskScore,
+        first: j === 0,
+        last: j === listed.length - 1,
+      })),
+      more: group.rows.size - listed.length,
+      first: i === 0,
+      last: i === byType.size - 1,
+    };
+  });
+
+  return {
+    total: allRows.length,
+    flagged: reportRows.length,
+    flaggedPercent: percentOf(reportRows.length, allRows.length, 2),
+    unique: unique.size,
+    selectionOnly,
+    date: new Date().toISOString().slice(0, 10),
+    typeCount: types.length,
+    types,
+  };
+};
+
+type Token =
+  | { kind: 'text'; value: string }
+  | { kind: 'var'; name: string }
+  | { kind: 'section'; name: string; inverted: boolean; children: Token[] };
+
+export class TemplateSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateSyntaxError';
+  }
+}
+
+const parseTemplate = (body: string): Token[] => {
+  const root: Token[] = [];
+  const stack: { name: string; children: Token[] }[] = [{ name: '', children: root }];
+  const tag = /\{\{\s*([#^/]?)\s*([\w.]+)\s*\}\}/g;
+  let last = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = tag.exec(body))) {
+    const current = stack[stack.length - 1];
+    if (match.index > last) current.children.push({ kind: 'text', value: body.slice(last, match.index) });
+    last = tag.lastIndex;
+
+    const [, sigil, name] = match;
+    if (sigil === '#' || sigil === '^') {
+      const section: Token = { kind: 'section', name, inverted: sigil === '^', children: [] };
+      current.children.push(section);
+      stack.push({ name, children: section.children });
+    } else if (sigil === '/') {
+      if (stack.length === 1 || current.name !== name) {
+        throw new TemplateSyntaxError(`Unexpected {{/${name}}}${stack.length > 1 ? `, expected {{/${current.name}}}` : ''}`);
+      }
+      stack.pop();
+    } else {
+      current.children.push({ kind: 'var', name });
+    }
+  }
+  if (stack.length > 1) throw new TemplateSyntaxError(`Missing {{/${stack[stack.length - 1].name}}}`);
+  if (last < body.length) root.push({ kind: 'text', value: body.slice(last) });
+  return root;
+};
+
+// Innermost scope first, so loop items shadow the report-level values
+const lookup = (name: string, scopes: unknown[]): unknown => {
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    const scope = scopes[i] as Record<string, unknown>;
+    if (scope && typeof scope === 'object' && name in scope) return scope[name];
+  }
+  return undefined;
+};
+
+const renderTokens = (tokens: Token[], scopes: unknown[]): string => {
+  let out = '';
+  for (const token of tokens) {
+    if (token.kind === 'text') {
+      out += token.value;
+    } else if (token.kind === 'var') {
+      const value = lookup(token.name, scopes);
+      out += value === undefined || value === null ? '' : String(value);
+    } else {
+      const value = lookup(token.name, scopes);
+      const truthy = Array.isArray(value) ? value.length > 0 : !!value;
+      if (token.inverted) {
+        if (!truthy) out += renderTokens(token.children, scopes);
+      } else if (Array.isArray(value)) {
+        for (const item of value) out += renderTokens(token.children, [...scopes, item]);
+      } else if (truthy) {
+        out += renderTokens(token.children, typeof value === 'object' ? [...scopes, value] : scopes);
+      }
+    }
+  }
+  return out;
+};
+
+// Throws TemplateSyntaxError for unbalanced sections
+export const renderReport = (body: string, context: ReportContext): string => {
+  return renderTokens(parseTemplate(body), [context]);
+};
+
+export const TEMPLATE_FIELDS: { scope: string; fields: string }[] = [
+  { scope: 'Report', fields: 'total, flagged, flaggedPercent, unique, selectionOnly, date, typeCount, #types' },
+  { scope: '#types', fields: 'index, type, count, unique, percent, more, first, last, #examples' },
+  { scope: '#examples', fields: 'index, content, nid, score, first, last' },
+];
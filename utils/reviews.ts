@@ -0,0 +1,57 @@
+import { RiskAnalysisRow, ReviewVerdict } from '../types';
+import { dbGetAll, dbPut, dbDelete } from './db';
+
+// Human review results, persisted per content hash so they survive reloads and re-uploads
+export interface ReviewRecord {
+  hash: string;
+  verdict?: ReviewVerdict;
+  correctedRiskType?: string;
+  note?: string;
+  updatedAt: number;
+}
+
+export type ReviewPatch = Pick<RiskAnalysisRow, 'verdict' | 'correctedRiskType' | 'reviewNote'>;
+
+export const VERDICT_LABELS: Record<ReviewVerdict, string> = {
+  violation: 'Violation',
+  not_violation: 'Not Violation',
+  unsure: 'Unsure',
+};
+
+export const loadReviews = async (): Promise<Map<string, ReviewRecord>> => {
+  try {
+    const records = await dbGetAll<ReviewRecord>('reviews');
+    return new Map(records.map(r => [r.hash, r]));
+  } catch (err) {
+    console.warn('Failed to load saved reviews:', err);
+    return new Map();
+  }
+};
+
+export const applyReviews = (rows: RiskAnalysisRow[], reviews: Map<string, ReviewRecord>): RiskAnalysisRow[] => {
+  if (reviews.size === 0) return rows;
+  return rows.map(row => {
+    const review = reviews.get(row.contentHash);
+    if (!review) return row;
+    return { ...row, verdict: review.verdict, correctedRiskType: review.correctedRiskType, reviewNote: review.note };
+  });
+};
+
+// Empty reviews are deleted rather than stored
+export const saveReview = async (row: RiskAnalysisRow) => {
+  try {
+    if (!row.verdict && !row.correctedRiskType && !row.reviewNote) {
+      await dbDelete('reviews', row.contentHash);
+    } else {
+      await dbPut<ReviewRecord>('reviews', {
+        hash: row.contentHash,
+        verdict: row.verdict,
+        correctedRiskType: row.correctedRiskType,
+        note: row.reviewNote,
+        updatedAt: Date.now(),
+      });
+    }
+  } catch (err) {
+    console.error('Failed to save review:', err);
+  }
+};
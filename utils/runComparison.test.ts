@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { RiskAnalysisRow } from '../types';
+import { ThresholdSet } from './thresholds';
+import { compareRuns } from './runComparison';
+
+let nextId = 0;
+const row = (content: string, riskScore: number, riskType = 'spam', nid?: string[]): RiskAnalysisRow => ({
+  id: nextId++,
+  content,
+  riskScore,
+  riskType,
+  nid,
+  sourceFile: 'scores.csv',
+  sourceRow: nextId,
+  contentHash: `hash-${content}`,
+});
+
+const thresholds: ThresholdSet = { defaultThreshold: 0.5, byType: { fraud: 0.9 } };
+
+describe('compareRuns', () => {
+  it('classifies each pair by flag change first, then type, then score', () => {
+    const baseline = [row('a', 0.2), row('b', 0.8), row('c', 0.8), row('d', 0.6), row('e', 0.7)];
+    const current = [row('a', 0.7), row('b', 0.3), row('c', 0.8, 'abuse'), row('d', 0.65), row('e', 0.7 + 1e-9)];
+    const { rows, counts } = compareRuns(baseline, current, 'content', thresholds);
+    expect(rows.map(r => r.change)).toEqual(['newly_flagged', 'unflagged', 'type_changed', 'score_changed', 'unchanged']);
+    expect(counts).toEqual({ newly_flagged: 1, unflagged: 1, type_changed: 1, score_changed: 1, unchanged: 1 });
+    expect(rows[0].delta).toBeCloseTo(0.5);
+  });
+
+  it('judges both runs by the per-type cutoffs', () => {
+    const { rows } = compareRuns([row('a', 0.8, 'spam')], [row('a', 0.8, 'fraud')], 'content', thresholds);
+    expect(rows[0]).toMatchObject({ baselineFlagged: true, currentFlagged: false, change: 'unflagged' });
+  });
+
+  it('counts rows without a partner and compares repeated content once', () => {
+    const result = compareRuns(
+      [row('a', 0.1), row('a', 0.1), row('only baseline', 0.1)],
+      [row('a', 0.2), row('a', 0.9), row('only current', 0.1), row('only current', 0.1)],
+      'content',
+      thresholds
+    );
+    expect(result.rows).toHaveLength(1);
+    expect(result.rows[0].current.riskScore).toBe(0.2);
+    expect(result.onlyBaseline).toBe(1);
+    expect(result.onlyCurrent).toBe(1);
+  });
+
+  it('pairs by any shared NID when joining on NIDs', () => {
+    const result = compareRuns(
+      [row('old text', 0.2, 'spam', ['N1', 'N2']), row('unmatched', 0.2, 'spam', ['N9'])],
+      [row('new text', 0.9, 'spam', ['N2', 'N3']), row('no nid', 0.9)],
+      'nid',
+      thresholds
+    );
+    expect(result.rows).toHaveLength(1);
+    expect(result.rows[0].baseline.content).toBe('old text');
+    expect(result.onlyBaseline).toBe(1);
+    expect(result.onlyCurrent).toBe(1);
+  });
+
+  it('summarises flagged rows and moves per category', () => {
+    const { categories, meanDelta } = compareRuns(
+      [row('a', 0.8, 'spam'), row('b', 0.6, 'spam'), row('c', 0.2, 'abuse')],
+      [row('a', 0.8, 'abuse'), row('b', 0.4, 'spam'), row('c', 0.6, 'abuse')],
+      'content',
+      thresholds
+    );
+    const spam = categories.find(c => c.riskType === 'spam')!;
+    const abuse = categories.find(c => c.riskType === 'abuse')!;
+    expect(spam).toMatchObject({ baselineFlagged: 2, currentFlagged: 0, unflagged: 1, movedOut: 1, movedIn: 0 });
+    expect(spam.meanDelta).toBeCloseTo(-0.1);
+    expect(abuse).toMatchObject({ baselineFlagged: 0, currentFlagged: 2, newlyFlagged: 1, movedIn: 1 });
+    expect(meanDelta).toBeCloseTo(0.2 / 3);
+  });
+});
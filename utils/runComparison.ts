@@ -0,0 +1,162 @@
+import { RiskAnalysisRow } from '../types';
+import { ThresholdSet, thresholdFor } from './thresholds';
+
+// Diff of two scored runs over the same content (e.g. before and after a model upgrade).
+// Both runs are judged with the analyzer's current thresholds.
+
+export type ComparisonJoin = 'content' | 'nid';
+
+export type ChangeKind = 'newly_flagged' | 'unflagged' | 'type_changed' | 'score_changed' | 'unchanged';
+
+export const CHANGE_LABELS: Record<ChangeKind, string> = {
+  newly_flagged: 'Newly flagged',
+  unflagged: 'No longer flagged',
+  type_changed: 'Risk type changed',
+  score_changed: 'Score changed',
+  unchanged: 'Unchanged',
+};
+
+export interface ComparedRow {
+  baseline: RiskAnalysisRow;
+  current: RiskAnalysisRow;
+  delta: number; // current - baseline score
+  baselineFlagged: boolean;
+  currentFlagged: boolean;
+  change: ChangeKind;
+}
+
+export interface CategoryShift {
+  riskType: string;
+  baselineFlagged: number; // Flagged rows with this type in the baseline run
+  currentFlagged: number; // ... in the current run
+  newlyFlagged: number; // Counted under the current type
+  unflagged: number; // Counted under the baseline type
+  movedIn: number; // Rows that changed their type to this one
+  movedOut: number; // Rows that changed their type away from this one
+  meanDelta: number | null; // Over matched rows whose baseline type is this one (null when none)
+}
+
+export interface RunComparison {
+  rows: ComparedRow[];
+  onlyBaseline: number; // Baseline rows with no partner in the current run
+  onlyCurrent: number;
+  counts: Record<ChangeKind, number>;
+  meanDelta: number;
+  categories: CategoryShift[];
+}
+
+// Scores that differ only by float noise from re-serialisation are treated as equal
+const SCORE_EPSILON = 1e-6;
+
+const classify = (row: Omit<ComparedRow, 'change'>): ChangeKind => {
+  if (row.currentFlagged && !row.baselineFlagged) return 'newly_flagged';
+  if (row.baselineFlagged && !row.currentFlagged) return 'unflagged';
+  if (row.baseline.riskType !== row.current.riskType) return 'type_changed';
+  if (Math.abs(row.delta) > SCORE_EPSILON) return 'score_changed';
+  return 'unchanged';
+};
+
+// Pairs rows by content, or by any shared NID. Repeated content within a run is compared once
+// (first occurrence); a row pair sharing several NIDs is also counted once.
+const pairRows = (baseline: RiskAnalysisRow[], current: RiskAnalysisRow[], join: ComparisonJoin) => {
+  const keysOf = (row: RiskAnalysisRow) => (join === 'nid' ? row.nid || [] : [row.content]);
+
+  const index = new Map<string, RiskAnalysisRow>();
+  for (const row of baseline) {
+    for (const key of keysOf(row)) if (!index.has(key)) index.set(key, row);
+  }
+
+  const pairs: [RiskAnalysisRow, RiskAnalysisRow][] = [];
+  const usedBaseline = new Set<RiskAnalysisRow>();
+  const usedKeys = new Set<string>();
+  let onlyCurrent = 0;
+  for (const row of current) {
+    const keys = keysOf(row);
+    if (keys.length > 0 && keys.every(key => usedKeys.has(key))) continue; // Repeat of an earlier row
+    keys.forEach(key => usedKeys.add(key));
+
+    const partner = keys.map(key => index.get(key)).find(Boolean);
+    if (!partner) {
+      onlyCurrent++;
+    } else if (!usedBaseline.has(partner)) {
+      usedBaseline.add(partner);
+      pairs.push([partner, row]);
+    }
+  }
+
+  const baselineKeys = new Set<string>();
+  let onlyBaseline = 0;
+  for (const row of baseline) {
+    const keys = keysOf(row);
+    if (keys.length > 0 && keys.every(key => baselineKeys.has(key))) continue;
+    keys.forEach(key => baselineKeys.add(key));
+    if (!usedBaseline.has(row)) onlyBaseline++;
+  }
+
+  return { pairs, onlyBaseline, onlyCurrent };
+};
+
+export const compareRuns = (
+  baseline: RiskAnalysisRow[],
+  current: RiskAnalysisRow[],
+  join: ComparisonJoin,
+  thresholds: ThresholdSet
+): RunComparison => {
+  const { pairs, onlyBaseline, onlyCurrent } = pairRows(baseline, current, join);
+  const isFlagged = (row: RiskAnalysisRow) => row.riskScore >= thresholdFor(thresholds, row.riskType);
+
+  const counts: Record<ChangeKind, number> = { newly_flagged: 0, unflagged: 0, type_changed: 0, score_changed: 0, unchanged: 0 };
+  const categories = new Map<string, CategoryShift & { deltaSum: number; deltaRows: number }>();
+  const category = (riskType: string) => {
+    let entry = categories.get(riskType);
+    if (!entry) {
+      entry = {
+        riskType, baselineFlagged: 0, currentFlagged: 0, newlyFlagged: 0, unflagged: 0,
+        movedIn: 0, movedOut: 0, meanDelta: null, deltaSum: 0, deltaRows: 0
+      };
+      categories.set(riskType, entry);
+    }
+    return entry;
+  };
+
+  let deltaSum = 0;
+  const rows: ComparedRow[] = pairs.map(([b, c]) => {
+    const partial = {
+      baseline: b,
+      current: c,
+      delta: c.riskScore - b.riskScore,
+      baselineFlagged: isFlagged(b),
+      currentFlagged: isFlagged(c),
+    };
+    const row: ComparedRow = { ...partial, change: classify(partial) };
+    counts[row.change]++;
+    deltaSum += row.delta;
+
+    const from = category(b.riskType);
+    const to = category(c.riskType);
+    from.deltaSum += row.delta;
+    from.deltaRows++;
+    if (row.baselineFlagged) from.baselineFlagged++;
+    if (row.currentFlagged) to.currentFlagged++;
+    if (row.change === 'newly_flagged') to.newlyFlagged++;
+    if (row.change === 'unflagged') from.unflagged++;
+    if (b.riskType !== c.riskType) {
+      from.movedOut++;
+      to.movedIn++;
+    }
+    return row;
+  });
+
+  const summary = Array.from(categories.values())
+    .map(({ deltaSum: sum, deltaRows, ...entry }) => ({ ...entry, meanDelta: deltaRows > 0 ? sum / deltaRows : null }))
+    .sort((a, b) => Math.max(b.baselineFlagged, b.currentFlagged) - Math.max(a.baselineFlagged, a.currentFlagged));
+
+  return {
+    rows,
+    onlyBaseline,
+    onlyCurrent,
+    counts,
+    meanDelta: rows.length > 0 ? deltaSum / rows.length : 0,
+    categories: summary,
+  };
+};
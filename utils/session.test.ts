@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import { SessionSnapshot, writeSession, readSession } from './session';
+
+const upload = new File(['id,content\n1,hello\n'], 'scores.csv', { type: 'text/csv', lastModified: 1700000000000 });
+
+const snapshot = {
+  savedAt: 1700000000000,
+  settings: { normalization: { steps: [] }, validation: { rules: [] } },
+  batch: {
+    files: [{ id: 'f1', originalName: 'scores.csv', data: [{ strategy: 's', content: 'hello' }], stats: {}, config: {}, file: upload }],
+    previewFileId: 'f1',
+  },
+  analyzer: {
+    data: [{ id: 0, content: 'hello', riskScore: 0.5, riskType: 'spam', verdict: 'violation' }],
+    riskFiles: [{ file: upload, encoding: { encoding: 'utf-8', confidence: 1 } }],
+    mappingFiles: [{ id: 'm1', file: upload, mapping: new Map([['hello', ['N1', 'N2']]]) }],
+    filter: { riskTypes: new Set(['spam']) },
+    selectedIds: [0],
+  },
+} as unknown as SessionSnapshot;
+
+// Node has no FileReader, which JSZip uses for Blob input
+const toFile = async (blob: Blob, name: string) => new File([await blob.arrayBuffer()], name);
+const readBack = async (blob: Blob) => readSession(await toFile(blob, 'test.rrsession'));
+
+describe('writeSession / readSession', () => {
+  it('restores the state, including Maps, Sets and uploads', async () => {
+    const restored = await readBack(await writeSession(snapshot));
+    expect(restored.savedAt).toBe(snapshot.savedAt);
+    expect(restored.analyzer.data).toEqual(snapshot.analyzer.data);
+    expect(restored.analyzer.mappingFiles[0].mapping).toEqual(new Map([['hello', ['N1', 'N2']]]));
+    expect(restored.analyzer.filter.riskTypes).toEqual(new Set(['spam']));
+
+    const file = restored.batch.files[0].file!;
+    expect(file.name).toBe('scores.csv');
+    expect(file.type).toBe('text/csv');
+    expect(file.lastModified).toBe(upload.lastModified);
+    expect(await file.text()).toBe('id,content\n1,hello\n');
+  });
+
+  it('stores an upload used in several places once and restores one shared File', async () => {
+    const blob = await writeSession(snapshot);
+    const zip = await JSZip.loadAsync(await blob.arrayBuffer());
+    expect(zip.file(/^files\//)).toHaveLength(1);
+
+    const restored = await readBack(blob);
+    expect(restored.analyzer.riskFiles[0].file).toBe(restored.batch.files[0].file);
+    expect(restored.analyzer.mappingFiles[0].file).toBe(restored.batch.files[0].file);
+  });
+
+  it('rejects files that are not sessions', async () => {
+    const zip = new JSZip();
+    zip.file('other.txt', 'x');
+    const notSession = await zip.generateAsync({ type: 'blob' });
+    await expect(readBack(notSession)).rejects.toThrow(/not a session file/);
+    await expect(readSession(new File(['plain text'], 'notes.txt'))).rejects.toThrow(/not a session file/);
+  });
+});
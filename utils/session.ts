@@ -0,0 +1,132 @@
+import JSZip from 'jszip';
+import {
+  ProcessedFileResult, RiskAnalysisRow, StrategyConfig, DedupOptions, OutputSplitOptions, ExportFormat,
+  EncodingDetection, NormalizationPipeline, ValidationRules
+} from '../types';
+import { NidMapping, NidMatchOptions } from './nidMatching';
+import { FilterModel, SortState } from './filters';
+import { BatchRecord } from './batches';
+import { saveBlob } from './exporters';
+
+// A whole working session (Batch Processor and Risk Analyzer) as one compressed project file:
+// session.json holds the state, files/ the original uploads so they can still be re-parsed.
+
+export interface BatchSessionState {
+  files: ProcessedFileResult[];
+  previewFileId: string | null;
+  strategyConfig: StrategyConfig;
+  dedupOptions: DedupOptions;
+  splitOptions: OutputSplitOptions;
+  exportFormat: ExportFormat;
+}
+
+export interface AnalyzerSessionState {
+  data: RiskAnalysisRow[]; // Including NIDs and verdicts
+  riskFiles: { file: File; encoding: EncodingDetection }[];
+  mappingFiles: { id: string; file: File; encoding: EncodingDetection; mapping: NidMapping }[];
+  matchOptions: NidMatchOptions;
+  batches: BatchRecord[]; // Only the linked ones; the rest stay in this browser
+  batchLinks: Record<string, string | null>;
+  filter: FilterModel;
+  sort: SortState;
+  selectedIds: number[];
+  reviewMode: boolean;
+  activeRowId: number | null;
+  exportFormat: ExportFormat;
+  showReport: boolean;
+}
+
+export interface SessionSnapshot {
+  savedAt: number;
+  settings: { normalization: NormalizationPipeline; validation: ValidationRules };
+  batch: BatchSessionState;
+  analyzer: AnalyzerSessionState;
+}
+
+// Exposed by a module so the app can capture and restore its state
+export interface SessionHandle<T> {
+  capture: () => T;
+  restore: (state: T) => void;
+}
+
+const SESSION_FORMAT = 'risk-review-session';
+const SESSION_VERSION = 1;
+const STATE_ENTRY = 'session.json';
+
+export const SESSION_EXTENSION = '.rrsession';
+
+// JSON has no Map, Set or File: they are written as tagged objects and revived on load
+type Encoded = { $map: [unknown, unknown][] } | { $set: unknown[] } | { $file: string; type: string; lastModified: number };
+
+export const writeSession = async (snapshot: SessionSnapshot): Promise<Blob> => {
+  const zip = new JSZip();
+  const filePaths = new Map<File, string>(); // The same upload is stored once
+
+  const json = JSON.stringify({ format: SESSION_FORMAT, version: SESSION_VERSION, ...snapshot }, (_key, value): unknown => {
+    if (value instanceof Map) return { $map: Array.from(value.entries()) };
+    if (value instanceof Set) return { $set: Array.from(value) };
+    if (value instanceof File) {
+      let path = filePaths.get(value);
+      if (!path) {
+        path = `files/${String(filePaths.size + 1).padStart(3, '0')}/${value.name}`;
+        filePaths.set(value, path);
+        zip.file(path, value);
+      }
+      return { $file: path, type: value.type, lastModified: value.lastModified } as Encoded;
+    }
+    return value;
+  });
+  zip.file(STATE_ENTRY, json);
+
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE', compressionOptions: { level: 6 } });
+};
+
+export const readSession = async (file: File): Promise<SessionSnapshot> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch {
+    throw new Error(`${file.name} is not a session file.`);
+  }
+  const stateEntry = zip.file(STATE_ENTRY);
+  if (!stateEntry) throw new Error(`${file.name} is not a session file.`);
+
+  const blobs = new Map<string, Blob>();
+  await Promise.all(zip.file(/^files\//).map(async entry => blobs.set(entry.name, await entry.async('blob'))));
+
+  const files = new Map<string, File>(); // One File per stored upload, as when it was saved
+  const parsed = JSON.parse(await stateEntry.async('string'), (_key, value) => {
+    if (value && typeof value === 'object') {
+      if ('$map' in value) return new Map(value.$map);
+      if ('$set' in value) return new Set(value.$set);
+      if ('$file' in value) {
+        const blob = blobs.get(value.$file);
+        if (!blob) throw new Error(`The session file is missing ${value.$file}.`);
+        if (!files.has(value.$file)) {
+          const name = value.$file.split('/').pop();
+          files.set(value.$file, new File([blob], name, { type: value.type, lastModified: value.lastModified }));
+        }
+        return files.get(value.$file);
+      }
+    }
+    return value;
+  });
+
+  if (parsed.format !== SESSION_FORMAT) throw new Error(`${file.name} is not a session file.`);
+  if (parsed.version > SESSION_VERSION) {
+    throw new Error(`${file.name} was saved by a newer version of this tool (format ${parsed.version}).`);
+  }
+  const { format, version, ...snapshot } = parsed;
+  return snapshot as SessionSnapshot;
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export const sessionFileName = (savedAt: number) => {
+  const d = new Date(savedAt);
+  return `risk_review_session_${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}_${pad(d.getHours())}${pad(d.getMinutes())}${SESSION_EXTENSION}`;
+};
+
+export const downloadSession = async (snapshot: SessionSnapshot) => {
+  saveBlob(await writeSession(snapshot), sessionFileName(snapshot.savedAt));
+};
@@ -0,0 +1,32 @@
+import { StrategyConfig } from '../types';
+
+const PRESETS_KEY = 'risk_review.strategyPresets';
+
+export const DEFAULT_STRATEGY_CONFIG: StrategyConfig = {
+  id: 'default',
+  name: 'service_safe_cate_v2 (default)',
+  strategy: 'service_safe_cate_v2',
+  extraColumns: [],
+};
+
+// Saved presets live in localStorage; the built-in default is never stored
+export const loadStrategyPresets = (): StrategyConfig[] => {
+  try {
+    const raw = localStorage.getItem(PRESETS_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (err) {
+    console.warn('Failed to load strategy presets:', err);
+    return [];
+  }
+};
+
+export const saveStrategyPresets = (presets: StrategyConfig[]) => {
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+};
+
+// Header line of the TXT output for a given config
+export const getOutputHeaders = (config: StrategyConfig): string[] => {
+  return ['strategy', 'content', ...config.extraColumns.map(c => c.header)];
+};
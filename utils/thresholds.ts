@@ -0,0 +1,43 @@
+import { saveBlob } from './exporters';
+
+// Per-risk-type score cutoffs. Types without an explicit cutoff (including types not seen yet)
+// fall back to the default threshold.
+export interface ThresholdSet {
+  defaultThreshold: number;
+  byType: Record<string, number>;
+}
+
+export const DEFAULT_THRESHOLDS: ThresholdSet = {
+  defaultThreshold: 0.0001,
+  byType: {},
+};
+
+export const thresholdFor = (set: ThresholdSet, riskType: string): number => {
+  return set.byType[riskType] ?? set.defaultThreshold;
+};
+
+export const setTypeThreshold = (set: ThresholdSet, riskType: string, value: number | null): ThresholdSet => {
+  const byType = { ...set.byType };
+  if (value === null) delete byType[riskType];
+  else byType[riskType] = value;
+  return { ...set, byType };
+};
+
+export const downloadThresholds = (set: ThresholdSet) => {
+  saveBlob(new Blob([JSON.stringify(set, null, 2)], { type: 'application/json' }), 'risk_thresholds.json');
+};
+
+const isScore = (value: unknown): value is number => typeof value === 'number' && isFinite(value) && value >= 0;
+
+export const parseThresholds = (json: string): ThresholdSet => {
+  const parsed = JSON.parse(json);
+  if (!parsed || !isScore(parsed.defaultThreshold) || typeof parsed.byType !== 'object') {
+    throw new Error("Threshold file must contain 'defaultThreshold' and 'byType'.");
+  }
+  const byType: Record<string, number> = {};
+  Object.entries(parsed.byType).forEach(([type, value]) => {
+    if (!isScore(value)) throw new Error(`Invalid threshold for '${type}'.`);
+    byType[type] = value;
+  });
+  return { defaultThreshold: parsed.defaultThreshold, byType };
+};
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { ValidationRules } from '../types';
+import { DEFAULT_VALIDATION_RULES, checkValidationRules, compileValidator } from './validation';
+
+const rules = (overrides: Partial<ValidationRules>): ValidationRules => ({ ...DEFAULT_VALIDATION_RULES, ...overrides });
+
+describe('compileValidator', () => {
+  it('accepts everything with the default rules', () => {
+    const validate = compileValidator(DEFAULT_VALIDATION_RULES);
+    expect(validate('x')).toBeNull();
+    expect(validate('任何内容 👍')).toBeNull();
+  });
+
+  it('counts length in characters, so an emoji is one', () => {
+    const validate = compileValidator(rules({ minLength: 3, maxLength: 4 }));
+    expect(validate('ab')).toBe('Shorter than 3 characters');
+    expect(validate('ab👍')).toBeNull();
+    expect(validate('abcde')).toBe('Longer than 4 characters');
+  });
+
+  it('limits the UTF-8 size', () => {
+    const validate = compileValidator(rules({ maxBytes: 6 }));
+    expect(validate('中文')).toBeNull();
+    expect(validate('中文a')).toBe('Larger than 6 bytes');
+  });
+
+  it('reports the first forbidden pattern that matches', () => {
+    const validate = compileValidator(rules({ forbiddenPatterns: ['', '^\\d+$', 'https?://'] }));
+    expect(validate('12345')).toBe("Matches forbidden pattern '^\\d+$'");
+    expect(validate('see http://x.test')).toBe("Matches forbidden pattern 'https?://'");
+    expect(validate('plain text')).toBeNull();
+  });
+
+  it('requires a share of letters in the script, ignoring digits, punctuation and emoji', () => {
+    const validate = compileValidator(rules({ requiredScript: 'Han', minScriptRatio: 0.5 }));
+    expect(validate('很好 123!! 👍👍')).toBeNull();
+    expect(validate('很好 ok')).toBeNull();
+    expect(validate('很 good')).toBe('20% Chinese (Han) letters (needs 50%)');
+    expect(validate('12345')).toBe('0% Chinese (Han) letters (needs 50%)');
+  });
+});
+
+describe('checkValidationRules', () => {
+  it('reports contradictory lengths and invalid patterns', () => {
+    expect(checkValidationRules(DEFAULT_VALIDATION_RULES)).toBeNull();
+    expect(checkValidationRules(rules({ minLength: 5, maxLength: 2 }))).toBe('Min length is greater than max length');
+    expect(checkValidationRules(rules({ forbiddenPatterns: ['(unclosed'] }))).toMatch(/^Invalid pattern '\(unclosed'/);
+  });
+});
@@ -0,0 +1,94 @@
+import { ValidationRules, ScriptName } from '../types';
+
+const RULES_KEY = 'risk_review.validationRules';
+
+// Everything off, so rows are accepted exactly as before until rules are configured
+export const DEFAULT_VALIDATION_RULES: ValidationRules = {
+  minLength: null,
+  maxLength: null,
+  maxBytes: null,
+  forbiddenPatterns: [],
+  requiredScript: null,
+  minScriptRatio: 0.5,
+};
+
+export const SCRIPT_LABELS: Record<ScriptName, string> = {
+  Han: 'Chinese (Han)',
+  Latin: 'Latin',
+  Cyrillic: 'Cyrillic',
+  Arabic: 'Arabic',
+  Hangul: 'Korean (Hangul)',
+  Thai: 'Thai',
+};
+
+export const loadValidationRules = (): ValidationRules => {
+  try {
+    const raw = localStorage.getItem(RULES_KEY);
+    return raw ? { ...DEFAULT_VALIDATION_RULES, ...JSON.parse(raw) } : DEFAULT_VALIDATION_RULES;
+  } catch (err) {
+    console.warn('Failed to load validation rules:', err);
+    return DEFAULT_VALIDATION_RULES;
+  }
+};
+
+export const saveValidationRules = (rules: ValidationRules) => {
+  localStorage.setItem(RULES_KEY, JSON.stringify(rules));
+};
+
+// Returns the first problem as an error message, or null
+export const checkValidationRules = (rules: ValidationRules): string | null => {
+  if (rules.minLength !== null && rules.maxLength !== null && rules.minLength > rules.maxLength) {
+    return 'Min length is greater than max length';
+  }
+  for (const pattern of rules.forbiddenPatterns) {
+    if (!pattern) continue;
+    try {
+      new RegExp(pattern, 'u');
+    } catch (err: any) {
+      return `Invalid pattern '${pattern}': ${err.message}`;
+    }
+  }
+  return null;
+};
+
+const utf8Length = (text: string) => {
+  let bytes = 0;
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    bytes += code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+  }
+  return bytes;
+};
+
+// Compiles the rules once into a function returning the failed rule for a row, or null if it passes
+export const compileValidator = (rules: ValidationRules): ((content: string) => string | null) => {
+  const patterns = rules.forbiddenPatterns.filter(Boolean).map(p => ({ source: p, regex: new RegExp(p, 'u') }));
+  const scriptRegex = rules.requiredScript ? new RegExp(`\\p{Script=${rules.requiredScript}}`, 'u') : null;
+
+  return (content: string) => {
+    const chars = Array.from(content);
+    if (rules.minLength !== null && chars.length < rules.minLength) return `Shorter than ${rules.minLength} characters`;
+    if (rules.maxLength !== null && chars.length > rules.maxLength) return `Longer than ${rules.maxLength} characters`;
+    if (rules.maxBytes !== null && utf8Length(content) > rules.maxBytes) return `Larger than ${rules.maxBytes} bytes`;
+
+    for (const { source, regex } of patterns) {
+      if (regex.test(content)) return `Matches forbidden pattern '${source}'`;
+    }
+
+    if (scriptRegex) {
+      // Only letters count, so punctuation, digits and emoji neither help nor hurt
+      let letters = 0;
+      let inScript = 0;
+      for (const char of chars) {
+        if (!/\p{L}/u.test(char)) continue;
+        letters++;
+        if (scriptRegex.test(char)) inScript++;
+      }
+      const ratio = letters > 0 ? inScript / letters : 0;
+      if (ratio < rules.minScriptRatio) {
+        return `${Math.round(ratio * 100)}% ${SCRIPT_LABELS[rules.requiredScript!]} letters (needs ${Math.round(rules.minScriptRatio * 100)}%)`;
+      }
+    }
+    return null;
+  };
+};
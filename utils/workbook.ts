@@ -0,0 +1,150 @@
+import JSZip from 'jszip';
+
+// Reads Excel workbooks without a spreadsheet library: an .xlsx file is a ZIP of XML parts.
+// Runs in the parser worker, where DOMParser is unavailable, so the XML is scanned with
+// regular expressions; only the parts needed for cell text are read.
+
+export const WORKBOOK_PATTERN = /\.(xlsx|xlsm)$/i;
+
+export const isWorkbookFile = (fileName: string) => WORKBOOK_PATTERN.test(fileName);
+
+// Excel 97-2003 files use the binary BIFF format, which is not read; they must be saved as .xlsx
+export const isLegacyWorkbookFile = (fileName: string) => /\.xls$/i.test(fileName);
+
+export const legacyWorkbookMessage = (fileName: string) =>
+  `${fileName} is a legacy Excel 97-2003 workbook, which is not supported. Save it as .xlsx (or CSV) in Excel and upload it again.`;
+
+// File input filter for every upload that goes through the parser worker
+export const INPUT_ACCEPT = '.csv,.txt,.xlsx,.xlsm';
+
+export class SheetSelectionRequiredError extends Error {
+  constructor(public fileName: string, public sheets: string[]) {
+    super(`${fileName} has ${sheets.length} sheets. Choose the sheet to read.`);
+    this.name = 'SheetSelectionRequiredError';
+  }
+}
+
+const decodeXml = (text: string) =>
+  text
+    .replace(/_x([0-9a-fA-F]{4})_/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/&(#x[0-9a-fA-F]+|#\d+|amp|lt|gt|quot|apos);/g, (_, body: string) => {
+      if (body[0] === '#') return String.fromCodePoint(body[1] === 'x' ? parseInt(body.slice(2), 16) : parseInt(body.slice(1), 10));
+      return ({ amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" } as Record<string, string>)[body];
+    });
+
+const attributesOf = (tag: string): Record<string, string> => {
+  const attrs: Record<string, string> = {};
+  for (const match of tag.matchAll(/([\w:]+)="([^"]*)"/g)) attrs[match[1]] = decodeXml(match[2]);
+  return attrs;
+};
+
+// Text of <t> elements, skipping phonetic runs (<rPh>) used for East Asian reading hints
+const textOf = (xml: string) => {
+  let text = '';
+  for (const match of xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '').matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g)) text += match[1];
+  return decodeXml(text);
+};
+
+const columnIndex = (ref: string) => {
+  let index = 0;
+  for (const ch of ref.replace(/\d+$/, '')) index = index * 26 + (ch.charCodeAt(0) - 64);
+  return index - 1;
+};
+
+const resolveTarget = (target: string) => (target.startsWith('/') ? target.slice(1) : `xl/${target.replace(/^\.\//, '')}`);
+
+interface SheetInfo {
+  name: string;
+  path: string;
+}
+
+const readSheetList = async (zip: JSZip): Promise<{ sheets: SheetInfo[]; sharedStringsPath: string | null }> => {
+  const workbook = await zip.file('xl/workbook.xml')?.async('string');
+  const rels = await zip.file('xl/_rels/workbook.xml.rels')?.async('string');
+  if (!workbook || !rels) throw new Error('The workbook is missing its sheet list.');
+
+  const targets = new Map<string, { type: string; target: string }>();
+  for (const match of rels.matchAll(/<Relationship\b[^>]*>/g)) {
+    const attrs = attributesOf(match[0]);
+    targets.set(attrs.Id, { type: attrs.Type || '', target: attrs.Target || '' });
+  }
+
+  const sheets: SheetInfo[] = [];
+  for (const match of workbook.matchAll(/<sheet\b[^>]*>/g)) {
+    const attrs = attributesOf(match[0]);
+    // The relationship id is namespaced (usually r:id)
+    const relId = Object.keys(attrs).find(key => /(^|:)id$/.test(key) && key !== 'sheetId');
+    const rel = relId ? targets.get(attrs[relId]) : undefined;
+    if (rel) sheets.push({ name: attrs.name, path: resolveTarget(rel.target) });
+  }
+
+  const shared = Array.from(targets.values()).find(rel => rel.type.endsWith('/sharedStrings'));
+  return { sheets, sharedStringsPath: shared ? resolveTarget(shared.target) : null };
+};
+
+const cellValue = (attrs: Record<string, string>, inner: string, sharedStrings: string[]) => {
+  const type = attrs.t;
+  if (type === 'inlineStr') return textOf(inner);
+  const raw = /<v>([\s\S]*?)<\/v>/.exec(inner)?.[1];
+  if (raw === undefined) return '';
+  if (type === 's') return sharedStrings[parseInt(raw, 10)] ?? '';
+  if (type === 'b') return raw === '1' ? 'TRUE' : 'FALSE';
+  if (type === 'str' || type === 'e') return decodeXml(raw);
+  // Numbers (dates stay as Excel serial numbers); round-tripping drops float noise like 0.1000000001
+  const number = Number(raw);
+  return isFinite(number) ? String(number) : raw;
+};
+
+// Returns the rows of one sheet as arrays of cell text, skipping empty rows. `sheet` may be
+// omitted only when the workbook has a single sheet.
+export const readWorkbookRows = async (buffer: ArrayBuffer, fileName: string, sheet?: string): Promise<string[][]> => {
+  const zip = await JSZip.loadAsync(buffer);
+  const { sheets, sharedStringsPath } = await readSheetList(zip);
+  if (sheets.length === 0) throw new Error(`${fileName} contains no worksheets.`);
+  if (!sheet && sheets.length > 1) throw new SheetSelectionRequiredError(fileName, sheets.map(s => s.name));
+
+  const target = sheet ? sheets.find(s => s.name === sheet) : sheets[0];
+  if (!target) throw new Error(`Sheet '${sheet}' was not found in ${fileName}.`);
+
+  const sharedXml = sharedStringsPath ? await zip.file(sharedStringsPath)?.async('string') : undefined;
+  const sharedStrings = sharedXml ? Array.from(sharedXml.matchAll(/<si>([\s\S]*?)<\/si>/g), m => textOf(m[1])) : [];
+
+  const sheetXml = await zip.file(target.path)?.async('string');
+  if (sheetXml === undefined) throw new Error(`Sheet '${target.name}' could not be read.`);
+
+  const rows: string[][] = [];
+  for (const rowMatch of sheetXml.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g)) {
+    const cells: string[] = [];
+    let next = 0;
+    for (const cellMatch of rowMatch[1].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attrs = attributesOf(cellMatch[1]);
+      const index = attrs.r ? columnIndex(attrs.r) : next;
+      while (cells.length < index) cells.push('');
+      cells[index] = cellValue(attrs, cellMatch[2] || '', sharedStrings);
+      next = index + 1;
+    }
+    if (cells.some(cell => cell !== '')) rows.push(cells);
+  }
+  return rows;
+};
+
+// Sheets chosen for a file are remembered, so re-parsing it (e.g. after a column mapping or
+// encoding change) does not ask again
+const chosenSheets = new WeakMap<File, string>();
+
+// Runs `parse`, asking for a sheet when the workbook has several and retrying with the choice
+export const parseWithSheetSelection = async <T>(
+  file: File,
+  parse: (sheet?: string) => Promise<T>,
+  requestSheet: (error: SheetSelectionRequiredError) => Promise<string | null>
+): Promise<T> => {
+  try {
+    return await parse(chosenSheets.get(file));
+  } catch (err) {
+    if (!(err instanceof SheetSelectionRequiredError)) throw err;
+    const sheet = await requestSheet(err);
+    if (!sheet) throw new Error(`Sheet selection cancelled. ${err.message}`);
+    chosenSheets.set(file, sheet);
+    return parse(sheet);
+  }
+};